@@ -17,10 +17,14 @@ import Stock from "@/pages/stock";
 import Purchases from "@/pages/purchases";
 import Payments from "@/pages/payments";
 import Reports from "@/pages/reports";
+import Accounts from "@/pages/accounts";
 import PrintCenter from "@/pages/print";
 import Settings from "@/pages/settings";
 import Weighing from "@/pages/weighing";
 import VendorReturns from "@/pages/vendor-returns";
+import SalesReturns from "@/pages/sales-returns";
+import Pattis from "@/pages/pattis";
+import Expenses from "@/pages/expenses";
 
 function Router() {
   return (
@@ -34,9 +38,13 @@ function Router() {
       <Route path="/stock" component={Stock} />
       <Route path="/purchases" component={Purchases} />
       <Route path="/vendor-returns" component={VendorReturns} />
+      <Route path="/sales-returns" component={SalesReturns} />
+      <Route path="/pattis" component={Pattis} />
       <Route path="/weighing" component={Weighing} />
       <Route path="/payments" component={Payments} />
+      <Route path="/expenses" component={Expenses} />
       <Route path="/reports" component={Reports} />
+      <Route path="/accounts" component={Accounts} />
       <Route path="/print" component={PrintCenter} />
       <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
@@ -26,7 +26,11 @@ import {
   Settings,
   Scale,
   RotateCcw,
+  Undo2,
+  Receipt,
   ShoppingBag,
+  BookOpen,
+  Wallet,
 } from "lucide-react";
 
 const navigationItems = [
@@ -74,10 +78,20 @@ const transactionItems = [
     icon: ShoppingCart,
   },
   {
-    title: "Returns",
+    title: "Vendor Returns",
     url: "/vendor-returns",
     icon: RotateCcw,
   },
+  {
+    title: "Sales Returns",
+    url: "/sales-returns",
+    icon: Undo2,
+  },
+  {
+    title: "Pattis",
+    url: "/pattis",
+    icon: Receipt,
+  },
   {
     title: "Weighing",
     url: "/weighing",
@@ -88,6 +102,11 @@ const transactionItems = [
     url: "/payments",
     icon: CreditCard,
   },
+  {
+    title: "Expenses",
+    url: "/expenses",
+    icon: Wallet,
+  },
 ];
 
 const reportItems = [
@@ -96,6 +115,11 @@ const reportItems = [
     url: "/reports",
     icon: BarChart3,
   },
+  {
+    title: "Accounts",
+    url: "/accounts",
+    icon: BookOpen,
+  },
   {
     title: "Print Center",
     url: "/print",
@@ -0,0 +1,170 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Undo2 } from "lucide-react";
+import type { Customer, Invoice, Product, PublicCompanySettings, SalesReturn, SalesReturnItem } from "@shared/schema";
+import { getStateName } from "@shared/gst";
+import { TaxSummary } from "@/components/tax-summary";
+
+interface CreditNoteDocumentProps {
+  salesReturn: SalesReturn;
+  items: SalesReturnItem[];
+  invoice?: Invoice;
+  customer?: Customer;
+  products: Product[];
+  companySettings?: PublicCompanySettings | null;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+const CONDITION_LABELS: Record<string, string> = {
+  restock: "Restocked",
+  damaged: "Damaged",
+};
+
+export function CreditNoteDocument({ salesReturn, items, invoice, customer, products, companySettings }: CreditNoteDocumentProps) {
+  const getProduct = (id: string) => products.find((p) => p.id === id);
+  const cell = "border border-border px-3 py-2 text-sm";
+
+  return (
+    <Card className="print:shadow-none print:border-none">
+      <CardContent className="p-8">
+        <div className="border border-border rounded-md p-6 space-y-6">
+          <div className="flex justify-between items-start border-b border-border pb-4">
+            <div>
+              <h2 className="text-xl font-bold" data-testid="text-company-name">
+                {companySettings?.name || "VegWholesale"}
+              </h2>
+              {companySettings?.address && (
+                <p className="text-sm text-muted-foreground">{companySettings.address}</p>
+              )}
+              {companySettings?.phone && (
+                <p className="text-sm text-muted-foreground">Phone: {companySettings.phone}</p>
+              )}
+              {companySettings?.gstNumber && (
+                <p className="text-sm font-medium">GSTIN: {companySettings.gstNumber}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <div className="flex items-center gap-2 justify-end mb-2">
+                <Undo2 className="h-5 w-5" />
+                <h3 className="text-lg font-bold uppercase">Credit Note</h3>
+              </div>
+              <p className="text-sm">
+                <span className="font-medium">No:</span> {salesReturn.creditNoteNumber}
+              </p>
+              <p className="text-sm">
+                <span className="font-medium">Date:</span> {salesReturn.date}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Customer</h4>
+              <div className="border border-border rounded-md p-3">
+                <p className="font-medium">{customer?.name}</p>
+                {customer?.address && <p className="text-sm text-muted-foreground">{customer.address}</p>}
+                {customer?.phone && <p className="text-sm text-muted-foreground">Phone: {customer.phone}</p>}
+                {customer?.gstin && <p className="text-sm font-medium">GSTIN: {customer.gstin}</p>}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Original Invoice</h4>
+              <div className="border border-border rounded-md p-3">
+                <p className="text-sm">
+                  <span className="font-medium">Invoice:</span> {invoice?.invoiceNumber ?? "-"}
+                </p>
+                {invoice && (
+                  <p className="text-sm">
+                    <span className="font-medium">Dated:</span> {invoice.date}
+                  </p>
+                )}
+                {invoice?.placeOfSupply && (
+                  <p className="text-sm text-muted-foreground">
+                    Place of Supply: {getStateName(invoice.placeOfSupply)} ({invoice.placeOfSupply})
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-muted/50">
+                <th className={`${cell} text-left font-semibold`}>#</th>
+                <th className={`${cell} text-left font-semibold`}>Item</th>
+                <th className={`${cell} text-left font-semibold`}>HSN</th>
+                <th className={`${cell} text-left font-semibold`}>Reason</th>
+                <th className={`${cell} text-right font-semibold`}>Qty</th>
+                <th className={`${cell} text-right font-semibold`}>Rate</th>
+                <th className={`${cell} text-right font-semibold`}>GST</th>
+                <th className={`${cell} text-right font-semibold`}>Taxable Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, idx) => (
+                <tr key={item.id}>
+                  <td className={cell}>{idx + 1}</td>
+                  <td className={cell}>{getProduct(item.productId)?.name || "Unknown"}</td>
+                  <td className={cell}>{item.hsnCode || "-"}</td>
+                  <td className={cell}>
+                    {item.reason}
+                    <span className="text-muted-foreground"> ({CONDITION_LABELS[item.condition] ?? item.condition})</span>
+                  </td>
+                  <td className={`${cell} text-right font-mono`}>
+                    {item.quantity} {getProduct(item.productId)?.unit}
+                  </td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(item.unitPrice)}</td>
+                  <td className={`${cell} text-right`}>{item.gstRate > 0 ? `${item.gstRate}%` : "Exempt"}</td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(item.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <TaxSummary lines={items} />
+
+          <div className="flex justify-end">
+            <div className="w-64 space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>Taxable Value</span>
+                <span className="font-mono">{formatAmount(salesReturn.subtotal)}</span>
+              </div>
+              {([
+                ["CGST", salesReturn.cgstAmount],
+                ["SGST", salesReturn.sgstAmount],
+                ["IGST", salesReturn.igstAmount],
+              ] as const).filter(([, amount]) => amount > 0).map(([label, amount]) => (
+                <div key={label} className="flex justify-between text-sm">
+                  <span>{label}</span>
+                  <span className="font-mono">{formatAmount(amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-base font-bold border-t border-border pt-2 mt-2">
+                <span>Credit Amount</span>
+                <span className="font-mono" data-testid="text-credit-amount">{formatAmount(salesReturn.totalAmount)}</span>
+              </div>
+            </div>
+          </div>
+
+          {salesReturn.notes && (
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium">Notes:</span> {salesReturn.notes}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-8 pt-8 mt-8 border-t border-border">
+            <div className="text-center">
+              <div className="h-16"></div>
+              <p className="text-sm border-t border-border pt-2">Customer Signature</p>
+            </div>
+            <div className="text-center">
+              <div className="h-16"></div>
+              <p className="text-sm border-t border-border pt-2">Authorized Signature</p>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
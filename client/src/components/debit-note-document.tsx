@@ -0,0 +1,141 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { RotateCcw } from "lucide-react";
+import type { Product, PublicCompanySettings, Purchase, Vehicle, Vendor, VendorReturn, VendorReturnItem } from "@shared/schema";
+
+interface DebitNoteDocumentProps {
+  vendorReturn: VendorReturn;
+  items: VendorReturnItem[];
+  vendor?: Vendor;
+  purchase?: Purchase;
+  vehicle?: Vehicle;
+  products: Product[];
+  companySettings?: PublicCompanySettings | null;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+// Handed to the vendor or farmer with the goods sent back, so they can see
+// what was returned, why, and how much was knocked off their account.
+export function DebitNoteDocument({ vendorReturn, items, vendor, purchase, vehicle, products, companySettings }: DebitNoteDocumentProps) {
+  const getProduct = (id: string) => products.find((p) => p.id === id);
+  const cell = "border border-border px-3 py-2 text-sm";
+
+  return (
+    <Card className="print:shadow-none print:border-none">
+      <CardContent className="p-8">
+        <div className="border border-border rounded-md p-6 space-y-6">
+          <div className="flex justify-between items-start border-b border-border pb-4">
+            <div>
+              <h2 className="text-xl font-bold" data-testid="text-company-name">
+                {companySettings?.name || "VegWholesale"}
+              </h2>
+              {companySettings?.address && (
+                <p className="text-sm text-muted-foreground">{companySettings.address}</p>
+              )}
+              {companySettings?.phone && (
+                <p className="text-sm text-muted-foreground">Phone: {companySettings.phone}</p>
+              )}
+              {companySettings?.gstNumber && (
+                <p className="text-sm font-medium">GSTIN: {companySettings.gstNumber}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <div className="flex items-center gap-2 justify-end mb-2">
+                <RotateCcw className="h-5 w-5" />
+                <h3 className="text-lg font-bold uppercase">Debit Note</h3>
+              </div>
+              <p className="text-sm">
+                <span className="font-medium">No:</span> {vendorReturn.debitNoteNumber ?? "-"}
+              </p>
+              <p className="text-sm">
+                <span className="font-medium">Date:</span> {vendorReturn.date}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Vendor</h4>
+              <div className="border border-border rounded-md p-3">
+                <p className="font-medium">{vendor?.name}</p>
+                {vendor?.address && <p className="text-sm text-muted-foreground">{vendor.address}</p>}
+                {vendor?.phone && <p className="text-sm text-muted-foreground">Phone: {vendor.phone}</p>}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Reference</h4>
+              <div className="border border-border rounded-md p-3">
+                {purchase ? (
+                  <p className="text-sm" data-testid="text-debit-note-purchase">
+                    <span className="font-medium">Purchase:</span> #{purchase.id.slice(0, 8)} dated {purchase.date} ({formatAmount(purchase.totalAmount)})
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No purchase referenced</p>
+                )}
+                {vehicle && (
+                  <p className="text-sm" data-testid="text-debit-note-vehicle">
+                    <span className="font-medium">Vehicle:</span> {vehicle.number}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-muted/50">
+                <th className={`${cell} text-left font-semibold`}>#</th>
+                <th className={`${cell} text-left font-semibold`}>Item</th>
+                <th className={`${cell} text-left font-semibold`}>Reason</th>
+                <th className={`${cell} text-right font-semibold`}>Qty</th>
+                <th className={`${cell} text-right font-semibold`}>Rate</th>
+                <th className={`${cell} text-right font-semibold`}>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, idx) => (
+                <tr key={item.id}>
+                  <td className={cell}>{idx + 1}</td>
+                  <td className={cell}>{getProduct(item.productId)?.name || "Unknown"}</td>
+                  <td className={cell}>{item.reason}</td>
+                  <td className={`${cell} text-right font-mono`}>
+                    {item.quantity} {getProduct(item.productId)?.unit}
+                  </td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(item.unitPrice)}</td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(item.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex justify-end">
+            <div className="w-64">
+              <div className="flex justify-between text-base font-bold border-t border-border pt-2">
+                <span>Debit Amount</span>
+                <span className="font-mono" data-testid="text-debit-amount">{formatAmount(vendorReturn.totalAmount)}</span>
+              </div>
+            </div>
+          </div>
+
+          {vendorReturn.notes && (
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium">Notes:</span> {vendorReturn.notes}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-8 pt-8 mt-8 border-t border-border">
+            <div className="text-center">
+              <div className="h-16"></div>
+              <p className="text-sm border-t border-border pt-2">Vendor Signature</p>
+            </div>
+            <div className="text-center">
+              <div className="h-16"></div>
+              <p className="text-sm border-t border-border pt-2">Authorized Signature</p>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
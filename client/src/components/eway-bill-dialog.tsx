@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Download } from "lucide-react";
+import type { Customer, Invoice, InvoiceItem, Product, PublicCompanySettings, Vehicle } from "@shared/schema";
+import { resolveStateCode } from "@shared/gst";
+import {
+  EWAY_BILL_THRESHOLD,
+  EWB_NUMBER_PATTERN,
+  buildEwayBillJson,
+  findEwayBillProblems,
+  findPincode,
+  type EwayBillInput,
+} from "@shared/ewaybill";
+
+interface EwayBillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentType: "invoice" | "challan";
+  invoice: Invoice;
+  items: InvoiceItem[];
+  customer: Customer | null | undefined;
+  vehicle: Vehicle | null | undefined;
+  products: Product[];
+  companySettings: PublicCompanySettings | null | undefined;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Builds the portal's bulk-upload JSON in the browser, then records the EWB
+// number the portal hands back against the invoice.
+export function EwayBillDialog({
+  open,
+  onOpenChange,
+  documentType,
+  invoice,
+  items,
+  customer,
+  vehicle,
+  products,
+  companySettings,
+}: EwayBillDialogProps) {
+  const { toast } = useToast();
+  const [distanceKm, setDistanceKm] = useState("");
+  const [vehicleNumber, setVehicleNumber] = useState("");
+  const [transporterName, setTransporterName] = useState("");
+  const [transporterId, setTransporterId] = useState("");
+  const [fromPlace, setFromPlace] = useState("");
+  const [fromPincode, setFromPincode] = useState("");
+  const [toPlace, setToPlace] = useState("");
+  const [toPincode, setToPincode] = useState("");
+  const [ewayBillNumber, setEwayBillNumber] = useState("");
+  const [ewayBillDate, setEwayBillDate] = useState(today);
+
+  // Prefill from the invoice each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setVehicleNumber(vehicle?.number ?? "");
+    setFromPincode(findPincode(companySettings?.address));
+    setToPincode(findPincode(customer?.address));
+    setEwayBillNumber(invoice.ewayBillNumber ?? "");
+    setEwayBillDate(invoice.ewayBillDate ?? today());
+  }, [open, invoice, vehicle, customer, companySettings]);
+
+  const getProduct = (id: string) => products.find((p) => p.id === id);
+
+  const input: EwayBillInput = {
+    documentType: documentType === "invoice" ? "INV" : "CHL",
+    documentNumber: invoice.invoiceNumber,
+    documentDate: invoice.date,
+    from: {
+      gstin: companySettings?.gstNumber ?? null,
+      name: companySettings?.name ?? "",
+      address: companySettings?.address ?? "",
+      place: fromPlace,
+      pincode: fromPincode,
+      stateCode: resolveStateCode(companySettings?.state, companySettings?.gstNumber) ?? "",
+    },
+    to: {
+      gstin: customer?.gstin ?? null,
+      name: customer?.name ?? "",
+      address: customer?.address ?? "",
+      place: toPlace,
+      pincode: toPincode,
+      // Invoices from before place of supply was recorded fall back to the customer's state
+      stateCode: invoice.placeOfSupply || resolveStateCode(customer?.state, customer?.gstin) || "",
+    },
+    lines: items.map((item) => ({
+      productName: getProduct(item.productId)?.name ?? "Unknown",
+      hsnCode: item.hsnCode ?? "",
+      unit: getProduct(item.productId)?.unit ?? "",
+      quantity: item.quantity,
+      taxableValue: item.total,
+      gstRate: item.gstRate,
+    })),
+    cgstAmount: invoice.cgstAmount,
+    sgstAmount: invoice.sgstAmount,
+    igstAmount: invoice.igstAmount,
+    otherAmount: invoice.grandTotal - invoice.subtotal - invoice.cgstAmount - invoice.sgstAmount - invoice.igstAmount,
+    totalValue: invoice.grandTotal,
+    transport: {
+      distanceKm: parseFloat(distanceKm) || 0,
+      vehicleNumber,
+      transporterName: transporterName.trim(),
+      transporterId: transporterId.trim().toUpperCase(),
+    },
+  };
+  const problems = findEwayBillProblems(input);
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(buildEwayBillJson(input), null, 2)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `EWB_${invoice.invoiceNumber.replace(/[^\w-]/g, "_")}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const saveEwayBill = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/invoices/${invoice.id}/eway-bill`, {
+        ewayBillNumber: ewayBillNumber.trim(),
+        ewayBillDate,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      onOpenChange(false);
+      toast({ title: "E-way bill saved", description: `EWB No. ${ewayBillNumber.trim()} recorded on ${invoice.invoiceNumber}.` });
+    },
+    onError: (error: Error) => {
+      let description = "Failed to save e-way bill number.";
+      try {
+        description = JSON.parse(error.message.replace(/^\d{3}: /, "")).error ?? description;
+      } catch {
+        // keep the generic message
+      }
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>E-way Bill for {invoice.invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            Download the JSON, upload it on the e-way bill portal under bulk generation, then enter the EWB number it returns.
+          </DialogDescription>
+        </DialogHeader>
+
+        {invoice.grandTotal <= EWAY_BILL_THRESHOLD && (
+          <div className="flex items-start gap-2 rounded-md border border-border p-3 text-sm text-muted-foreground" data-testid="text-ewb-below-threshold">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            The consignment value is not above {EWAY_BILL_THRESHOLD.toLocaleString("en-IN", { style: "currency", currency: "INR" })}, so an e-way bill is usually not required.
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="ewbDistance">Distance (km)</Label>
+            <Input
+              id="ewbDistance"
+              type="number"
+              min="1"
+              value={distanceKm}
+              onChange={(e) => setDistanceKm(e.target.value)}
+              data-testid="input-ewb-distance"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbVehicle">Vehicle Number</Label>
+            <Input
+              id="ewbVehicle"
+              value={vehicleNumber}
+              onChange={(e) => setVehicleNumber(e.target.value)}
+              placeholder="KA01AB1234"
+              data-testid="input-ewb-vehicle"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbTransporterName">Transporter Name</Label>
+            <Input
+              id="ewbTransporterName"
+              value={transporterName}
+              onChange={(e) => setTransporterName(e.target.value)}
+              data-testid="input-ewb-transporter-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbTransporterId">Transporter ID</Label>
+            <Input
+              id="ewbTransporterId"
+              value={transporterId}
+              onChange={(e) => setTransporterId(e.target.value)}
+              placeholder="GSTIN or TRANSIN (optional)"
+              data-testid="input-ewb-transporter-id"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbFromPlace">Dispatch Place</Label>
+            <Input
+              id="ewbFromPlace"
+              value={fromPlace}
+              onChange={(e) => setFromPlace(e.target.value)}
+              data-testid="input-ewb-from-place"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbFromPincode">Dispatch PIN Code</Label>
+            <Input
+              id="ewbFromPincode"
+              value={fromPincode}
+              onChange={(e) => setFromPincode(e.target.value)}
+              data-testid="input-ewb-from-pincode"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbToPlace">Delivery Place</Label>
+            <Input
+              id="ewbToPlace"
+              value={toPlace}
+              onChange={(e) => setToPlace(e.target.value)}
+              data-testid="input-ewb-to-place"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbToPincode">Delivery PIN Code</Label>
+            <Input
+              id="ewbToPincode"
+              value={toPincode}
+              onChange={(e) => setToPincode(e.target.value)}
+              data-testid="input-ewb-to-pincode"
+            />
+          </div>
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="list-disc pl-5 text-sm text-destructive space-y-1" data-testid="list-ewb-problems">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+
+        <Button variant="outline" onClick={handleDownload} disabled={problems.length > 0} data-testid="button-download-ewb-json">
+          <Download className="h-4 w-4 mr-2" />
+          Download JSON
+        </Button>
+
+        <div className="grid grid-cols-2 gap-4 border-t border-border pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="ewbNumber">EWB Number</Label>
+            <Input
+              id="ewbNumber"
+              value={ewayBillNumber}
+              onChange={(e) => setEwayBillNumber(e.target.value)}
+              placeholder="12-digit number from the portal"
+              data-testid="input-ewb-number"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ewbDate">EWB Date</Label>
+            <Input
+              id="ewbDate"
+              type="date"
+              value={ewayBillDate}
+              onChange={(e) => setEwayBillDate(e.target.value)}
+              data-testid="input-ewb-date"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!EWB_NUMBER_PATTERN.test(ewayBillNumber.trim()) || !ewayBillDate || saveEwayBill.isPending}
+            onClick={() => saveEwayBill.mutate()}
+            data-testid="button-save-ewb"
+          >
+            {saveEwayBill.isPending ? "Saving..." : "Save EWB Number"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
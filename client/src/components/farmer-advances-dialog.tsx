@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { FarmerAdvance, Vendor } from "@shared/schema";
+import type { AdvancePosition } from "@shared/advances";
+
+type FarmerAdvanceStatus = FarmerAdvance & Omit<AdvancePosition, "advanceId">;
+
+interface FarmerAdvancesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendor: Vendor | null;
+}
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Advances ledger for one farmer: what was given, what has come back out of
+// payments and pattis, and what is still owed with interest to date.
+export function FarmerAdvancesDialog({ open, onOpenChange, vendor }: FarmerAdvancesDialogProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [interestRate, setInterestRate] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount("");
+    setDate(today());
+    setPaymentMethod("cash");
+    setInterestRate("");
+    setNotes("");
+  }, [open]);
+
+  const advancesKey = `/api/farmer-advances?vendorId=${vendor?.id}`;
+  // Interest accrues daily, so never show yesterday's figures
+  const { data: advances = [] } = useQuery<FarmerAdvanceStatus[]>({
+    queryKey: [advancesKey],
+    enabled: open && !!vendor,
+    staleTime: 0,
+  });
+
+  const totalOutstanding = advances.reduce((sum, advance) => sum + advance.outstanding, 0);
+
+  const createAdvance = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/farmer-advances", {
+        vendorId: vendor!.id,
+        amount: parseFloat(amount),
+        date,
+        paymentMethod,
+        interestRate: parseFloat(interestRate) || 0,
+        notes: notes.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [advancesKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/vendor-balances"] });
+      setAmount("");
+      setInterestRate("");
+      setNotes("");
+      toast({ title: "Advance recorded", description: `Advance given to ${vendor?.name}.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to record advance.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Advances - {vendor?.name}</DialogTitle>
+          <DialogDescription>
+            Advances are recovered when recording vendor payments or generating pattis.
+          </DialogDescription>
+        </DialogHeader>
+
+        {advances.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No advances given to this farmer</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Interest</TableHead>
+                <TableHead className="text-right">Recovered</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...advances].sort((a, b) => b.date.localeCompare(a.date)).map((advance) => (
+                <TableRow key={advance.id} data-testid={`row-advance-${advance.id}`}>
+                  <TableCell>
+                    {advance.date}
+                    {advance.notes && <span className="text-muted-foreground"> - {advance.notes}</span>}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(advance.amount)}</TableCell>
+                  <TableCell className="text-right">
+                    {advance.interestRate > 0 ? `${advance.interestRate}% p.a.` : "-"}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatCurrency(advance.principalRecovered + advance.interestRecovered)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono font-medium">
+                    {formatCurrency(advance.outstanding)}
+                    {advance.interestAccrued > 0 && (
+                      <span className="block text-xs text-muted-foreground">
+                        incl. {formatCurrency(advance.interestAccrued)} interest
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell colSpan={4}>Total Outstanding</TableCell>
+                <TableCell className="text-right font-mono" data-testid="text-advances-outstanding">
+                  {formatCurrency(totalOutstanding)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="grid grid-cols-2 gap-4 border-t border-border pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="advanceAmount">Amount</Label>
+            <Input
+              id="advanceAmount"
+              type="number"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-advance-amount"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="advanceDate">Date</Label>
+            <Input
+              id="advanceDate"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              data-testid="input-advance-date"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Paid By</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger data-testid="select-advance-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="bank">Bank Transfer</SelectItem>
+                <SelectItem value="upi">UPI</SelectItem>
+                <SelectItem value="cheque">Cheque</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="advanceInterest">Interest (% p.a.)</Label>
+            <Input
+              id="advanceInterest"
+              type="number"
+              min="0"
+              step="0.1"
+              value={interestRate}
+              onChange={(e) => setInterestRate(e.target.value)}
+              placeholder="0 = interest-free"
+              data-testid="input-advance-interest"
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="advanceNotes">Notes (Optional)</Label>
+            <Input
+              id="advanceNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. seed money for tomato crop"
+              data-testid="input-advance-notes"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={() => createAdvance.mutate()}
+            disabled={!vendor || !(parseFloat(amount) > 0) || createAdvance.isPending}
+            data-testid="button-give-advance"
+          >
+            {createAdvance.isPending ? "Recording..." : "Give Advance"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,154 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Receipt } from "lucide-react";
+import type { Patti, PattiItem, Product, PublicCompanySettings, Vehicle, Vendor } from "@shared/schema";
+
+interface PattiDocumentProps {
+  patti: Patti;
+  items: PattiItem[];
+  vendor?: Vendor;
+  vehicle?: Vehicle;
+  products: Product[];
+  companySettings?: PublicCompanySettings | null;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+// Sale bill handed to the farmer once their load is sold: what each item
+// fetched, what we kept back, and what they are owed.
+export function PattiDocument({ patti, items, vendor, vehicle, products, companySettings }: PattiDocumentProps) {
+  const getProduct = (id: string) => products.find((p) => p.id === id);
+  const cell = "border border-border px-3 py-2 text-sm";
+
+  const deductions = [
+    [`Commission @ ${patti.commissionPercent}%`, patti.commissionAmount],
+    ["Hamali", patti.hamaliAmount],
+    ["Unloading", patti.unloadingAmount],
+    ["Transport", patti.transportAmount],
+    [patti.advanceInterest > 0 ? `Advance Recovered (incl. ${formatAmount(patti.advanceInterest)} interest)` : "Advance Recovered", patti.advanceAmount],
+  ] as const;
+
+  return (
+    <Card className="print:shadow-none print:border-none">
+      <CardContent className="p-8">
+        <div className="border border-border rounded-md p-6 space-y-6">
+          <div className="flex justify-between items-start border-b border-border pb-4">
+            <div>
+              <h2 className="text-xl font-bold" data-testid="text-company-name">
+                {companySettings?.name || "VegWholesale"}
+              </h2>
+              {companySettings?.address && (
+                <p className="text-sm text-muted-foreground">{companySettings.address}</p>
+              )}
+              {companySettings?.phone && (
+                <p className="text-sm text-muted-foreground">Phone: {companySettings.phone}</p>
+              )}
+              {companySettings?.gstNumber && (
+                <p className="text-sm font-medium">GSTIN: {companySettings.gstNumber}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <div className="flex items-center gap-2 justify-end mb-2">
+                <Receipt className="h-5 w-5" />
+                <h3 className="text-lg font-bold uppercase">Patti</h3>
+              </div>
+              <p className="text-sm">
+                <span className="font-medium">No:</span> {patti.pattiNumber}
+              </p>
+              <p className="text-sm">
+                <span className="font-medium">Date:</span> {patti.date}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Farmer</h4>
+              <div className="border border-border rounded-md p-3">
+                <p className="font-medium">{vendor?.name}</p>
+                {vendor?.address && <p className="text-sm text-muted-foreground">{vendor.address}</p>}
+                {vendor?.phone && <p className="text-sm text-muted-foreground">Phone: {vendor.phone}</p>}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Load</h4>
+              <div className="border border-border rounded-md p-3">
+                <p className="text-sm" data-testid="text-patti-vehicle">
+                  <span className="font-medium">Vehicle:</span> {vehicle?.number ?? "-"}
+                </p>
+                {vehicle?.entryDate && (
+                  <p className="text-sm">
+                    <span className="font-medium">Arrived:</span> {vehicle.entryDate}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-muted/50">
+                <th className={`${cell} text-left font-semibold`}>#</th>
+                <th className={`${cell} text-left font-semibold`}>Item</th>
+                <th className={`${cell} text-right font-semibold`}>Qty Sold</th>
+                <th className={`${cell} text-right font-semibold`}>Avg Rate</th>
+                <th className={`${cell} text-right font-semibold`}>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, idx) => (
+                <tr key={item.id}>
+                  <td className={cell}>{idx + 1}</td>
+                  <td className={cell}>{getProduct(item.productId)?.name || "Unknown"}</td>
+                  <td className={`${cell} text-right font-mono`}>
+                    {item.quantity} {getProduct(item.productId)?.unit}
+                  </td>
+                  <td className={`${cell} text-right font-mono`}>
+                    {item.quantity > 0 ? formatAmount(item.amount / item.quantity) : "-"}
+                  </td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(item.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex justify-end">
+            <div className="w-72 space-y-1">
+              <div className="flex justify-between text-sm font-medium">
+                <span>Gross Sales</span>
+                <span className="font-mono">{formatAmount(patti.grossSales)}</span>
+              </div>
+              {deductions.filter(([, amount]) => amount > 0).map(([label, amount]) => (
+                <div key={label} className="flex justify-between text-sm">
+                  <span>Less: {label}</span>
+                  <span className="font-mono">{formatAmount(amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-base font-bold border-t border-border pt-2 mt-2">
+                <span>Net Payable</span>
+                <span className="font-mono" data-testid="text-patti-net">{formatAmount(patti.netPayable)}</span>
+              </div>
+            </div>
+          </div>
+
+          {patti.notes && (
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium">Notes:</span> {patti.notes}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-8 pt-8 mt-8 border-t border-border">
+            <div className="text-center">
+              <div className="h-16"></div>
+              <p className="text-sm border-t border-border pt-2">Farmer Signature</p>
+            </div>
+            <div className="text-center">
+              <div className="h-16"></div>
+              <p className="text-sm border-t border-border pt-2">Authorized Signature</p>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
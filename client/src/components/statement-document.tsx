@@ -0,0 +1,173 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollText } from "lucide-react";
+import type { PublicCompanySettings } from "@shared/schema";
+import type { Statement } from "@shared/statement";
+
+interface StatementParty {
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+}
+
+interface StatementDocumentProps {
+  title: string;
+  partyLabel: string;
+  party: StatementParty;
+  statement: Statement;
+  companySettings?: PublicCompanySettings | null;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+// Balances are shown as Dr (owed to us) or Cr (owed by us)
+const formatBalance = (balance: number) =>
+  `${Math.abs(balance).toFixed(2)} ${balance < 0 ? "Cr" : "Dr"}`;
+
+// Rows for the CSV export, mirroring the printed ledger
+export function statementToCSVRows(party: StatementParty, statement: Statement): string[][] {
+  return [
+    [party.name, `${statement.from} to ${statement.to}`],
+    ["Date", "Particulars", "Reference", "Debit", "Credit", "Balance"],
+    [statement.from, "Opening Balance", "", "", "", formatBalance(statement.openingBalance)],
+    ...statement.lines.map((line) => [
+      line.date,
+      line.description,
+      line.reference,
+      line.debit > 0 ? line.debit.toFixed(2) : "",
+      line.credit > 0 ? line.credit.toFixed(2) : "",
+      formatBalance(line.balance),
+    ]),
+    [
+      statement.to,
+      "Closing Balance",
+      "",
+      statement.totalDebit.toFixed(2),
+      statement.totalCredit.toFixed(2),
+      formatBalance(statement.closingBalance),
+    ],
+  ];
+}
+
+export function StatementDocument({ title, partyLabel, party, statement, companySettings }: StatementDocumentProps) {
+  return (
+    <Card className="print:shadow-none print:border-none">
+      <CardContent className="p-8">
+        <div className="border border-border rounded-md p-6 space-y-6">
+          <div className="flex justify-between items-start border-b border-border pb-4">
+            <div>
+              <h2 className="text-xl font-bold" data-testid="text-company-name">
+                {companySettings?.name || "VegWholesale"}
+              </h2>
+              {companySettings?.address && (
+                <p className="text-sm text-muted-foreground">{companySettings.address}</p>
+              )}
+              {companySettings?.phone && (
+                <p className="text-sm text-muted-foreground">Phone: {companySettings.phone}</p>
+              )}
+              {companySettings?.gstNumber && (
+                <p className="text-sm font-medium">GSTIN: {companySettings.gstNumber}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <div className="flex items-center gap-2 justify-end mb-2">
+                <ScrollText className="h-5 w-5" />
+                <h3 className="text-lg font-bold uppercase">{title}</h3>
+              </div>
+              <p className="text-sm">
+                <span className="font-medium">Period:</span> {statement.from} to {statement.to}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">{partyLabel}</h4>
+              <div className="border border-border rounded-md p-3">
+                <p className="font-medium">{party.name}</p>
+                {party.address && <p className="text-sm text-muted-foreground">{party.address}</p>}
+                {party.phone && <p className="text-sm text-muted-foreground">Phone: {party.phone}</p>}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Summary</h4>
+              <div className="border border-border rounded-md p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Opening Balance</span>
+                  <span className="font-mono">{formatBalance(statement.openingBalance)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Total Debits</span>
+                  <span className="font-mono">{formatAmount(statement.totalDebit)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Total Credits</span>
+                  <span className="font-mono">{formatAmount(statement.totalCredit)}</span>
+                </div>
+                <div className="flex justify-between font-semibold border-t border-border pt-1">
+                  <span>Closing Balance</span>
+                  <span className="font-mono" data-testid="text-closing-balance">
+                    {formatBalance(statement.closingBalance)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-muted/50">
+                <th className="border border-border px-3 py-2 text-left text-sm font-semibold">Date</th>
+                <th className="border border-border px-3 py-2 text-left text-sm font-semibold">Particulars</th>
+                <th className="border border-border px-3 py-2 text-left text-sm font-semibold">Reference</th>
+                <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Debit</th>
+                <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Credit</th>
+                <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td className="border border-border px-3 py-2 text-sm">{statement.from}</td>
+                <td className="border border-border px-3 py-2 text-sm font-medium" colSpan={4}>Opening Balance</td>
+                <td className="border border-border px-3 py-2 text-right text-sm font-mono">
+                  {formatBalance(statement.openingBalance)}
+                </td>
+              </tr>
+              {statement.lines.map((line) => (
+                <tr key={`${line.type}-${line.documentId}`}>
+                  <td className="border border-border px-3 py-2 text-sm">{line.date}</td>
+                  <td className="border border-border px-3 py-2 text-sm">{line.description}</td>
+                  <td className="border border-border px-3 py-2 text-sm">{line.reference || "-"}</td>
+                  <td className="border border-border px-3 py-2 text-right text-sm font-mono">
+                    {line.debit > 0 ? formatAmount(line.debit) : ""}
+                  </td>
+                  <td className="border border-border px-3 py-2 text-right text-sm font-mono">
+                    {line.credit > 0 ? formatAmount(line.credit) : ""}
+                  </td>
+                  <td className="border border-border px-3 py-2 text-right text-sm font-mono">
+                    {formatBalance(line.balance)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-muted/50 font-semibold">
+                <td className="border border-border px-3 py-2 text-sm" colSpan={3}>Closing Balance</td>
+                <td className="border border-border px-3 py-2 text-right text-sm font-mono">{formatAmount(statement.totalDebit)}</td>
+                <td className="border border-border px-3 py-2 text-right text-sm font-mono">{formatAmount(statement.totalCredit)}</td>
+                <td className="border border-border px-3 py-2 text-right text-sm font-mono">
+                  {formatBalance(statement.closingBalance)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+
+          {companySettings?.bankDetails && (
+            <div className="text-sm text-muted-foreground border-t border-border pt-4">
+              <p className="font-medium mb-1">Bank Details:</p>
+              <p className="whitespace-pre-wrap">{companySettings.bankDetails}</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { summarizeTax, type TaxableLine } from "@shared/gst";
+
+interface TaxSummaryProps {
+  lines: TaxableLine[];
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+// HSN-wise tax summary printed under tax invoices and credit notes. Only the
+// CGST/SGST or the IGST columns are shown, whichever the supply used.
+export function TaxSummary({ lines }: TaxSummaryProps) {
+  const rows = summarizeTax(lines);
+  if (rows.length === 0) return null;
+
+  const interState = rows.some((row) => row.igstAmount > 0);
+  const total = (pick: (row: (typeof rows)[number]) => number) => rows.reduce((sum, row) => sum + pick(row), 0);
+  const cell = "border border-border px-3 py-1 text-sm";
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold mb-1 uppercase text-muted-foreground">Tax Summary</h4>
+      <table className="w-full border-collapse" data-testid="table-tax-summary">
+        <thead>
+          <tr className="bg-muted/50">
+            <th className={`${cell} text-left font-semibold`}>HSN</th>
+            <th className={`${cell} text-right font-semibold`}>Taxable Value</th>
+            {interState ? (
+              <>
+                <th className={`${cell} text-right font-semibold`}>IGST Rate</th>
+                <th className={`${cell} text-right font-semibold`}>IGST</th>
+              </>
+            ) : (
+              <>
+                <th className={`${cell} text-right font-semibold`}>CGST Rate</th>
+                <th className={`${cell} text-right font-semibold`}>CGST</th>
+                <th className={`${cell} text-right font-semibold`}>SGST Rate</th>
+                <th className={`${cell} text-right font-semibold`}>SGST</th>
+              </>
+            )}
+            <th className={`${cell} text-right font-semibold`}>Total Tax</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={`${row.hsnCode}-${row.gstRate}`}>
+              <td className={cell}>
+                {row.hsnCode || "-"}
+                {row.gstRate === 0 && <span className="text-muted-foreground"> (Exempt)</span>}
+              </td>
+              <td className={`${cell} text-right font-mono`}>{formatAmount(row.taxableValue)}</td>
+              {interState ? (
+                <>
+                  <td className={`${cell} text-right`}>{row.gstRate}%</td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(row.igstAmount)}</td>
+                </>
+              ) : (
+                <>
+                  <td className={`${cell} text-right`}>{row.gstRate / 2}%</td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(row.cgstAmount)}</td>
+                  <td className={`${cell} text-right`}>{row.gstRate / 2}%</td>
+                  <td className={`${cell} text-right font-mono`}>{formatAmount(row.sgstAmount)}</td>
+                </>
+              )}
+              <td className={`${cell} text-right font-mono`}>{formatAmount(row.totalTax)}</td>
+            </tr>
+          ))}
+          <tr className="bg-muted/50 font-semibold">
+            <td className={cell}>Total</td>
+            <td className={`${cell} text-right font-mono`}>{formatAmount(total((row) => row.taxableValue))}</td>
+            {interState ? (
+              <>
+                <td className={cell}></td>
+                <td className={`${cell} text-right font-mono`}>{formatAmount(total((row) => row.igstAmount))}</td>
+              </>
+            ) : (
+              <>
+                <td className={cell}></td>
+                <td className={`${cell} text-right font-mono`}>{formatAmount(total((row) => row.cgstAmount))}</td>
+                <td className={cell}></td>
+                <td className={`${cell} text-right font-mono`}>{formatAmount(total((row) => row.sgstAmount))}</td>
+              </>
+            )}
+            <td className={`${cell} text-right font-mono`}>{formatAmount(total((row) => row.totalTax))}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
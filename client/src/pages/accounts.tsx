@@ -0,0 +1,633 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Textarea } from "@/components/ui/textarea";
+import { BookOpen, Scale, CalendarDays, Wallet, Lock } from "lucide-react";
+import type { CashClosing, JournalEntry, JournalLine } from "@shared/schema";
+import { findAccount, type AccountType } from "@shared/ledger";
+import { CASH_DENOMINATIONS, countCash } from "@shared/cash";
+
+type TrialBalance = {
+  asOf: string;
+  accounts: { code: string; name: string; type: AccountType; debit: number; credit: number }[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+};
+
+type JournalEntryWithLines = JournalEntry & { lines: JournalLine[] };
+
+type DayBook = {
+  date: string;
+  entries: JournalEntryWithLines[];
+  totalDebit: number;
+  totalCredit: number;
+};
+
+type CashBook = {
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: {
+    entryId: string;
+    date: string;
+    voucherType: string;
+    reference: string | null;
+    narration: string;
+    debit: number;
+    credit: number;
+    balance: number;
+  }[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+};
+
+const VOUCHER_LABELS: Record<string, string> = {
+  sales: "Sales",
+  receipt: "Receipt",
+  payment: "Payment",
+  purchase: "Purchase",
+  debit_note: "Debit Note",
+  credit_note: "Credit Note",
+  patti: "Patti",
+  hamali: "Hamali",
+  expense: "Expense",
+};
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+}
+
+function getAccountName(code: string): string {
+  return findAccount(code)?.name ?? code;
+}
+
+function JournalTable({ entries }: { entries: JournalEntryWithLines[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Voucher</TableHead>
+          <TableHead>Account</TableHead>
+          <TableHead className="text-right">Debit</TableHead>
+          <TableHead className="text-right">Credit</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) =>
+          entry.lines.map((line, index) => (
+            <TableRow key={line.id} data-testid={index === 0 ? `row-journal-${entry.id}` : undefined}>
+              <TableCell className="text-sm">{index === 0 ? entry.date : ""}</TableCell>
+              <TableCell>
+                {index === 0 && (
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        {VOUCHER_LABELS[entry.voucherType] ?? entry.voucherType}
+                      </Badge>
+                      {entry.reference && <span className="font-mono text-xs">{entry.reference}</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{entry.narration}</div>
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className={line.credit > 0 ? "pl-8" : ""}>
+                {getAccountName(line.accountCode)}
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">
+                {line.debit > 0 ? formatCurrency(line.debit) : ""}
+              </TableCell>
+              <TableCell className="text-right font-mono text-sm">
+                {line.credit > 0 ? formatCurrency(line.credit) : ""}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Accounts() {
+  const { toast } = useToast();
+  const today = new Date().toISOString().split("T")[0];
+  const monthStart = `${today.slice(0, 8)}01`;
+
+  const [trialBalanceAsOf, setTrialBalanceAsOf] = useState(today);
+  const [journalFrom, setJournalFrom] = useState(monthStart);
+  const [journalTo, setJournalTo] = useState(today);
+  const [dayBookDate, setDayBookDate] = useState(today);
+  const [cashBookFrom, setCashBookFrom] = useState(today);
+  const [cashBookTo, setCashBookTo] = useState(today);
+  const [closingDate, setClosingDate] = useState(today);
+  const [denominationCounts, setDenominationCounts] = useState<Record<string, string>>({});
+  const [closedBy, setClosedBy] = useState("");
+  const [closingNotes, setClosingNotes] = useState("");
+
+  const { data: trialBalance, isLoading: trialBalanceLoading } = useQuery<TrialBalance>({
+    queryKey: [`/api/ledger/trial-balance?asOf=${trialBalanceAsOf}`],
+    // Every sale and payment posts to the ledger, so refetch whenever the page opens
+    staleTime: 0,
+  });
+
+  const { data: journal = [], isLoading: journalLoading } = useQuery<JournalEntryWithLines[]>({
+    queryKey: [`/api/ledger/journal?from=${journalFrom}&to=${journalTo}`],
+    staleTime: 0,
+  });
+
+  const { data: dayBook, isLoading: dayBookLoading } = useQuery<DayBook>({
+    queryKey: [`/api/ledger/day-book?date=${dayBookDate}`],
+    staleTime: 0,
+  });
+
+  const { data: cashBook, isLoading: cashBookLoading } = useQuery<CashBook>({
+    queryKey: [`/api/ledger/cash-book?from=${cashBookFrom}&to=${cashBookTo}`],
+    staleTime: 0,
+  });
+
+  const { data: closingCashBook } = useQuery<CashBook>({
+    queryKey: [`/api/ledger/cash-book?from=${closingDate}&to=${closingDate}`],
+    staleTime: 0,
+  });
+
+  const { data: cashClosings = [] } = useQuery<CashClosing[]>({
+    queryKey: ["/api/cash-closings"],
+  });
+
+  const denominations = Object.fromEntries(
+    CASH_DENOMINATIONS.map((value) => [String(value), parseInt(denominationCounts[value] || "0") || 0])
+  );
+  const countedCash = countCash(denominations);
+  const expectedCash = closingCashBook?.closingBalance ?? 0;
+  const existingClosing = cashClosings.find((c) => c.date === closingDate);
+
+  const closeCashMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/cash-closings", {
+        date: closingDate,
+        denominations,
+        closedBy: closedBy.trim(),
+        notes: closingNotes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-closings"] });
+      setDenominationCounts({});
+      setClosingNotes("");
+      toast({ title: "Cash closed", description: `Cash for ${closingDate} has been counted and closed.` });
+    },
+    onError: (error: Error) => {
+      const conflict = error.message.startsWith("409:");
+      toast({
+        title: "Error",
+        description: conflict ? "Cash for this date has already been closed." : "Failed to close cash.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h1 className="text-2xl font-semibold" data-testid="text-page-title">
+          Accounts
+        </h1>
+      </div>
+
+      <Tabs defaultValue="trial-balance" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="trial-balance" data-testid="tab-trial-balance">
+            <Scale className="h-4 w-4 mr-1" />
+            Trial Balance
+          </TabsTrigger>
+          <TabsTrigger value="journal" data-testid="tab-journal">
+            <BookOpen className="h-4 w-4 mr-1" />
+            Journal
+          </TabsTrigger>
+          <TabsTrigger value="day-book" data-testid="tab-day-book">
+            <CalendarDays className="h-4 w-4 mr-1" />
+            Day Book
+          </TabsTrigger>
+          <TabsTrigger value="cash-book" data-testid="tab-cash-book">
+            <Wallet className="h-4 w-4 mr-1" />
+            Cash Book
+          </TabsTrigger>
+          <TabsTrigger value="cash-closing" data-testid="tab-cash-closing">
+            <Lock className="h-4 w-4 mr-1" />
+            Cash Closing
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="trial-balance" className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-end justify-between gap-4 flex-wrap">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Scale className="h-4 w-4" />
+                  Trial Balance
+                  {trialBalance && (
+                    <Badge variant={trialBalance.balanced ? "default" : "destructive"} data-testid="badge-trial-balance">
+                      {trialBalance.balanced ? "Balanced" : "Out of balance"}
+                    </Badge>
+                  )}
+                </CardTitle>
+                <div className="space-y-2">
+                  <Label>As of</Label>
+                  <Input
+                    type="date"
+                    value={trialBalanceAsOf}
+                    onChange={(e) => setTrialBalanceAsOf(e.target.value || today)}
+                    className="w-40"
+                    data-testid="input-trial-balance-as-of"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {trialBalanceLoading || !trialBalance ? (
+                <Skeleton className="h-48" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Account</TableHead>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Credit</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trialBalance.accounts.map((account) => (
+                      <TableRow key={account.code} data-testid={`row-account-${account.code}`}>
+                        <TableCell className="font-mono text-sm">{account.code}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{account.name}</div>
+                          <div className="text-xs text-muted-foreground capitalize">{account.type}</div>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {account.debit ? formatCurrency(account.debit) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {account.credit ? formatCurrency(account.credit) : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-muted/50 font-semibold">
+                      <TableCell colSpan={2}>TOTAL</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(trialBalance.totalDebit)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(trialBalance.totalCredit)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="journal" className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-end justify-between gap-4 flex-wrap">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <BookOpen className="h-4 w-4" />
+                  Journal
+                </CardTitle>
+                <div className="flex items-end gap-2">
+                  <div className="space-y-2">
+                    <Label>From</Label>
+                    <Input
+                      type="date"
+                      value={journalFrom}
+                      onChange={(e) => setJournalFrom(e.target.value || monthStart)}
+                      className="w-40"
+                      data-testid="input-journal-from"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>To</Label>
+                    <Input
+                      type="date"
+                      value={journalTo}
+                      onChange={(e) => setJournalTo(e.target.value || today)}
+                      className="w-40"
+                      data-testid="input-journal-to"
+                    />
+                  </div>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {journalLoading ? (
+                <Skeleton className="h-48" />
+              ) : journal.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <BookOpen className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>No journal entries in this period</p>
+                </div>
+              ) : (
+                <JournalTable entries={journal} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="day-book" className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-end justify-between gap-4 flex-wrap">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <CalendarDays className="h-4 w-4" />
+                  Day Book
+                </CardTitle>
+                <div className="space-y-2">
+                  <Label>Date</Label>
+                  <Input
+                    type="date"
+                    value={dayBookDate}
+                    onChange={(e) => setDayBookDate(e.target.value || today)}
+                    className="w-40"
+                    data-testid="input-day-book-date"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {dayBookLoading || !dayBook ? (
+                <Skeleton className="h-48" />
+              ) : dayBook.entries.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <CalendarDays className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>No vouchers on this date</p>
+                </div>
+              ) : (
+                <>
+                  <JournalTable entries={dayBook.entries} />
+                  <div className="flex justify-end gap-6 text-sm font-semibold">
+                    <span>
+                      {dayBook.entries.length} voucher{dayBook.entries.length === 1 ? "" : "s"}
+                    </span>
+                    <span>Debit: <span className="font-mono">{formatCurrency(dayBook.totalDebit)}</span></span>
+                    <span>Credit: <span className="font-mono">{formatCurrency(dayBook.totalCredit)}</span></span>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="cash-book" className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-end justify-between gap-4 flex-wrap">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Wallet className="h-4 w-4" />
+                  Cash Book
+                </CardTitle>
+                <div className="flex items-end gap-2">
+                  <div className="space-y-2">
+                    <Label>From</Label>
+                    <Input
+                      type="date"
+                      value={cashBookFrom}
+                      onChange={(e) => setCashBookFrom(e.target.value || today)}
+                      className="w-40"
+                      data-testid="input-cash-book-from"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>To</Label>
+                    <Input
+                      type="date"
+                      value={cashBookTo}
+                      onChange={(e) => setCashBookTo(e.target.value || today)}
+                      className="w-40"
+                      data-testid="input-cash-book-to"
+                    />
+                  </div>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {cashBookLoading || !cashBook ? (
+                <Skeleton className="h-48" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead className="text-right">Receipts</TableHead>
+                      <TableHead className="text-right">Payments</TableHead>
+                      <TableHead className="text-right">Cash in Hand</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell className="text-sm">{cashBook.from}</TableCell>
+                      <TableCell className="font-medium" colSpan={3}>Opening Balance</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(cashBook.openingBalance)}</TableCell>
+                    </TableRow>
+                    {cashBook.lines.map((line, index) => (
+                      <TableRow key={`${line.entryId}-${index}`} data-testid={`row-cash-book-${line.entryId}`}>
+                        <TableCell className="text-sm">{line.date}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs">
+                              {VOUCHER_LABELS[line.voucherType] ?? line.voucherType}
+                            </Badge>
+                            {line.reference && <span className="font-mono text-xs">{line.reference}</span>}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{line.narration}</div>
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">
+                          {line.debit > 0 ? formatCurrency(line.debit) : ""}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">
+                          {line.credit > 0 ? formatCurrency(line.credit) : ""}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">{formatCurrency(line.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-muted/50 font-semibold">
+                      <TableCell colSpan={2}>Closing Balance</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(cashBook.totalDebit)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(cashBook.totalCredit)}</TableCell>
+                      <TableCell className="text-right font-mono text-primary">{formatCurrency(cashBook.closingBalance)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="cash-closing" className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-end justify-between gap-4 flex-wrap">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Lock className="h-4 w-4" />
+                    Count Cash
+                  </CardTitle>
+                  <div className="space-y-2">
+                    <Label>Date</Label>
+                    <Input
+                      type="date"
+                      value={closingDate}
+                      onChange={(e) => setClosingDate(e.target.value || today)}
+                      className="w-40"
+                      data-testid="input-closing-date"
+                    />
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {existingClosing && (
+                  <div className="rounded-md border border-border p-3 text-sm text-muted-foreground" data-testid="text-already-closed">
+                    Cash for {existingClosing.date} was closed by {existingClosing.closedBy}.
+                  </div>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Denomination</TableHead>
+                      <TableHead className="w-32">Count</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {CASH_DENOMINATIONS.map((value) => (
+                      <TableRow key={value}>
+                        <TableCell className="font-mono">₹{value}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={denominationCounts[value] ?? ""}
+                            onChange={(e) => setDenominationCounts((prev) => ({ ...prev, [value]: e.target.value }))}
+                            placeholder="0"
+                            data-testid={`input-denomination-${value}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatCurrency(value * (denominations[String(value)] || 0))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Counted Cash</span>
+                    <span className="font-mono font-semibold" data-testid="text-counted-cash">{formatCurrency(countedCash)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Expected (Cash Book)</span>
+                    <span className="font-mono">{formatCurrency(expectedCash)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold border-t border-border pt-1">
+                    <span>Variance</span>
+                    <span
+                      className={`font-mono ${countedCash - expectedCash < 0 ? "text-red-600" : "text-green-600"}`}
+                      data-testid="text-cash-variance"
+                    >
+                      {formatCurrency(countedCash - expectedCash)}
+                    </span>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="closedBy">Counted By</Label>
+                  <Input
+                    id="closedBy"
+                    value={closedBy}
+                    onChange={(e) => setClosedBy(e.target.value)}
+                    placeholder="Cashier name"
+                    data-testid="input-closed-by"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="closingNotes">Notes</Label>
+                  <Textarea
+                    id="closingNotes"
+                    value={closingNotes}
+                    onChange={(e) => setClosingNotes(e.target.value)}
+                    placeholder="Explain any shortage or excess"
+                    data-testid="input-closing-notes"
+                  />
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={() => closeCashMutation.mutate()}
+                  disabled={!closedBy.trim() || !!existingClosing || closeCashMutation.isPending}
+                  data-testid="button-close-cash"
+                >
+                  {closeCashMutation.isPending ? "Closing..." : "Close Cash for the Day"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Closing History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {cashClosings.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>No cash closings recorded yet</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="text-right">Expected</TableHead>
+                        <TableHead className="text-right">Counted</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {cashClosings.map((closing) => (
+                        <TableRow key={closing.id} data-testid={`row-cash-closing-${closing.date}`}>
+                          <TableCell>
+                            <div className="text-sm">{closing.date}</div>
+                            <div className="text-xs text-muted-foreground">{closing.closedBy}</div>
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatCurrency(closing.expectedCash)}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{formatCurrency(closing.countedCash)}</TableCell>
+                          <TableCell
+                            className={`text-right font-mono text-sm ${closing.variance < 0 ? "text-red-600" : closing.variance > 0 ? "text-green-600" : ""}`}
+                          >
+                            {formatCurrency(closing.variance)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -42,7 +42,20 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Plus, Search, Pencil, Trash2, UserCheck, Phone, Mail, MapPin } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { insertCustomerSchema, type Customer, type InsertCustomer } from "@shared/schema";
+import { GSTIN_PATTERN, GST_STATES, getStateName, resolveStateCode } from "@shared/gst";
+import { z } from "zod";
+
+const formSchema = insertCustomerSchema.extend({
+  gstin: z.union([z.literal(""), z.string().regex(GSTIN_PATTERN, "Enter a valid 15-character GSTIN")]).nullable().optional(),
+});
 
 export default function Customers() {
   const { toast } = useToast();
@@ -56,12 +69,14 @@ export default function Customers() {
   });
 
   const form = useForm<InsertCustomer>({
-    resolver: zodResolver(insertCustomerSchema),
+    resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       phone: "",
       address: "",
       email: "",
+      gstin: "",
+      state: null,
     },
   });
 
@@ -123,6 +138,8 @@ export default function Customers() {
       phone: customer.phone,
       address: customer.address || "",
       email: customer.email || "",
+      gstin: customer.gstin || "",
+      state: customer.state,
     });
     setIsDialogOpen(true);
   };
@@ -134,6 +151,8 @@ export default function Customers() {
       phone: "",
       address: "",
       email: "",
+      gstin: "",
+      state: null,
     });
     setIsDialogOpen(true);
   };
@@ -263,6 +282,63 @@ export default function Customers() {
                     </FormItem>
                   )}
                 />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="gstin"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GSTIN</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Leave blank if unregistered"
+                            {...field}
+                            value={field.value || ""}
+                            onChange={(e) => {
+                              const gstin = e.target.value.toUpperCase();
+                              field.onChange(gstin);
+                              // The GSTIN fixes the state, so fill it in when it is still blank
+                              const state = resolveStateCode(null, gstin);
+                              if (state && !form.getValues("state")) {
+                                form.setValue("state", state);
+                              }
+                            }}
+                            data-testid="input-customer-gstin"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>State</FormLabel>
+                        <Select
+                          value={field.value || "none"}
+                          onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-customer-state">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Same as business</SelectItem>
+                            {GST_STATES.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>
+                                {state.code} - {state.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -333,6 +409,7 @@ export default function Customers() {
                   <TableHead>Phone</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Address</TableHead>
+                  <TableHead>GSTIN</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -368,6 +445,18 @@ export default function Customers() {
                         <span className="text-muted-foreground">-</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      {customer.gstin ? (
+                        <div>
+                          <div className="font-mono text-sm">{customer.gstin}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {getStateName(resolveStateCode(customer.state, customer.gstin))}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Unregistered</span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-1">
                         <Button
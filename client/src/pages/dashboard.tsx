@@ -39,6 +39,7 @@ import {
   Legend,
 } from "recharts";
 import type { Vendor, Customer, Product, Invoice, Purchase, CustomerPayment } from "@shared/schema";
+import type { SettlementStatus } from "@shared/settlement";
 
 function MetricCard({
   title,
@@ -137,11 +138,14 @@ export default function Dashboard() {
     queryKey: ["/api/products"],
   });
 
-  const { data: invoices = [], isLoading: invoicesLoading } = useQuery<Invoice[]>({
+  const { data: allInvoices = [], isLoading: invoicesLoading } = useQuery<Invoice[]>({
     queryKey: ["/api/invoices"],
   });
 
-  const { data: purchases = [], isLoading: purchasesLoading } = useQuery<Purchase[]>({
+  // Voided invoices are listed but excluded from every sales figure
+  const invoices = useMemo(() => allInvoices.filter((i) => i.status !== "void"), [allInvoices]);
+
+  const { data: purchases = [], isLoading: purchasesLoading } = useQuery<(Purchase & { status: SettlementStatus })[]>({
     queryKey: ["/api/purchases"],
   });
 
@@ -187,7 +191,7 @@ export default function Dashboard() {
     return { openingBalance, closingBalance, todayPayments };
   }, [invoices, customerPayments, today]);
 
-  const recentInvoices = [...invoices]
+  const recentInvoices = [...allInvoices]
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, 5);
 
@@ -501,7 +505,7 @@ export default function Dashboard() {
                       </TableCell>
                       <TableCell>
                         <Badge
-                          variant={invoice.status === "completed" ? "default" : "secondary"}
+                          variant={invoice.status === "completed" ? "default" : invoice.status === "void" ? "destructive" : "secondary"}
                           className="text-xs"
                         >
                           {invoice.status}
@@ -566,8 +570,8 @@ export default function Dashboard() {
                     </TableCell>
                     <TableCell>
                       <Badge
-                        variant={purchase.status === "completed" ? "default" : "secondary"}
-                        className="text-xs"
+                        variant={purchase.status === "paid" ? "default" : "secondary"}
+                        className="text-xs capitalize"
                       >
                         {purchase.status}
                       </Badge>
@@ -0,0 +1,627 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Plus, Search, Pencil, Trash2, Wallet, Paperclip, Download, Upload } from "lucide-react";
+import { insertExpenseSchema, type Expense, type ExpenseAttachmentInfo, type InsertExpense } from "@shared/schema";
+import {
+  EXPENSE_ATTACHMENT_TYPES,
+  EXPENSE_CATEGORIES,
+  MAX_EXPENSE_ATTACHMENT_BYTES,
+  getExpenseCategoryLabel,
+  isExpenseAttachmentType,
+} from "@shared/expenses";
+
+function formatCurrency(amount: number): string {
+  return amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+}
+
+function formatFileSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Reads a file as base64 without the "data:<type>;base64," prefix
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function invalidateExpenseQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/reports/profit-loss"] });
+}
+
+export default function Expenses() {
+  const { toast } = useToast();
+  const today = new Date().toISOString().split("T")[0];
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [deleteExpense, setDeleteExpense] = useState<Expense | null>(null);
+  const [attachmentsExpense, setAttachmentsExpense] = useState<Expense | null>(null);
+
+  const { data: expenses = [], isLoading } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: attachments = [], isLoading: attachmentsLoading } = useQuery<ExpenseAttachmentInfo[]>({
+    queryKey: ["/api/expenses", attachmentsExpense?.id, "attachments"],
+    enabled: !!attachmentsExpense,
+  });
+
+  const emptyExpense: InsertExpense = {
+    date: today,
+    category: "other",
+    description: "",
+    amount: 0,
+    paymentMethod: "cash",
+    paidTo: "",
+  };
+
+  const form = useForm<InsertExpense>({
+    resolver: zodResolver(insertExpenseSchema),
+    defaultValues: emptyExpense,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertExpense) => {
+      return apiRequest("POST", "/api/expenses", data);
+    },
+    onSuccess: () => {
+      invalidateExpenseQueries();
+      setIsDialogOpen(false);
+      form.reset(emptyExpense);
+      toast({ title: "Expense added successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to add expense", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InsertExpense }) => {
+      return apiRequest("PATCH", `/api/expenses/${id}`, data);
+    },
+    onSuccess: () => {
+      invalidateExpenseQueries();
+      setIsDialogOpen(false);
+      setEditingExpense(null);
+      form.reset(emptyExpense);
+      toast({ title: "Expense updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update expense", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/expenses/${id}`);
+    },
+    onSuccess: () => {
+      invalidateExpenseQueries();
+      setDeleteExpense(null);
+      toast({ title: "Expense deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete expense", variant: "destructive" });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ expenseId, file }: { expenseId: string; file: File }) => {
+      const data = await readFileAsBase64(file);
+      return apiRequest("POST", `/api/expenses/${expenseId}/attachments`, {
+        fileName: file.name,
+        contentType: file.type || "application/octet-stream",
+        data,
+      });
+    },
+    onSuccess: (_, { expenseId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses", expenseId, "attachments"] });
+      toast({ title: "Attachment uploaded" });
+    },
+    onError: () => {
+      toast({ title: "Failed to upload attachment", variant: "destructive" });
+    },
+  });
+
+  const deleteAttachmentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/expense-attachments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses", attachmentsExpense?.id, "attachments"] });
+      toast({ title: "Attachment removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove attachment", variant: "destructive" });
+    },
+  });
+
+  const filteredExpenses = expenses.filter((expense) => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch =
+      expense.description.toLowerCase().includes(query) ||
+      (expense.paidTo || "").toLowerCase().includes(query);
+    const matchesCategory = categoryFilter === "all" || expense.category === categoryFilter;
+    return matchesSearch && matchesCategory;
+  });
+
+  const filteredTotal = filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+
+  const openEditDialog = (expense: Expense) => {
+    setEditingExpense(expense);
+    form.reset({
+      date: expense.date,
+      category: expense.category,
+      description: expense.description,
+      amount: expense.amount,
+      paymentMethod: expense.paymentMethod,
+      paidTo: expense.paidTo || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openCreateDialog = () => {
+    setEditingExpense(null);
+    form.reset(emptyExpense);
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = (data: InsertExpense) => {
+    if (editingExpense) {
+      updateMutation.mutate({ id: editingExpense.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleFileSelected = (file: File | undefined) => {
+    if (!file || !attachmentsExpense) return;
+    if (!isExpenseAttachmentType(file.type)) {
+      toast({
+        title: "Unsupported file",
+        description: "Attach a PNG, JPEG or WebP photo, or a PDF",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_EXPENSE_ATTACHMENT_BYTES) {
+      toast({
+        title: "File too large",
+        description: `Attachments can be at most ${formatFileSize(MAX_EXPENSE_ATTACHMENT_BYTES)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate({ expenseId: attachmentsExpense.id, file });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <Skeleton className="h-8 w-32" />
+          <Skeleton className="h-9 w-32" />
+        </div>
+        <Card>
+          <CardContent className="p-6">
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">Expenses</h1>
+          <p className="text-sm text-muted-foreground">
+            Record rent, labour, fuel and other running costs
+          </p>
+        </div>
+        <Button onClick={openCreateDialog} data-testid="button-add-expense">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Expense
+        </Button>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingExpense ? "Edit Expense" : "Add New Expense"}
+            </DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-expense-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category *</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-expense-category">
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(EXPENSE_CATEGORIES).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description *</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. Shop rent for March"
+                        {...field}
+                        data-testid="input-expense-description"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount *</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          {...field}
+                          value={field.value || ""}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          data-testid="input-expense-amount"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="paymentMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Method</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-expense-payment-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="cash">Cash</SelectItem>
+                          <SelectItem value="bank">Bank Transfer</SelectItem>
+                          <SelectItem value="upi">UPI</SelectItem>
+                          <SelectItem value="cheque">Cheque</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="paidTo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Paid To</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Payee name"
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-expense-paid-to"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                  data-testid="button-submit-expense"
+                >
+                  {createMutation.isPending || updateMutation.isPending
+                    ? "Saving..."
+                    : editingExpense
+                    ? "Update"
+                    : "Add Expense"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-4 flex-wrap">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search expenses..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+                data-testid="input-search-expenses"
+              />
+            </div>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="w-48" data-testid="select-expense-category-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {Object.entries(EXPENSE_CATEGORIES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="ml-auto text-sm">
+              Total: <span className="font-mono font-semibold" data-testid="text-expenses-total">{formatCurrency(filteredTotal)}</span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredExpenses.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <Wallet className="h-12 w-12 mb-4" />
+              <p className="text-lg font-medium">No expenses found</p>
+              <p className="text-sm">
+                {searchQuery || categoryFilter !== "all"
+                  ? "Try a different search or category"
+                  : "Record your first expense to get started"}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Paid To</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredExpenses.map((expense) => (
+                  <TableRow key={expense.id} data-testid={`row-expense-${expense.id}`}>
+                    <TableCell>{expense.date}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{getExpenseCategoryLabel(expense.category)}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{expense.description}</TableCell>
+                    <TableCell>{expense.paidTo || <span className="text-muted-foreground">-</span>}</TableCell>
+                    <TableCell className="capitalize">{expense.paymentMethod}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(expense.amount)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setAttachmentsExpense(expense)}
+                          data-testid={`button-attachments-expense-${expense.id}`}
+                        >
+                          <Paperclip className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditDialog(expense)}
+                          data-testid={`button-edit-expense-${expense.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeleteExpense(expense)}
+                          data-testid={`button-delete-expense-${expense.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!attachmentsExpense} onOpenChange={(open) => !open && setAttachmentsExpense(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Attachments - {attachmentsExpense?.description}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {attachmentsLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : attachments.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No bills or receipts attached yet
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {attachments.map((attachment) => (
+                  <div
+                    key={attachment.id}
+                    className="flex items-center justify-between gap-2 border border-border rounded-md px-3 py-2"
+                    data-testid={`row-attachment-${attachment.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+                      <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" asChild>
+                        <a href={`/api/expense-attachments/${attachment.id}`} target="_blank" rel="noreferrer">
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteAttachmentMutation.mutate(attachment.id)}
+                        disabled={deleteAttachmentMutation.isPending}
+                        data-testid={`button-delete-attachment-${attachment.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button variant="outline" asChild disabled={uploadMutation.isPending}>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  {uploadMutation.isPending ? "Uploading..." : "Attach File"}
+                  <input
+                    type="file"
+                    accept={EXPENSE_ATTACHMENT_TYPES.join(",")}
+                    className="hidden"
+                    onChange={(e) => {
+                      handleFileSelected(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                    data-testid="input-expense-attachment"
+                  />
+                </label>
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteExpense} onOpenChange={() => setDeleteExpense(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Expense</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deleteExpense?.description}"? Its attachments
+              will be removed as well. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteExpense && deleteMutation.mutate(deleteExpense.id)}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
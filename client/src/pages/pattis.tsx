@@ -0,0 +1,427 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Plus, Search, Receipt, AlertTriangle } from "lucide-react";
+import type { Patti, Product, Vehicle, Vendor } from "@shared/schema";
+import { calculatePatti } from "@shared/patti";
+import { roundMoney } from "@shared/money";
+
+interface PattiDraft {
+  vehicleId: string;
+  vendorId: string;
+  commissionPercent: number;
+  outstandingAdvances: number;
+  soldOut: boolean;
+  remainingQuantity: number;
+  grossSales: number;
+  lines: { productId: string; quantity: number; amount: number }[];
+}
+
+const DEDUCTION_FIELDS = [
+  ["hamaliAmount", "Hamali"],
+  ["unloadingAmount", "Unloading"],
+  ["transportAmount", "Transport"],
+  ["advanceAmount", "Advance Recovered"],
+] as const;
+
+type DeductionField = (typeof DEDUCTION_FIELDS)[number][0];
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyDeductions = (): Record<DeductionField, string> => ({
+  hamaliAmount: "",
+  unloadingAmount: "",
+  transportAmount: "",
+  advanceAmount: "",
+});
+
+export default function Pattis() {
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [vehicleId, setVehicleId] = useState("");
+  const [date, setDate] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [commissionPercent, setCommissionPercent] = useState("");
+  const [deductions, setDeductions] = useState(emptyDeductions);
+
+  const { data: pattis = [], isLoading: pattisLoading } = useQuery<Patti[]>({
+    queryKey: ["/api/pattis"],
+  });
+
+  const { data: vehicles = [], isLoading: vehiclesLoading } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  // Sales keep coming in until the vehicle is empty, so always fetch afresh
+  const { data: draft } = useQuery<PattiDraft>({
+    queryKey: ["/api/vehicles", vehicleId, "patti-draft"],
+    enabled: !!vehicleId,
+    staleTime: 0,
+  });
+
+  const getVendorName = (id: string) => vendors.find((v) => v.id === id)?.name || "Unknown";
+  const getVehicleNumber = (id: string) => vehicles.find((v) => v.id === id)?.number || "-";
+  const getProduct = (id: string) => products.find((p) => p.id === id);
+
+  const unsettledVehicles = vehicles.filter(
+    (vehicle) => vehicle.commissionMode && vehicle.vendorId && !pattis.some((p) => p.vehicleId === vehicle.id)
+  );
+
+  const amountOf = (field: DeductionField) => parseFloat(deductions[field]) || 0;
+  const effectiveCommission = commissionPercent === "" ? draft?.commissionPercent ?? 0 : parseFloat(commissionPercent) || 0;
+
+  // Preview only; the server works out gross sales from the invoices again
+  const preview = draft
+    ? calculatePatti(draft.grossSales, {
+        commissionPercent: effectiveCommission,
+        hamaliAmount: amountOf("hamaliAmount"),
+        unloadingAmount: amountOf("unloadingAmount"),
+        transportAmount: amountOf("transportAmount"),
+        advanceAmount: amountOf("advanceAmount"),
+      })
+    : null;
+  // Advances can be recovered up to what the farmer would otherwise be paid
+  const recoverableAdvance = draft && preview
+    ? Math.max(0, Math.min(draft.outstandingAdvances, roundMoney(preview.netPayable + preview.advanceAmount)))
+    : 0;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/pattis", {
+        vehicleId,
+        date,
+        commissionPercent: effectiveCommission,
+        hamaliAmount: amountOf("hamaliAmount"),
+        unloadingAmount: amountOf("unloadingAmount"),
+        transportAmount: amountOf("transportAmount"),
+        advanceAmount: amountOf("advanceAmount"),
+        notes: notes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pattis"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/vendor-balances"] });
+      setIsDialogOpen(false);
+      toast({ title: "Patti generated", description: "Print it from the Print Center." });
+    },
+    onError: (error: Error) => {
+      let description = "Failed to generate the patti.";
+      try {
+        description = JSON.parse(error.message.replace(/^\d{3}: /, "")).error ?? description;
+      } catch {
+        // keep the generic message
+      }
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+  });
+
+  const openDialog = () => {
+    setVehicleId("");
+    setDate(today());
+    setNotes("");
+    setCommissionPercent("");
+    setDeductions(emptyDeductions());
+    setIsDialogOpen(true);
+  };
+
+  const filteredPattis = pattis
+    .filter((patti) => {
+      const query = searchQuery.toLowerCase();
+      return getVendorName(patti.vendorId).toLowerCase().includes(query)
+        || patti.pattiNumber.toLowerCase().includes(query)
+        || getVehicleNumber(patti.vehicleId).toLowerCase().includes(query);
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  if (pattisLoading || vehiclesLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Pattis</h1>
+          <p className="text-muted-foreground">
+            Settle sold-out commission vehicles with their farmers
+          </p>
+        </div>
+        <Button onClick={openDialog} data-testid="button-create-patti">
+          <Plus className="h-4 w-4 mr-2" />
+          Generate Patti
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Pattis
+            </CardTitle>
+            <div className="relative w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search pattis..."
+                className="pl-9"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                data-testid="input-search-pattis"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredPattis.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <AlertTriangle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No pattis found</p>
+              <p className="text-sm">Generate a patti once a commission vehicle is sold out</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Patti</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Farmer</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead className="text-right">Gross Sales</TableHead>
+                  <TableHead className="text-right">Deductions</TableHead>
+                  <TableHead className="text-right">Net Payable</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredPattis.map((patti) => (
+                  <TableRow key={patti.id} data-testid={`row-patti-${patti.id}`}>
+                    <TableCell className="font-mono">{patti.pattiNumber}</TableCell>
+                    <TableCell>{patti.date}</TableCell>
+                    <TableCell>{getVendorName(patti.vendorId)}</TableCell>
+                    <TableCell className="font-mono">{getVehicleNumber(patti.vehicleId)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(patti.grossSales)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(patti.grossSales - patti.netPayable)}</TableCell>
+                    <TableCell className="text-right font-mono font-medium">{formatCurrency(patti.netPayable)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Generate Patti</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Vehicle</Label>
+                <Select
+                  value={vehicleId}
+                  onValueChange={(value) => {
+                    setVehicleId(value);
+                    setCommissionPercent("");
+                  }}
+                >
+                  <SelectTrigger data-testid="select-patti-vehicle">
+                    <SelectValue placeholder="Select commission vehicle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unsettledVehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>
+                        {vehicle.number} - {getVendorName(vehicle.vendorId!)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="pattiDate">Date</Label>
+                <Input
+                  id="pattiDate"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  data-testid="input-patti-date"
+                />
+              </div>
+            </div>
+
+            {draft && (
+              <>
+                {!draft.soldOut && (
+                  <div className="flex items-start gap-2 rounded-md border border-border p-3 text-sm text-destructive" data-testid="text-patti-not-sold-out">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {draft.lines.length === 0
+                      ? "Nothing has been sold from this vehicle yet."
+                      : `${draft.remainingQuantity} units are still unsold on this vehicle. Sell or adjust them before settling.`}
+                  </div>
+                )}
+
+                {draft.lines.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Qty Sold</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {draft.lines.map((line) => (
+                        <TableRow key={line.productId}>
+                          <TableCell>{getProduct(line.productId)?.name || "Unknown"}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {line.quantity} {getProduct(line.productId)?.unit}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(line.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="pattiCommission">Commission (%)</Label>
+                    <Input
+                      id="pattiCommission"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      value={commissionPercent}
+                      placeholder={String(draft.commissionPercent)}
+                      onChange={(e) => setCommissionPercent(e.target.value)}
+                      data-testid="input-patti-commission"
+                    />
+                  </div>
+                  {DEDUCTION_FIELDS.map(([field, label]) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={`patti-${field}`}>{label}</Label>
+                      <Input
+                        id={`patti-${field}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={field === "advanceAmount" ? draft.outstandingAdvances : undefined}
+                        value={deductions[field]}
+                        onChange={(e) => setDeductions({ ...deductions, [field]: e.target.value })}
+                        disabled={field === "advanceAmount" && draft.outstandingAdvances <= 0}
+                        data-testid={`input-patti-${field}`}
+                      />
+                      {field === "advanceAmount" && draft.outstandingAdvances > 0 && (
+                        <button
+                          type="button"
+                          className="text-xs text-primary underline"
+                          onClick={() => setDeductions({ ...deductions, advanceAmount: String(recoverableAdvance) })}
+                          data-testid="button-patti-recover-all"
+                        >
+                          Outstanding {formatCurrency(draft.outstandingAdvances)} - recover
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <div className="space-y-2">
+                    <Label htmlFor="pattiNotes">Notes (Optional)</Label>
+                    <Input
+                      id="pattiNotes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="Add notes..."
+                      data-testid="input-patti-notes"
+                    />
+                  </div>
+                </div>
+
+                {preview && (
+                  <div className="flex justify-end">
+                    <div className="w-72 space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>Gross Sales</span>
+                        <span className="font-mono">{formatCurrency(preview.grossSales)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Less: Commission</span>
+                        <span className="font-mono">{formatCurrency(preview.commissionAmount)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Less: Charges &amp; Advances</span>
+                        <span className="font-mono">{formatCurrency(preview.totalDeductions - preview.commissionAmount)}</span>
+                      </div>
+                      <div className="flex justify-between text-base font-bold border-t border-border pt-2 mt-2">
+                        <span>Net Payable</span>
+                        <span className="font-mono" data-testid="text-patti-preview">{formatCurrency(preview.netPayable)}</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending || !draft?.soldOut || (preview?.netPayable ?? 0) < 0}
+                data-testid="button-submit-patti"
+              >
+                {createMutation.isPending ? "Generating..." : "Generate Patti"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -33,14 +33,33 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Plus, CreditCard, Wallet, Trash2, ChevronRight, Edit, Save, X, Printer, CheckCircle } from "lucide-react";
-import type { Vendor, Customer, VendorPayment, CustomerPayment, HamaliCashPayment, Invoice, InvoiceItem, Product } from "@shared/schema";
+import type { Vendor, Customer, VendorPayment, CustomerPayment, HamaliCashPayment, Invoice, InvoiceItem, Product, Purchase } from "@shared/schema";
+import { calculateInvoiceTotals, calculateLineTotal } from "@shared/pricing";
+import type { SettlementStatus } from "@shared/settlement";
 import { Skeleton } from "@/components/ui/skeleton";
 
-type VendorWithBalance = Vendor & { totalPurchases: number; totalPayments: number; balance: number };
+type VendorWithBalance = Vendor & { totalPurchases: number; totalPayments: number; balance: number; outstandingAdvances: number };
 type CustomerWithBalance = Customer & { totalInvoices: number; totalPayments: number; balance: number };
-type CustomerPaymentWithInvoice = CustomerPayment & { invoiceNumber?: string | null };
-
-interface InvoiceWithItems extends Invoice {
+type OpenPurchase = Purchase & { outstanding: number; status: SettlementStatus };
+type PayablesAging = {
+  asOf: string;
+  buckets: { key: string; label: string }[];
+  vendors: {
+    vendorId: string;
+    vendorName: string;
+    paymentTermsDays: number;
+    buckets: Record<string, number>;
+    total: number;
+    unappliedReturnCredit: number;
+    returnsCreditExceedsOutstanding: boolean;
+  }[];
+  totals: Record<string, number>;
+  grandTotal: number;
+};
+type CustomerPaymentWithInvoice = CustomerPayment & { invoiceNumber?: string | null; unallocated?: number };
+type InvoiceWithSettlement = Invoice & { allocated: number; outstanding: number; paymentStatus: SettlementStatus | null };
+
+interface InvoiceWithItems extends InvoiceWithSettlement {
   items: (InvoiceItem & { product?: Product })[];
   originalSubtotal: number;
   originalHamali: number;
@@ -62,6 +81,67 @@ interface EditedInvoice {
   items: EditedItem[];
 }
 
+// Prices an edited invoice with the same rules the server applies to amendments
+function priceInvoiceEdit(invoice: InvoiceWithItems, edited: EditedInvoice) {
+  return calculateInvoiceTotals(
+    edited.items.map(item => {
+      const original = invoice.items.find(i => i.id === item.itemId);
+      return {
+        productId: original?.productId || "",
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        unit: original?.product?.unit || "",
+        gstRate: original?.product?.gstRate,
+      };
+    }),
+    {
+      includeHamaliCharge: invoice.includeHamaliCharge || edited.bags * edited.ratePerBag > 0,
+      // Bag Hamali added while editing must not pick up the default per-KG rate
+      hamaliRatePerKg: invoice.includeHamaliCharge ? invoice.hamaliRatePerKg : 0,
+      hamaliRatePerBag: edited.ratePerBag,
+      bags: edited.bags,
+      hamaliPaidByCash: invoice.hamaliPaidByCash,
+    }
+  );
+}
+
+// True when the dialog changed anything the server has to reprice
+function isInvoiceEdited(invoice: InvoiceWithItems, edited: EditedInvoice) {
+  if (edited.bags !== (invoice.bags || 0) || edited.ratePerBag !== (invoice.hamaliRatePerBag || 0)) return true;
+  return edited.items.some(item => {
+    const original = invoice.items.find(i => i.id === item.itemId);
+    return !original || original.unitPrice !== item.unitPrice || original.quantity !== item.quantity;
+  });
+}
+
+// Reads the server's amendment error; locked invoices are flagged so the owner override can be asked for
+function parseAmendmentError(error: Error): { message: string; locked: boolean } {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body) as { error?: string; locked?: boolean };
+    return { message: parsed.error || error.message, locked: !!parsed.locked };
+  } catch {
+    return { message: error.message, locked: false };
+  }
+}
+
+function SettlementBadge({ invoice }: { invoice: InvoiceWithSettlement }) {
+  if (!invoice.paymentStatus) return null;
+  const variant = invoice.paymentStatus === "paid" ? "default" : invoice.paymentStatus === "partial" ? "secondary" : "outline";
+  return (
+    <div className="flex items-center gap-2">
+      {invoice.paymentStatus !== "paid" && (
+        <span className="text-xs text-muted-foreground">
+          Due {invoice.outstanding.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+        </span>
+      )}
+      <Badge variant={variant} className="text-xs capitalize" data-testid={`badge-settlement-${invoice.id}`}>
+        {invoice.paymentStatus}
+      </Badge>
+    </div>
+  );
+}
+
 export default function Payments() {
   const { toast } = useToast();
   const [vendorDialogOpen, setVendorDialogOpen] = useState(false);
@@ -69,8 +149,10 @@ export default function Payments() {
   const [selectedVendor, setSelectedVendor] = useState<string>("");
   const [selectedCustomer, setSelectedCustomer] = useState<string>("");
   const [vendorPaymentAmount, setVendorPaymentAmount] = useState("");
+  const [vendorAdvanceRecovery, setVendorAdvanceRecovery] = useState("");
   const [customerPaymentAmount, setCustomerPaymentAmount] = useState("");
   const [vendorPaymentMethod, setVendorPaymentMethod] = useState("cash");
+  const [vendorPaymentPurchase, setVendorPaymentPurchase] = useState<string>("auto");
   const [customerPaymentMethod, setCustomerPaymentMethod] = useState("cash");
   const [hamaliDialogOpen, setHamaliDialogOpen] = useState(false);
   const [hamaliAmount, setHamaliAmount] = useState("");
@@ -81,11 +163,18 @@ export default function Payments() {
   const [customerInvoices, setCustomerInvoices] = useState<InvoiceWithItems[]>([]);
   const [editedInvoices, setEditedInvoices] = useState<Record<string, EditedInvoice>>({});
   const [loadingInvoices, setLoadingInvoices] = useState(false);
+  const [editedBy, setEditedBy] = useState("");
+  const [overrideCode, setOverrideCode] = useState("");
+  const [lockMessage, setLockMessage] = useState<string | null>(null);
   const [customerSummary, setCustomerSummary] = useState<{
     totalInvoices: number;
     totalPayments: number;
+    totalReturns: number;
     remainingBalance: number;
+    unallocatedCredit: number;
   } | null>(null);
+  const [allocationMode, setAllocationMode] = useState<'auto' | 'manual'>('auto');
+  const [manualAllocations, setManualAllocations] = useState<Record<string, string>>({});
   const [step, setStep] = useState<'select' | 'review' | 'completed'>('select');
   const [completedPaymentData, setCompletedPaymentData] = useState<{
     customerName: string;
@@ -114,6 +203,12 @@ export default function Payments() {
     queryKey: ["/api/reports/vendor-balances"],
   });
 
+  const { data: payablesAging } = useQuery<PayablesAging>({
+    queryKey: ["/api/reports/payables-aging"],
+    // Overdue days move with the calendar, so refetch whenever the page opens
+    staleTime: 0,
+  });
+
   const { data: customerBalances = [], isLoading: customerBalancesLoading } = useQuery<CustomerWithBalance[]>({
     queryKey: ["/api/reports/customer-balances"],
   });
@@ -122,6 +217,10 @@ export default function Payments() {
     queryKey: ["/api/vendor-payments"],
   });
 
+  const { data: purchases = [] } = useQuery<OpenPurchase[]>({
+    queryKey: ["/api/purchases"],
+  });
+
   const { data: customerPayments = [] } = useQuery<CustomerPaymentWithInvoice[]>({
     queryKey: ["/api/customer-payments"],
   });
@@ -140,7 +239,8 @@ export default function Payments() {
     try {
       const invoicesRes = await fetch(`/api/customers/${customerId}/invoices`);
       const data = await invoicesRes.json();
-      const invoices: Invoice[] = data.invoices;
+      // Voided invoices are not payable and must not be edited
+      const invoices: InvoiceWithSettlement[] = data.invoices.filter((inv: Invoice) => inv.status !== "void");
       const summary = data.summary;
       
       setCustomerSummary(summary);
@@ -208,7 +308,7 @@ export default function Payments() {
       
       const updatedItems = invoice.items.map(item => {
         if (item.itemId === itemId) {
-          const newTotal = item.quantity * newPrice;
+          const newTotal = calculateLineTotal(item.quantity, newPrice);
           return { ...item, unitPrice: newPrice, total: newTotal };
         }
         return item;
@@ -224,11 +324,12 @@ export default function Payments() {
   const updateHamaliBags = (invoiceId: string, newBags: number) => {
     setEditedInvoices(prev => {
       const invoice = prev[invoiceId];
-      if (!invoice) return prev;
-      const newHamali = newBags * invoice.ratePerBag;
+      const original = customerInvoices.find(inv => inv.id === invoiceId);
+      if (!invoice || !original) return prev;
+      const updated = { ...invoice, bags: newBags };
       return {
         ...prev,
-        [invoiceId]: { ...invoice, bags: newBags, hamaliChargeAmount: newHamali },
+        [invoiceId]: { ...updated, hamaliChargeAmount: priceInvoiceEdit(original, updated).hamaliChargeAmount },
       };
     });
   };
@@ -236,11 +337,12 @@ export default function Payments() {
   const updateHamaliRate = (invoiceId: string, newRate: number) => {
     setEditedInvoices(prev => {
       const invoice = prev[invoiceId];
-      if (!invoice) return prev;
-      const newHamali = invoice.bags * newRate;
+      const original = customerInvoices.find(inv => inv.id === invoiceId);
+      if (!invoice || !original) return prev;
+      const updated = { ...invoice, ratePerBag: newRate };
       return {
         ...prev,
-        [invoiceId]: { ...invoice, ratePerBag: newRate, hamaliChargeAmount: newHamali },
+        [invoiceId]: { ...updated, hamaliChargeAmount: priceInvoiceEdit(original, updated).hamaliChargeAmount },
       };
     });
   };
@@ -258,76 +360,115 @@ export default function Payments() {
 
   const getInvoiceTotal = (invoiceId: string) => {
     const edited = editedInvoices[invoiceId];
-    if (!edited) return { subtotal: 0, hamali: 0, grandTotal: 0 };
+    const invoice = customerInvoices.find(inv => inv.id === invoiceId);
+    if (!edited || !invoice) return { subtotal: 0, hamali: 0, grandTotal: 0 };
     
-    const subtotal = edited.items.reduce((sum, item) => sum + item.total, 0);
-    const hamali = edited.hamaliChargeAmount;
-    return { subtotal, hamali, grandTotal: subtotal + hamali };
+    const totals = priceInvoiceEdit(invoice, edited);
+    return { subtotal: totals.subtotal, hamali: totals.hamaliChargeAmount, grandTotal: totals.grandTotal };
   };
 
   const grandTotalAllInvoices = useMemo(() => {
     return Object.keys(editedInvoices).reduce((sum, invoiceId) => {
       return sum + getInvoiceTotal(invoiceId).grandTotal;
     }, 0);
-  }, [editedInvoices]);
+  }, [editedInvoices, customerInvoices]);
+
+  const hasInvoiceEdits = customerInvoices.some(invoice => {
+    const edited = editedInvoices[invoice.id];
+    return !!edited && isInvoiceEdited(invoice, edited);
+  });
 
   const saveInvoiceChanges = useMutation({
     mutationFn: async () => {
-      for (const invoiceId of Object.keys(editedInvoices)) {
-        const edited = editedInvoices[invoiceId];
-        const totals = getInvoiceTotal(invoiceId);
-        
-        await apiRequest("PATCH", `/api/invoices/${invoiceId}`, {
-          subtotal: totals.subtotal,
-          hamaliChargeAmount: edited.hamaliChargeAmount,
+      if (hasInvoiceEdits && !editedBy.trim()) {
+        throw new Error("Enter who is making these changes before saving.");
+      }
+      for (const invoice of customerInvoices) {
+        const edited = editedInvoices[invoice.id];
+        if (!edited || !isInvoiceEdited(invoice, edited)) continue;
+
+        // The server reprices the invoice and adjusts stock from this amendment
+        await apiRequest("POST", `/api/invoices/${invoice.id}/amendments`, {
+          includeHamaliCharge: invoice.includeHamaliCharge || edited.bags * edited.ratePerBag > 0,
+          hamaliRatePerKg: invoice.includeHamaliCharge ? invoice.hamaliRatePerKg ?? undefined : 0,
           bags: edited.bags,
           hamaliRatePerBag: edited.ratePerBag,
-          grandTotal: totals.grandTotal,
-        });
-        
-        for (const item of edited.items) {
-          await apiRequest("PATCH", `/api/invoice-items/${item.itemId}`, {
+          items: edited.items.map(item => ({
+            id: item.itemId,
+            productId: invoice.items.find(i => i.id === item.itemId)?.productId,
+            quantity: item.quantity,
             unitPrice: item.unitPrice,
-            total: item.total,
-          });
-        }
+          })),
+          changedBy: editedBy.trim(),
+          overrideCode: overrideCode || undefined,
+        });
       }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/reports/customer-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/hamali-cash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-settlements"] });
+      setLockMessage(null);
+      setOverrideCode("");
       toast({ title: "Changes saved", description: "Invoice changes have been saved successfully." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to save invoice changes.", variant: "destructive" });
+    onError: (error: Error) => {
+      const { message, locked } = parseAmendmentError(error);
+      if (locked) setLockMessage(message);
+      toast({ title: "Changes not saved", description: message, variant: "destructive" });
     },
   });
 
   const createVendorPayment = useMutation({
-    mutationFn: async (data: { vendorId: string; amount: number; paymentMethod: string; date: string }) => {
+    mutationFn: async (data: {
+      vendorId: string;
+      amount: number;
+      paymentMethod: string;
+      date: string;
+      advanceRecovered: number;
+      allocations: "auto" | { purchaseId: string; amount: number }[];
+    }) => {
       return apiRequest("POST", "/api/vendor-payments", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vendor-payments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/reports/vendor-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/payables-aging"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases"] });
       setVendorDialogOpen(false);
       setSelectedVendor("");
+      setVendorPaymentPurchase("auto");
       setVendorPaymentAmount("");
+      setVendorAdvanceRecovery("");
       toast({ title: "Payment recorded", description: "Vendor payment has been recorded successfully." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to record payment.", variant: "destructive" });
+    onError: (error: Error) => {
+      let description = "Failed to record payment.";
+      try {
+        description = JSON.parse(error.message.replace(/^\d{3}: /, "")).error ?? description;
+      } catch {
+        // keep the generic message
+      }
+      toast({ title: "Error", description, variant: "destructive" });
     },
   });
 
   const createCustomerPayment = useMutation({
-    mutationFn: async (data: { customerId: string; invoiceId?: string; amount: number; paymentMethod: string; date: string }) => {
+    mutationFn: async (data: {
+      customerId: string;
+      amount: number;
+      paymentMethod: string;
+      date: string;
+      allocations: "auto" | { invoiceId: string; amount: number }[];
+    }) => {
       return apiRequest("POST", "/api/customer-payments", data);
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ["/api/customer-payments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/reports/customer-balances"] });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-settlements"] });
       
       setCompletedPaymentData({
         customerName: getCustomerName(variables.customerId),
@@ -342,8 +483,8 @@ export default function Payments() {
       setStep('completed');
       toast({ title: "Payment recorded", description: "Customer payment has been recorded successfully." });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to record payment.", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Error", description: parseAmendmentError(error).message || "Failed to record payment.", variant: "destructive" });
     },
   });
 
@@ -388,6 +529,10 @@ export default function Payments() {
     setCompletedPaymentData(null);
     setCustomerPaymentMethod("cash");
     setCustomerSummary(null);
+    setOverrideCode("");
+    setLockMessage(null);
+    setAllocationMode('auto');
+    setManualAllocations({});
   };
 
   const handlePrintReceipt = () => {
@@ -415,7 +560,13 @@ export default function Payments() {
       return sum + itemsTotal;
     }, 0);
 
-    const grandTotal = invoiceSubtotal + totalHamali;
+    const totalGst = completedPaymentData.invoices.reduce((sum, inv) => {
+      const edited = completedPaymentData.editedInvoices[inv.id];
+      const totals = edited ? priceInvoiceEdit(inv, edited) : inv;
+      return sum + totals.cgstAmount + totals.sgstAmount + totals.igstAmount;
+    }, 0);
+
+    const grandTotal = invoiceSubtotal + totalGst + totalHamali;
     const amountPaid = completedPaymentData.amount;
     const totalPaidIncludingThis = completedPaymentData.previouslyPaid + amountPaid;
     const balanceRemaining = grandTotal - totalPaidIncludingThis;
@@ -561,6 +712,12 @@ export default function Payments() {
             <span class="label">Products Subtotal:</span>
             <span class="value">₹${invoiceSubtotal.toFixed(2)}</span>
           </div>
+          ${totalGst > 0 ? `
+          <div class="summary-row">
+            <span class="label">GST:</span>
+            <span class="value">₹${totalGst.toFixed(2)}</span>
+          </div>
+          ` : ''}
           <div class="summary-row">
             <span class="label">Total Hamali (${totalBags} bags):</span>
             <span class="value">₹${totalHamali.toFixed(2)}</span>
@@ -722,29 +879,54 @@ export default function Payments() {
     }
   };
 
+  const openVendorPurchases = purchases
+    .filter(p => p.vendorId === selectedVendor && p.status !== "paid")
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const selectedVendorAdvances = vendorBalances.find(v => v.id === selectedVendor)?.outstandingAdvances ?? 0;
+
   const handleVendorPayment = () => {
     if (!selectedVendor || !vendorPaymentAmount) return;
+    // Advance set off against the dues settles them just like cash paid out
+    const advanceRecovered = parseFloat(vendorAdvanceRecovery) || 0;
+    const amount = (parseFloat(vendorPaymentAmount) || 0) + advanceRecovered;
+    // A chosen purchase takes up to its outstanding; anything beyond stays on account
+    const purchase = openVendorPurchases.find(p => p.id === vendorPaymentPurchase);
     createVendorPayment.mutate({
       vendorId: selectedVendor,
-      amount: parseFloat(vendorPaymentAmount),
+      allocations: purchase ? [{ purchaseId: purchase.id, amount: Math.min(amount, purchase.outstanding) }] : "auto",
+      amount,
+      advanceRecovered,
       paymentMethod: vendorPaymentMethod,
       date: new Date().toISOString().split("T")[0],
     });
   };
 
+  const openInvoices = customerInvoices.filter(inv => inv.paymentStatus && inv.paymentStatus !== "paid");
+  const manualAllocationTotal = Object.values(manualAllocations).reduce((sum, amount) => sum + (parseFloat(amount) || 0), 0);
+
   const handleFinalizeAndPay = async () => {
     if (!selectedCustomer) return;
     
-    await saveInvoiceChanges.mutateAsync();
-    
-    const paymentAmount = customerPaymentAmount ? parseFloat(customerPaymentAmount) : grandTotalAllInvoices;
+    try {
+      await saveInvoiceChanges.mutateAsync();
+    } catch {
+      return;
+    }
     
-    // Link payment to the first unpaid/partially paid invoice
-    const invoiceId = customerInvoices.length > 0 ? customerInvoices[0].id : undefined;
+    // Manual allocations decide the amount; otherwise the server settles the oldest bills first
+    const allocations = allocationMode === 'manual'
+      ? Object.entries(manualAllocations)
+          .map(([invoiceId, amount]) => ({ invoiceId, amount: parseFloat(amount) || 0 }))
+          .filter(a => a.amount > 0)
+      : "auto" as const;
+    const paymentAmount = allocationMode === 'manual'
+      ? manualAllocationTotal
+      : customerPaymentAmount ? parseFloat(customerPaymentAmount) : grandTotalAllInvoices;
     
     createCustomerPayment.mutate({
       customerId: selectedCustomer,
-      invoiceId,
+      allocations,
       amount: paymentAmount,
       paymentMethod: customerPaymentMethod,
       date: new Date().toISOString().split("T")[0],
@@ -845,7 +1027,14 @@ export default function Payments() {
                 <div className="space-y-4 pt-4">
                   <div className="space-y-2">
                     <Label>Vendor</Label>
-                    <Select value={selectedVendor} onValueChange={setSelectedVendor}>
+                    <Select
+                      value={selectedVendor}
+                      onValueChange={(value) => {
+                        setSelectedVendor(value);
+                        setVendorPaymentPurchase("auto");
+                        setVendorAdvanceRecovery("");
+                      }}
+                    >
                       <SelectTrigger data-testid="select-vendor">
                         <SelectValue placeholder="Select vendor" />
                       </SelectTrigger>
@@ -868,6 +1057,40 @@ export default function Payments() {
                       data-testid="input-vendor-payment-amount"
                     />
                   </div>
+                  {selectedVendorAdvances > 0 && (
+                    <div className="space-y-2">
+                      <Label>Recover from Advances</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={selectedVendorAdvances}
+                        value={vendorAdvanceRecovery}
+                        onChange={(e) => setVendorAdvanceRecovery(e.target.value)}
+                        placeholder="0"
+                        data-testid="input-vendor-advance-recovery"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Outstanding advances: {selectedVendorAdvances.toLocaleString("en-IN", { style: "currency", currency: "INR" })}.
+                        The recovered amount is settled against dues along with the amount paid.
+                      </p>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label>Apply To</Label>
+                    <Select value={vendorPaymentPurchase} onValueChange={setVendorPaymentPurchase} disabled={!selectedVendor}>
+                      <SelectTrigger data-testid="select-vendor-payment-purchase">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Oldest purchases first</SelectItem>
+                        {openVendorPurchases.map((purchase) => (
+                          <SelectItem key={purchase.id} value={purchase.id}>
+                            Purchase of {purchase.date} - due {purchase.outstanding.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                   <div className="space-y-2">
                     <Label>Payment Method</Label>
                     <Select value={vendorPaymentMethod} onValueChange={setVendorPaymentMethod}>
@@ -937,6 +1160,59 @@ export default function Payments() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Payables Aging</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead className="text-right">Terms</TableHead>
+                    {payablesAging?.buckets.map((bucket) => (
+                      <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Outstanding</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!payablesAging || payablesAging.vendors.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={(payablesAging?.buckets.length ?? 0) + 3} className="text-center text-muted-foreground py-8">
+                        No outstanding payables
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    payablesAging.vendors.map((row) => (
+                      <TableRow key={row.vendorId} data-testid={`row-payables-aging-${row.vendorId}`}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {row.vendorName}
+                            {row.returnsCreditExceedsOutstanding && (
+                              <Badge variant="destructive" className="text-xs">
+                                Return credit {row.unappliedReturnCredit.toLocaleString("en-IN", { style: "currency", currency: "INR" })} exceeds dues
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{row.paymentTermsDays} days</TableCell>
+                        {payablesAging.buckets.map((bucket) => (
+                          <TableCell key={bucket.key} className="text-right font-mono">
+                            {row.buckets[bucket.key].toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono font-semibold">
+                          {row.total.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Payment History</CardTitle>
@@ -966,6 +1242,11 @@ export default function Payments() {
                         <TableCell className="capitalize">{payment.paymentMethod}</TableCell>
                         <TableCell className="text-right font-mono">
                           {payment.amount.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                          {payment.advanceRecovered > 0 && (
+                            <span className="block text-xs text-muted-foreground">
+                              incl. {payment.advanceRecovered.toLocaleString("en-IN", { style: "currency", currency: "INR" })} advance recovered
+                            </span>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))
@@ -1044,6 +1325,11 @@ export default function Payments() {
                           <span className="text-muted-foreground">
                             Paid: <span className="font-mono text-green-600">{customerSummary.totalPayments.toLocaleString("en-IN", { style: "currency", currency: "INR" })}</span>
                           </span>
+                          {customerSummary.totalReturns > 0 && (
+                            <span className="text-muted-foreground">
+                              Returns: <span className="font-mono text-green-600">{customerSummary.totalReturns.toLocaleString("en-IN", { style: "currency", currency: "INR" })}</span>
+                            </span>
+                          )}
                           <span className={customerSummary.remainingBalance > 0 ? "text-red-600 font-semibold" : "text-green-600 font-semibold"}>
                             Due: <span className="font-mono">{customerSummary.remainingBalance.toLocaleString("en-IN", { style: "currency", currency: "INR" })}</span>
                           </span>
@@ -1065,6 +1351,7 @@ export default function Payments() {
                                     <CardTitle className="text-sm">{invoice.invoiceNumber}</CardTitle>
                                     <Badge variant="secondary" className="text-xs">{invoice.date}</Badge>
                                   </div>
+                                  <SettlementBadge invoice={invoice} />
                                 </div>
                               </CardHeader>
                               <CardContent className="p-3 space-y-2">
@@ -1121,9 +1408,7 @@ export default function Payments() {
                                         <CardTitle className="text-sm">{invoice.invoiceNumber}</CardTitle>
                                         <Badge variant="secondary" className="text-xs">{invoice.date}</Badge>
                                       </div>
-                                      <Badge variant={invoice.status === 'completed' ? 'default' : 'outline'}>
-                                        {invoice.status}
-                                      </Badge>
+                                      <SettlementBadge invoice={invoice} />
                                     </div>
                                   </CardHeader>
                                   <CardContent className="p-3 space-y-3">
@@ -1240,6 +1525,14 @@ export default function Payments() {
                             </span>
                           </div>
                         )}
+                        {customerSummary && customerSummary.totalReturns > 0 && (
+                          <div className="flex items-center justify-between">
+                            <span className="text-base text-muted-foreground">Credit Notes:</span>
+                            <span className="text-lg font-mono text-green-600">
+                              -{customerSummary.totalReturns.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                            </span>
+                          </div>
+                        )}
                         <div className="flex items-center justify-between border-t pt-2">
                           <span className="text-lg font-medium">Remaining Balance:</span>
                           <span className={`text-2xl font-bold font-mono ${customerSummary && customerSummary.remainingBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>
@@ -1267,7 +1560,8 @@ export default function Payments() {
                           <Label>Payment Amount (Enter amount to pay now)</Label>
                           <Input
                             type="number"
-                            value={customerPaymentAmount}
+                            disabled={allocationMode === 'manual'}
+                            value={allocationMode === 'manual' ? String(manualAllocationTotal) : customerPaymentAmount}
                             onChange={(e) => setCustomerPaymentAmount(e.target.value)}
                             placeholder={`Max: ${(customerSummary?.remainingBalance ?? grandTotalAllInvoices).toLocaleString("en-IN")}`}
                             data-testid="input-customer-payment-amount"
@@ -1275,6 +1569,75 @@ export default function Payments() {
                         </div>
                       </div>
 
+                      <div className="space-y-2">
+                        <Label>Apply Payment To</Label>
+                        <Select value={allocationMode} onValueChange={(value) => setAllocationMode(value as 'auto' | 'manual')}>
+                          <SelectTrigger data-testid="select-allocation-mode">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Oldest invoices first</SelectItem>
+                            <SelectItem value="manual">Chosen invoices</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {allocationMode === 'manual' && (
+                          <div className="space-y-2 border rounded-md p-3">
+                            {openInvoices.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">No open invoices</p>
+                            ) : (
+                              openInvoices.map(invoice => (
+                                <div key={invoice.id} className="flex items-center justify-between gap-2">
+                                  <span className="text-sm">
+                                    {invoice.invoiceNumber}
+                                    <span className="text-muted-foreground"> ({invoice.date}, due {invoice.outstanding.toLocaleString("en-IN", { style: "currency", currency: "INR" })})</span>
+                                  </span>
+                                  <Input
+                                    type="number"
+                                    className="h-8 w-32 text-right"
+                                    value={manualAllocations[invoice.id] ?? ""}
+                                    onChange={(e) => setManualAllocations(prev => ({ ...prev, [invoice.id]: e.target.value }))}
+                                    placeholder="0"
+                                    data-testid={`input-allocation-${invoice.id}`}
+                                  />
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        )}
+                        {customerSummary && customerSummary.unallocatedCredit > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {customerSummary.unallocatedCredit.toLocaleString("en-IN", { style: "currency", currency: "INR" })} of earlier payments is held on account and not yet applied to any invoice
+                          </p>
+                        )}
+                      </div>
+
+                      {hasInvoiceEdits && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label>Edited By</Label>
+                            <Input
+                              value={editedBy}
+                              onChange={(e) => setEditedBy(e.target.value)}
+                              placeholder="Your name"
+                              data-testid="input-edited-by"
+                            />
+                          </div>
+                          {lockMessage && (
+                            <div className="space-y-2">
+                              <Label>Owner Override Code</Label>
+                              <Input
+                                type="password"
+                                value={overrideCode}
+                                onChange={(e) => setOverrideCode(e.target.value)}
+                                placeholder="Required to edit locked invoices"
+                                data-testid="input-override-code"
+                              />
+                              <p className="text-xs text-destructive">{lockMessage}</p>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       <div className="flex gap-2">
                         {(!customerSummary || customerSummary.totalPayments === 0) && (
                           <Button
@@ -1507,6 +1870,11 @@ export default function Payments() {
                           ) : (
                             <span className="text-muted-foreground">-</span>
                           )}
+                          {(payment.unallocated ?? 0) > 0 && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {payment.unallocated!.toLocaleString("en-IN", { style: "currency", currency: "INR" })} on account
+                            </span>
+                          )}
                         </TableCell>
                         <TableCell className="capitalize">{payment.paymentMethod}</TableCell>
                         <TableCell className="text-right font-mono">
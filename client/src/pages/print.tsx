@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -10,13 +10,67 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { Printer, FileText, Truck } from "lucide-react";
-import type { Invoice, InvoiceItem, Customer, Product, CompanySettings, Vehicle, Vendor } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Printer, FileText, Truck, Ban, History, Lock, Download, Route } from "lucide-react";
+import type {
+  Invoice,
+  InvoiceItem,
+  InvoiceRevision,
+  Customer,
+  Patti,
+  PattiItem,
+  Product,
+  PublicCompanySettings,
+  Purchase,
+  SalesReturn,
+  SalesReturnItem,
+  Vehicle,
+  Vendor,
+  VendorReturn,
+  VendorReturnItem,
+} from "@shared/schema";
+import type { SettlementStatus } from "@shared/settlement";
+import type { Statement } from "@shared/statement";
 import { Skeleton } from "@/components/ui/skeleton";
+import { StatementDocument, statementToCSVRows } from "@/components/statement-document";
+import { TaxSummary } from "@/components/tax-summary";
+import { EwayBillDialog } from "@/components/eway-bill-dialog";
+import { CreditNoteDocument } from "@/components/credit-note-document";
+import { DebitNoteDocument } from "@/components/debit-note-document";
+import { PattiDocument } from "@/components/patti-document";
+import { getStateName } from "@shared/gst";
+import { downloadCSV } from "@/lib/csv";
+
+type DocumentType = "invoice" | "challan" | "credit-note" | "debit-note" | "patti" | "statement" | "vendor-statement";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Statements default to the financial year (April to March) in progress
+const financialYearStart = () => {
+  const now = new Date();
+  const startYear = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${startYear}-04-01`;
+};
 
 export default function PrintCenter() {
   const [selectedInvoice, setSelectedInvoice] = useState<string>("");
-  const [documentType, setDocumentType] = useState<"invoice" | "challan">("invoice");
+  const [selectedCreditNote, setSelectedCreditNote] = useState<string>("");
+  const [selectedDebitNote, setSelectedDebitNote] = useState<string>("");
+  const [selectedPatti, setSelectedPatti] = useState<string>("");
+  const [documentType, setDocumentType] = useState<DocumentType>("invoice");
+  const [statementCustomer, setStatementCustomer] = useState<string>("");
+  const [statementVendor, setStatementVendor] = useState<string>("");
+  const [statementFrom, setStatementFrom] = useState(financialYearStart);
+  const [statementTo, setStatementTo] = useState(today);
+  const [voidDialogOpen, setVoidDialogOpen] = useState(false);
+  const [voidReason, setVoidReason] = useState("");
+  const [ewayBillDialogOpen, setEwayBillDialogOpen] = useState(false);
+  const { toast } = useToast();
 
   const { data: invoices = [], isLoading: invoicesLoading } = useQuery<Invoice[]>({
     queryKey: ["/api/invoices"],
@@ -38,7 +92,7 @@ export default function PrintCenter() {
     queryKey: ["/api/vendors"],
   });
 
-  const { data: companySettings } = useQuery<CompanySettings | null>({
+  const { data: companySettings } = useQuery<PublicCompanySettings | null>({
     queryKey: ["/api/company-settings"],
   });
 
@@ -47,6 +101,60 @@ export default function PrintCenter() {
     enabled: !!selectedInvoice,
   });
 
+  const { data: salesReturns = [] } = useQuery<SalesReturn[]>({
+    queryKey: ["/api/sales-returns"],
+  });
+
+  const { data: creditNoteItems = [] } = useQuery<SalesReturnItem[]>({
+    queryKey: ["/api/sales-returns", selectedCreditNote, "items"],
+    enabled: !!selectedCreditNote,
+  });
+
+  const { data: vendorReturns = [] } = useQuery<VendorReturn[]>({
+    queryKey: ["/api/vendor-returns"],
+  });
+
+  const { data: debitNoteItems = [] } = useQuery<VendorReturnItem[]>({
+    queryKey: ["/api/vendor-returns", selectedDebitNote, "items"],
+    enabled: !!selectedDebitNote,
+  });
+
+  const { data: pattis = [] } = useQuery<Patti[]>({
+    queryKey: ["/api/pattis"],
+  });
+
+  const { data: pattiItems = [] } = useQuery<PattiItem[]>({
+    queryKey: ["/api/pattis", selectedPatti, "items"],
+    enabled: !!selectedPatti,
+  });
+
+  const { data: purchases = [] } = useQuery<Purchase[]>({
+    queryKey: ["/api/purchases"],
+    enabled: documentType === "debit-note",
+  });
+
+  const { data: settlements = [] } = useQuery<{ invoiceId: string; allocated: number; outstanding: number; status: SettlementStatus }[]>({
+    queryKey: ["/api/invoice-settlements"],
+  });
+
+  const { data: revisionHistory } = useQuery<{ revisions: InvoiceRevision[]; lockReason: string | null }>({
+    queryKey: ["/api/invoices", selectedInvoice, "revisions"],
+    enabled: !!selectedInvoice,
+  });
+
+  const { data: customerStatement } = useQuery<Statement & { customer: Customer }>({
+    queryKey: [`/api/customers/${statementCustomer}/statement?from=${statementFrom}&to=${statementTo}`],
+    enabled: documentType === "statement" && !!statementCustomer && !!statementFrom && !!statementTo,
+    // Balances move with every invoice and payment, so refetch whenever the statement is opened
+    staleTime: 0,
+  });
+
+  const { data: vendorStatement } = useQuery<Statement & { vendor: Vendor }>({
+    queryKey: [`/api/vendors/${statementVendor}/statement?from=${statementFrom}&to=${statementTo}`],
+    enabled: documentType === "vendor-statement" && !!statementVendor && !!statementFrom && !!statementTo,
+    staleTime: 0,
+  });
+
   const getCustomerName = (id: string) => customers.find((c) => c.id === id)?.name || "Unknown";
   const getCustomer = (id: string) => customers.find((c) => c.id === id);
   const getProductName = (id: string) => products.find((p) => p.id === id)?.name || "Unknown";
@@ -55,6 +163,7 @@ export default function PrintCenter() {
   const getVendor = (id: string | null) => id ? vendors.find((v) => v.id === id) : null;
 
   const selectedInvoiceData = invoices.find((i) => i.id === selectedInvoice);
+  const settlement = settlements.find((s) => s.invoiceId === selectedInvoice);
   const customer = selectedInvoiceData ? getCustomer(selectedInvoiceData.customerId) : null;
   const vehicle = selectedInvoiceData ? getVehicle(selectedInvoiceData.vehicleId) : null;
   const vendor = selectedInvoiceData 
@@ -65,6 +174,47 @@ export default function PrintCenter() {
     window.print();
   };
 
+  const voidInvoice = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      return apiRequest("POST", `/api/invoices/${id}/void`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/all-vehicle-inventories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/hamali-cash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-settlements"] });
+      setVoidDialogOpen(false);
+      setVoidReason("");
+      toast({ title: "Invoice voided", description: "Stock and Hamali entries have been reversed." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to void invoice.", variant: "destructive" });
+    },
+  });
+
+  const isVoid = selectedInvoiceData?.status === "void";
+  const isStatement = documentType === "statement" || documentType === "vendor-statement";
+  const isCreditNote = documentType === "credit-note";
+  const isDebitNote = documentType === "debit-note";
+  const isPatti = documentType === "patti";
+  const isInvoiceDocument = !isStatement && !isCreditNote && !isDebitNote && !isPatti;
+  const selectedCreditNoteData = salesReturns.find((r) => r.id === selectedCreditNote);
+  const selectedDebitNoteData = vendorReturns.find((r) => r.id === selectedDebitNote);
+  const selectedPattiData = pattis.find((p) => p.id === selectedPatti);
+  const statementParty = documentType === "statement" ? customerStatement?.customer : vendorStatement?.vendor;
+  const activeStatement = documentType === "statement" ? customerStatement : vendorStatement;
+
+  const handleDownloadStatement = () => {
+    if (!statementParty || !activeStatement) return;
+    const fileName = statementParty.name.replace(/\s+/g, "-").toLowerCase();
+    downloadCSV(
+      statementToCSVRows(statementParty, activeStatement),
+      `statement-${fileName}-${activeStatement.from}-to-${activeStatement.to}.csv`
+    );
+  };
+
   if (invoicesLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -90,45 +240,302 @@ export default function PrintCenter() {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print:hidden">
         <div className="space-y-2">
           <Label>Document Type</Label>
-          <Select value={documentType} onValueChange={(v) => setDocumentType(v as "invoice" | "challan")}>
+          <Select value={documentType} onValueChange={(v) => setDocumentType(v as DocumentType)}>
             <SelectTrigger data-testid="select-document-type">
               <SelectValue placeholder="Select type" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="invoice">Tax Invoice</SelectItem>
               <SelectItem value="challan">Delivery Challan</SelectItem>
+              <SelectItem value="credit-note">Credit Note</SelectItem>
+              <SelectItem value="debit-note">Debit Note</SelectItem>
+              <SelectItem value="patti">Patti</SelectItem>
+              <SelectItem value="statement">Customer Statement</SelectItem>
+              <SelectItem value="vendor-statement">Vendor Ledger</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
-        <div className="space-y-2">
-          <Label>Select Invoice</Label>
-          <Select value={selectedInvoice} onValueChange={setSelectedInvoice}>
-            <SelectTrigger data-testid="select-invoice">
-              <SelectValue placeholder="Select invoice" />
-            </SelectTrigger>
-            <SelectContent>
-              {invoices.map((invoice) => (
-                <SelectItem key={invoice.id} value={invoice.id}>
-                  {invoice.invoiceNumber} - {getCustomerName(invoice.customerId)}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
+        {documentType === "vendor-statement" ? (
+          <div className="space-y-2">
+            <Label>Select Vendor</Label>
+            <Select value={statementVendor} onValueChange={setStatementVendor}>
+              <SelectTrigger data-testid="select-statement-vendor">
+                <SelectValue placeholder="Select vendor" />
+              </SelectTrigger>
+              <SelectContent>
+                {vendors.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>
+                    {v.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : documentType === "statement" ? (
+          <div className="space-y-2">
+            <Label>Select Customer</Label>
+            <Select value={statementCustomer} onValueChange={setStatementCustomer}>
+              <SelectTrigger data-testid="select-statement-customer">
+                <SelectValue placeholder="Select customer" />
+              </SelectTrigger>
+              <SelectContent>
+                {customers.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : isCreditNote ? (
+          <div className="space-y-2">
+            <Label>Select Credit Note</Label>
+            <Select value={selectedCreditNote} onValueChange={setSelectedCreditNote}>
+              <SelectTrigger data-testid="select-credit-note">
+                <SelectValue placeholder="Select credit note" />
+              </SelectTrigger>
+              <SelectContent>
+                {salesReturns.map((salesReturn) => (
+                  <SelectItem key={salesReturn.id} value={salesReturn.id}>
+                    {salesReturn.creditNoteNumber} - {getCustomerName(salesReturn.customerId)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : isDebitNote ? (
+          <div className="space-y-2">
+            <Label>Select Debit Note</Label>
+            <Select value={selectedDebitNote} onValueChange={setSelectedDebitNote}>
+              <SelectTrigger data-testid="select-debit-note">
+                <SelectValue placeholder="Select debit note" />
+              </SelectTrigger>
+              <SelectContent>
+                {vendorReturns.map((vendorReturn) => (
+                  <SelectItem key={vendorReturn.id} value={vendorReturn.id}>
+                    {vendorReturn.debitNoteNumber ?? `Return of ${vendorReturn.date}`} - {getVendor(vendorReturn.vendorId)?.name || "Unknown"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : isPatti ? (
+          <div className="space-y-2">
+            <Label>Select Patti</Label>
+            <Select value={selectedPatti} onValueChange={setSelectedPatti}>
+              <SelectTrigger data-testid="select-patti">
+                <SelectValue placeholder="Select patti" />
+              </SelectTrigger>
+              <SelectContent>
+                {pattis.map((patti) => (
+                  <SelectItem key={patti.id} value={patti.id}>
+                    {patti.pattiNumber} - {getVendor(patti.vendorId)?.name || "Unknown"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>Select Invoice</Label>
+            <Select value={selectedInvoice} onValueChange={setSelectedInvoice}>
+              <SelectTrigger data-testid="select-invoice">
+                <SelectValue placeholder="Select invoice" />
+              </SelectTrigger>
+              <SelectContent>
+                {invoices.map((invoice) => (
+                  <SelectItem key={invoice.id} value={invoice.id}>
+                    {invoice.invoiceNumber} - {getCustomerName(invoice.customerId)}{invoice.status === "void" ? " (Void)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
 
-        <div className="space-y-2 flex items-end">
-          <Button onClick={handlePrint} disabled={!selectedInvoice} data-testid="button-print">
+        <div className="space-y-2 flex items-end gap-2">
+          <Button
+            onClick={handlePrint}
+            disabled={
+              isStatement
+                ? !activeStatement
+                : isCreditNote
+                  ? !selectedCreditNoteData
+                  : isDebitNote
+                    ? !selectedDebitNoteData
+                    : isPatti ? !selectedPattiData : !selectedInvoice
+            }
+            data-testid="button-print"
+          >
             <Printer className="h-4 w-4 mr-2" />
             Print Document
           </Button>
+          {isStatement ? (
+            <Button
+              variant="outline"
+              onClick={handleDownloadStatement}
+              disabled={!activeStatement}
+              data-testid="button-download-statement"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          ) : isInvoiceDocument && (
+            <Button
+              variant="outline"
+              onClick={() => setVoidDialogOpen(true)}
+              disabled={!selectedInvoiceData || isVoid}
+              data-testid="button-void-invoice"
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              Void Invoice
+            </Button>
+          )}
+          {isInvoiceDocument && (
+            <Button
+              variant="outline"
+              onClick={() => setEwayBillDialogOpen(true)}
+              disabled={!selectedInvoiceData || isVoid}
+              data-testid="button-eway-bill"
+            >
+              <Route className="h-4 w-4 mr-2" />
+              E-way Bill
+            </Button>
+          )}
         </div>
       </div>
 
-      {selectedInvoiceData && (
+      {isStatement && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 print:hidden">
+          <div className="space-y-2">
+            <Label htmlFor="statementFrom">From</Label>
+            <Input
+              id="statementFrom"
+              type="date"
+              value={statementFrom}
+              onChange={(e) => setStatementFrom(e.target.value)}
+              data-testid="input-statement-from"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statementTo">To</Label>
+            <Input
+              id="statementTo"
+              type="date"
+              value={statementTo}
+              onChange={(e) => setStatementTo(e.target.value)}
+              data-testid="input-statement-to"
+            />
+          </div>
+        </div>
+      )}
+
+      <Dialog open={voidDialogOpen} onOpenChange={setVoidDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void {selectedInvoiceData?.invoiceNumber}</DialogTitle>
+            <DialogDescription>
+              Stock and vehicle inventory are returned and any auto-recorded Hamali cash is removed. The invoice stays on record as void.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="voidReason">Reason</Label>
+            <Textarea
+              id="voidReason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="Why is this invoice being cancelled?"
+              data-testid="input-void-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoidDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!voidReason.trim() || voidInvoice.isPending}
+              onClick={() => selectedInvoiceData && voidInvoice.mutate({ id: selectedInvoiceData.id, reason: voidReason.trim() })}
+              data-testid="button-confirm-void"
+            >
+              {voidInvoice.isPending ? "Voiding..." : "Void Invoice"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {isPatti && selectedPattiData && (
+        <PattiDocument
+          patti={selectedPattiData}
+          items={pattiItems}
+          vendor={getVendor(selectedPattiData.vendorId) ?? undefined}
+          vehicle={getVehicle(selectedPattiData.vehicleId) ?? undefined}
+          products={products}
+          companySettings={companySettings}
+        />
+      )}
+
+      {isInvoiceDocument && selectedInvoiceData && (
+        <EwayBillDialog
+          open={ewayBillDialogOpen}
+          onOpenChange={setEwayBillDialogOpen}
+          documentType={documentType === "challan" ? "challan" : "invoice"}
+          invoice={selectedInvoiceData}
+          items={invoiceItems}
+          customer={customer}
+          vehicle={vehicle}
+          products={products}
+          companySettings={companySettings}
+        />
+      )}
+
+      {isStatement && statementParty && activeStatement && (
+        <StatementDocument
+          title={documentType === "statement" ? "Statement of Account" : "Vendor Ledger"}
+          partyLabel={documentType === "statement" ? "Customer" : "Vendor"}
+          party={statementParty}
+          statement={activeStatement}
+          companySettings={companySettings}
+        />
+      )}
+
+      {isCreditNote && selectedCreditNoteData && (
+        <CreditNoteDocument
+          salesReturn={selectedCreditNoteData}
+          items={creditNoteItems}
+          invoice={invoices.find((i) => i.id === selectedCreditNoteData.invoiceId)}
+          customer={getCustomer(selectedCreditNoteData.customerId)}
+          products={products}
+          companySettings={companySettings}
+        />
+      )}
+
+      {isDebitNote && selectedDebitNoteData && (
+        <DebitNoteDocument
+          vendorReturn={selectedDebitNoteData}
+          items={debitNoteItems}
+          vendor={getVendor(selectedDebitNoteData.vendorId) ?? undefined}
+          purchase={purchases.find((p) => p.id === selectedDebitNoteData.purchaseId)}
+          vehicle={getVehicle(selectedDebitNoteData.vehicleId) ?? undefined}
+          products={products}
+          companySettings={companySettings}
+        />
+      )}
+
+      {isInvoiceDocument && selectedInvoiceData && (
         <Card className="print:shadow-none print:border-none">
           <CardContent className="p-8">
             <div className="border border-border rounded-md p-6 space-y-6">
+              {isVoid && (
+                <div className="border-2 border-destructive text-destructive rounded-md p-3 text-center" data-testid="text-void-banner">
+                  <p className="text-lg font-bold uppercase tracking-widest">Void</p>
+                  <p className="text-sm">
+                    {selectedInvoiceData.voidReason}
+                    {selectedInvoiceData.voidedAt && ` - ${new Date(selectedInvoiceData.voidedAt).toLocaleString("en-IN")}`}
+                  </p>
+                </div>
+              )}
               <div className="flex justify-between items-start border-b border-border pb-4">
                 <div>
                   <h2 className="text-xl font-bold" data-testid="text-company-name">
@@ -161,6 +568,12 @@ export default function PrintCenter() {
                   <p className="text-sm">
                     <span className="font-medium">Date:</span> {selectedInvoiceData.date}
                   </p>
+                  {selectedInvoiceData.ewayBillNumber && (
+                    <p className="text-sm" data-testid="text-eway-bill-number">
+                      <span className="font-medium">EWB No:</span> {selectedInvoiceData.ewayBillNumber}
+                      {selectedInvoiceData.ewayBillDate && ` (${selectedInvoiceData.ewayBillDate})`}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -175,6 +588,14 @@ export default function PrintCenter() {
                     {customer?.phone && (
                       <p className="text-sm text-muted-foreground">Phone: {customer.phone}</p>
                     )}
+                    {customer?.gstin && (
+                      <p className="text-sm font-medium">GSTIN: {customer.gstin}</p>
+                    )}
+                    {selectedInvoiceData.placeOfSupply && (
+                      <p className="text-sm text-muted-foreground" data-testid="text-place-of-supply">
+                        Place of Supply: {getStateName(selectedInvoiceData.placeOfSupply)} ({selectedInvoiceData.placeOfSupply})
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div>
@@ -216,12 +637,14 @@ export default function PrintCenter() {
                     <tr className="bg-muted/50">
                       <th className="border border-border px-3 py-2 text-left text-sm font-semibold">#</th>
                       <th className="border border-border px-3 py-2 text-left text-sm font-semibold">Item</th>
+                      <th className="border border-border px-3 py-2 text-left text-sm font-semibold">HSN</th>
                       <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Qty</th>
                       <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Unit</th>
                       {documentType === "invoice" && (
                         <>
                           <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Rate</th>
-                          <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Amount</th>
+                          <th className="border border-border px-3 py-2 text-right text-sm font-semibold">GST</th>
+                          <th className="border border-border px-3 py-2 text-right text-sm font-semibold">Taxable Value</th>
                         </>
                       )}
                     </tr>
@@ -231,6 +654,7 @@ export default function PrintCenter() {
                       <tr key={item.id}>
                         <td className="border border-border px-3 py-2 text-sm">{idx + 1}</td>
                         <td className="border border-border px-3 py-2 text-sm">{getProductName(item.productId)}</td>
+                        <td className="border border-border px-3 py-2 text-sm">{item.hsnCode || "-"}</td>
                         <td className="border border-border px-3 py-2 text-right text-sm font-mono">{item.quantity}</td>
                         <td className="border border-border px-3 py-2 text-right text-sm">{getProductUnit(item.productId)}</td>
                         {documentType === "invoice" && (
@@ -238,6 +662,9 @@ export default function PrintCenter() {
                             <td className="border border-border px-3 py-2 text-right text-sm font-mono">
                               {item.unitPrice.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
                             </td>
+                            <td className="border border-border px-3 py-2 text-right text-sm">
+                              {item.gstRate > 0 ? `${item.gstRate}%` : "Exempt"}
+                            </td>
                             <td className="border border-border px-3 py-2 text-right text-sm font-mono">
                               {item.total.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
                             </td>
@@ -249,15 +676,29 @@ export default function PrintCenter() {
                 </table>
               </div>
 
+              {documentType === "invoice" && <TaxSummary lines={invoiceItems} />}
+
               {documentType === "invoice" && (
                 <div className="flex justify-end">
                   <div className="w-64 space-y-1">
                     <div className="flex justify-between text-sm">
-                      <span>Subtotal</span>
+                      <span>Taxable Value</span>
                       <span className="font-mono">
                         {selectedInvoiceData.subtotal.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
                       </span>
                     </div>
+                    {([
+                      ["CGST", selectedInvoiceData.cgstAmount],
+                      ["SGST", selectedInvoiceData.sgstAmount],
+                      ["IGST", selectedInvoiceData.igstAmount],
+                    ] as const).filter(([, amount]) => amount > 0).map(([label, amount]) => (
+                      <div key={label} className="flex justify-between text-sm">
+                        <span>{label}</span>
+                        <span className="font-mono">
+                          {amount.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                        </span>
+                      </div>
+                    ))}
                     {selectedInvoiceData.includeHamaliCharge && (
                       <div className="flex justify-between text-sm">
                         <span>Hamali Charge ({selectedInvoiceData.totalKgWeight || 0} KG x {selectedInvoiceData.hamaliRatePerKg || 0}/KG)</span>
@@ -272,6 +713,27 @@ export default function PrintCenter() {
                         {selectedInvoiceData.grandTotal.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
                       </span>
                     </div>
+                    {settlement && settlement.allocated > 0 && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span>Amount Paid</span>
+                          <span className="font-mono">
+                            {settlement.allocated.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                          </span>
+                        </div>
+                        <div className="flex justify-between text-sm font-semibold" data-testid="text-balance-due">
+                          <span>Balance Due</span>
+                          <span className="font-mono">
+                            {settlement.outstanding.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                          </span>
+                        </div>
+                      </>
+                    )}
+                    {settlement && (
+                      <div className="text-right text-xs uppercase tracking-wide text-muted-foreground" data-testid="text-settlement-status">
+                        {settlement.status}
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -298,12 +760,84 @@ export default function PrintCenter() {
         </Card>
       )}
 
-      {!selectedInvoice && (
+      {isInvoiceDocument && selectedInvoiceData && revisionHistory && (
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 flex-wrap">
+              <History className="h-5 w-5" />
+              Revision History
+              {revisionHistory.lockReason && (
+                <Badge variant="secondary" className="gap-1" data-testid="badge-invoice-locked">
+                  <Lock className="h-3 w-3" />
+                  Locked: {revisionHistory.lockReason}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {revisionHistory.revisions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This invoice has not been amended</p>
+            ) : (
+              <div className="space-y-4">
+                {revisionHistory.revisions.slice().reverse().map((revision) => (
+                  <div key={revision.id} className="border-b border-border pb-3 last:border-b-0" data-testid={`revision-${revision.revision}`}>
+                    <div className="flex items-center gap-2 flex-wrap text-sm mb-2">
+                      <span className="font-medium">Revision {revision.revision}</span>
+                      <span className="text-muted-foreground">
+                        by {revision.changedBy} on {new Date(revision.changedAt).toLocaleString("en-IN")}
+                      </span>
+                      {revision.lockOverride && <Badge variant="outline">Owner override</Badge>}
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-muted-foreground">
+                          <th className="text-left font-medium py-1">Field</th>
+                          <th className="text-right font-medium py-1">Before</th>
+                          <th className="text-right font-medium py-1">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {revision.changes.map((change, index) => (
+                          <tr key={index}>
+                            <td className="py-1">{change.field}</td>
+                            <td className="py-1 text-right font-mono">{change.before === null ? "-" : String(change.before)}</td>
+                            <td className="py-1 text-right font-mono">{change.after === null ? "-" : String(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {!(documentType === "statement"
+        ? statementCustomer
+        : documentType === "vendor-statement"
+          ? statementVendor
+          : isCreditNote
+            ? selectedCreditNote
+            : isDebitNote
+              ? selectedDebitNote
+              : isPatti ? selectedPatti : selectedInvoice) && (
         <Card>
           <CardContent className="py-16 text-center">
             <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-muted-foreground">
-              Select an invoice to preview and print
+              {documentType === "statement"
+                ? "Select a customer to preview their statement"
+                : documentType === "vendor-statement"
+                  ? "Select a vendor to preview their ledger"
+                  : isCreditNote
+                    ? "Select a credit note to preview and print"
+                    : isDebitNote
+                      ? "Select a debit note to preview and print"
+                      : isPatti
+                        ? "Select a patti to preview and print"
+                        : "Select an invoice to preview and print"}
             </p>
           </CardContent>
         </Card>
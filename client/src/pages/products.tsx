@@ -52,6 +52,7 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Plus, Search, Pencil, Trash2, Package, AlertTriangle } from "lucide-react";
 import { insertProductSchema, type Product, type InsertProduct } from "@shared/schema";
+import { GST_RATES } from "@shared/gst";
 import { z } from "zod";
 
 const formSchema = insertProductSchema.extend({
@@ -59,6 +60,7 @@ const formSchema = insertProductSchema.extend({
   salePrice: z.coerce.number().min(0, "Price must be positive"),
   currentStock: z.coerce.number().min(0, "Stock must be positive"),
   reorderLevel: z.coerce.number().min(0, "Reorder level must be positive").optional(),
+  gstRate: z.coerce.number().min(0),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -85,6 +87,8 @@ export default function Products() {
       salePrice: 0,
       currentStock: 0,
       reorderLevel: 10,
+      hsnCode: "",
+      gstRate: 0,
     },
   });
 
@@ -146,6 +150,8 @@ export default function Products() {
       salePrice: product.salePrice,
       currentStock: product.currentStock,
       reorderLevel: product.reorderLevel || 10,
+      hsnCode: product.hsnCode || "",
+      gstRate: product.gstRate,
     });
     setIsDialogOpen(true);
   };
@@ -159,6 +165,8 @@ export default function Products() {
       salePrice: 0,
       currentStock: 0,
       reorderLevel: 10,
+      hsnCode: "",
+      gstRate: 0,
     });
     setIsDialogOpen(true);
   };
@@ -341,6 +349,53 @@ export default function Products() {
                     )}
                   />
                 </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="hsnCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>HSN Code</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g., 0702"
+                            {...field}
+                            value={field.value || ""}
+                            data-testid="input-hsn-code"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="gstRate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GST Rate</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(Number(value))}
+                          value={String(field.value ?? 0)}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-gst-rate">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>
+                                {rate === 0 ? "0% (Exempt)" : `${rate}%`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -413,6 +468,7 @@ export default function Products() {
                     <TableHead>Unit</TableHead>
                     <TableHead className="text-right">Purchase Price</TableHead>
                     <TableHead className="text-right">Sale Price</TableHead>
+                    <TableHead>HSN / GST</TableHead>
                     <TableHead className="text-right">Stock</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -435,8 +491,19 @@ export default function Products() {
                         <TableCell className="text-right font-mono">
                           ₹{product.salePrice.toFixed(2)}
                         </TableCell>
+                        <TableCell className="text-sm">
+                          {product.hsnCode || "-"}
+                          <span className="text-muted-foreground">
+                            {" / "}{product.gstRate > 0 ? `${product.gstRate}%` : "Exempt"}
+                          </span>
+                        </TableCell>
                         <TableCell className="text-right font-mono">
                           {product.currentStock.toFixed(2)}
+                          {product.damagedStock > 0 && (
+                            <div className="text-xs text-destructive" data-testid={`text-damaged-stock-${product.id}`}>
+                              {product.damagedStock.toFixed(2)} damaged
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           {isLowStock ? (
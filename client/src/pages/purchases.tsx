@@ -45,6 +45,7 @@ import {
   X,
 } from "lucide-react";
 import type { Vendor, Vehicle, Product, Purchase } from "@shared/schema";
+import type { SettlementStatus } from "@shared/settlement";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 
@@ -60,13 +61,28 @@ const purchaseFormSchema = z.object({
   vendorId: z.string().min(1, "Please select a vendor"),
   vehicleId: z.string().optional(),
   date: z.string().min(1, "Please select a date"),
+  paymentTermsDays: z.number().int().min(0),
 });
 
 type PurchaseFormData = z.infer<typeof purchaseFormSchema>;
 
+type PurchaseWithSettlement = Purchase & {
+  paid: number;
+  returned: number;
+  outstanding: number;
+  status: SettlementStatus;
+};
+
+const SETTLEMENT_BADGE_VARIANTS: Record<SettlementStatus, "default" | "secondary" | "outline"> = {
+  paid: "default",
+  partial: "secondary",
+  unpaid: "outline",
+};
+
 export default function Purchases() {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<SettlementStatus | "all">("all");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [lineItems, setLineItems] = useState<PurchaseLineItem[]>([]);
   const [selectedProduct, setSelectedProduct] = useState("");
@@ -85,7 +101,7 @@ export default function Purchases() {
     queryKey: ["/api/products"],
   });
 
-  const { data: purchases = [], isLoading: purchasesLoading } = useQuery<Purchase[]>({
+  const { data: purchases = [], isLoading: purchasesLoading } = useQuery<PurchaseWithSettlement[]>({
     queryKey: ["/api/purchases"],
   });
 
@@ -95,6 +111,7 @@ export default function Purchases() {
       vendorId: "",
       vehicleId: "",
       date: new Date().toISOString().split("T")[0],
+      paymentTermsDays: 0,
     },
   });
 
@@ -162,6 +179,7 @@ export default function Purchases() {
     setLineItems(lineItems.filter((_, i) => i !== index));
   };
 
+  const today = new Date().toISOString().split("T")[0];
   const totalAmount = lineItems.reduce((acc, item) => acc + item.total, 0);
 
   const onSubmit = (data: PurchaseFormData) => {
@@ -178,6 +196,7 @@ export default function Purchases() {
       vendorId: "",
       vehicleId: "",
       date: new Date().toISOString().split("T")[0],
+      paymentTermsDays: 0,
     });
     setLineItems([]);
     setIsDialogOpen(true);
@@ -185,6 +204,7 @@ export default function Purchases() {
 
   const filteredPurchases = purchases.filter((purchase) => {
     const vendor = vendors.find((v) => v.id === purchase.vendorId);
+    if (statusFilter !== "all" && purchase.status !== statusFilter) return false;
     return (
       vendor?.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       purchase.id.toLowerCase().includes(searchQuery.toLowerCase())
@@ -241,6 +261,17 @@ export default function Purchases() {
                 data-testid="input-search-purchases"
               />
             </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SettlementStatus | "all")}>
+              <SelectTrigger className="w-40" data-testid="select-purchase-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="unpaid">Unpaid</SelectItem>
+                <SelectItem value="partial">Partially paid</SelectItem>
+                <SelectItem value="paid">Paid</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         <CardContent>
@@ -249,11 +280,11 @@ export default function Purchases() {
               <ShoppingCart className="h-12 w-12 mb-4" />
               <p className="text-lg font-medium">No purchases found</p>
               <p className="text-sm">
-                {searchQuery
-                  ? "Try a different search term"
+                {searchQuery || statusFilter !== "all"
+                  ? "Try a different search term or status"
                   : "Create your first purchase order"}
               </p>
-              {!searchQuery && (
+              {!searchQuery && statusFilter === "all" && (
                 <Button
                   variant="outline"
                   className="mt-4"
@@ -271,7 +302,9 @@ export default function Purchases() {
                   <TableHead>Purchase ID</TableHead>
                   <TableHead>Vendor</TableHead>
                   <TableHead>Date</TableHead>
+                  <TableHead>Due Date</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
                   <TableHead>Status</TableHead>
                 </TableRow>
               </TableHeader>
@@ -287,13 +320,26 @@ export default function Purchases() {
                         {vendor?.name || "Unknown"}
                       </TableCell>
                       <TableCell>{purchase.date}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {purchase.dueDate ?? purchase.date}
+                          {purchase.status !== "paid" && (purchase.dueDate ?? purchase.date) < today && (
+                            <Badge variant="destructive" className="text-xs">
+                              Overdue
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
                       <TableCell className="text-right font-mono">
                         ₹{purchase.totalAmount.toLocaleString("en-IN", { minimumFractionDigits: 2 })}
                       </TableCell>
+                      <TableCell className="text-right font-mono">
+                        ₹{purchase.outstanding.toLocaleString("en-IN", { minimumFractionDigits: 2 })}
+                      </TableCell>
                       <TableCell>
                         <Badge
-                          variant={purchase.status === "completed" ? "default" : "secondary"}
-                          className="text-xs"
+                          variant={SETTLEMENT_BADGE_VARIANTS[purchase.status]}
+                          className="text-xs capitalize"
                         >
                           {purchase.status}
                         </Badge>
@@ -314,14 +360,21 @@ export default function Purchases() {
           </DialogHeader>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <FormField
                   control={form.control}
                   name="vendorId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Vendor *</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          const vendor = vendors.find((v) => v.id === value);
+                          form.setValue("paymentTermsDays", vendor?.paymentTermsDays ?? 0);
+                        }}
+                        value={field.value}
+                      >
                         <FormControl>
                           <SelectTrigger data-testid="select-vendor">
                             <SelectValue placeholder="Select vendor" />
@@ -356,7 +409,8 @@ export default function Purchases() {
                         </FormControl>
                         <SelectContent>
                           <SelectItem value="none">None</SelectItem>
-                          {vehicles.map((vehicle) => (
+                          {/* Commission loads are the farmer's and are settled by patti, not bought */}
+                          {vehicles.filter((vehicle) => !vehicle.commissionMode).map((vehicle) => (
                             <SelectItem key={vehicle.id} value={vehicle.id}>
                               {vehicle.number} - {vehicle.type}
                             </SelectItem>
@@ -380,6 +434,25 @@ export default function Purchases() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="paymentTermsDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Terms (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          data-testid="input-purchase-payment-terms"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <Card>
@@ -15,9 +15,13 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { TrendingUp, Package, ArrowUpRight, Receipt, CreditCard, Download, Calendar, Filter, Truck, Users, Scale, ShoppingBag, FileText, BarChart3 } from "lucide-react";
+import { TrendingUp, Package, ArrowUpRight, Receipt, CreditCard, Download, Calendar, Filter, Truck, Users, Scale, ShoppingBag, FileText, BarChart3, Clock, Wallet, Landmark } from "lucide-react";
 import type { Product, Invoice, Customer, Vehicle, InvoiceItem, Vendor, CustomerPayment } from "@shared/schema";
+import type { SettlementStatus } from "@shared/settlement";
 import { Skeleton } from "@/components/ui/skeleton";
+import { downloadCSV } from "@/lib/csv";
+import type { Gstr1Export, Gstr1Section } from "@shared/gstr1";
+import type { MarginRow } from "@shared/margins";
 import {
   BarChart,
   Bar,
@@ -33,6 +37,75 @@ import {
 
 type PeriodType = "today" | "week" | "month" | "custom";
 
+type ReceivablesAging = {
+  asOf: string;
+  buckets: { key: string; label: string }[];
+  customers: {
+    customerId: string;
+    customerName: string;
+    buckets: Record<string, number>;
+    total: number;
+    invoices: { invoiceId: string; invoiceNumber: string; date: string; ageDays: number; bucket: string; outstanding: number }[];
+  }[];
+  totals: Record<string, number>;
+  grandTotal: number;
+};
+
+type MarginDimension = "byProduct" | "byCustomer" | "byVendor" | "byVehicle";
+
+const MARGIN_DIMENSIONS: { key: MarginDimension; label: string }[] = [
+  { key: "byProduct", label: "Product" },
+  { key: "byCustomer", label: "Customer" },
+  { key: "byVendor", label: "Vendor" },
+  { key: "byVehicle", label: "Vehicle" },
+];
+
+// Only the headline figures and margins of /api/reports/profit-loss are shown here
+type ProfitLoss = {
+  totalSales: number; // net of sales returns
+  totalSalesReturns: number;
+  totalPurchases: number; // includes goods settled by patti
+  totalPattiPurchases: number;
+  commissionIncome: number;
+  totalReturns: number;
+  netPurchases: number;
+  costOfGoodsSold: number; // lot cost of the goods sold, net of restocked returns
+  grossProfit: number;
+  margins: Record<MarginDimension, (MarginRow & { name: string })[]>;
+  totalExpenses: number;
+  expensesByCategory: { category: string; label: string; amount: number }[];
+  netProfit: number;
+};
+
+type Gstr1Response = Gstr1Export & { period: string; invoiceCount: number; creditNoteCount: number };
+
+const GSTR1_SECTIONS: { key: Gstr1Section; label: string }[] = [
+  { key: "b2b", label: "B2B Invoices" },
+  { key: "b2cl", label: "B2C Large" },
+  { key: "b2cs", label: "B2C Small" },
+  { key: "cdnr", label: "Credit Notes (Registered)" },
+  { key: "cdnur", label: "Credit Notes (Unregistered)" },
+  { key: "exemp", label: "Nil Rated / Exempt" },
+  { key: "hsn", label: "HSN Summary" },
+];
+
+// Server errors arrive as "<status>: <json body>"; show the message and any details
+function describeGstr1Error(error: Error): string[] {
+  try {
+    const parsed = JSON.parse(error.message.replace(/^\d{3}: /, "")) as { error?: string; details?: string[] };
+    return [parsed.error || error.message, ...(parsed.details ?? [])];
+  } catch {
+    return [error.message];
+  }
+}
+
+type InvoiceSettlement = {
+  invoiceId: string;
+  allocated: number;
+  outstanding: number;
+  status: SettlementStatus;
+};
+
 type DailySummary = {
   date: string;
   sales: number;
@@ -49,16 +122,6 @@ function formatWeight(weight: number): string {
   return `${weight.toFixed(2)} KG`;
 }
 
-function downloadCSV(data: string[][], filename: string) {
-  const csvContent = data.map(row => row.map(cell => `"${cell}"`).join(",")).join("\n");
-  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-  const link = document.createElement("a");
-  link.href = URL.createObjectURL(blob);
-  link.download = filename;
-  link.click();
-  URL.revokeObjectURL(link.href);
-}
-
 export default function Reports() {
   const today = new Date().toISOString().split("T")[0];
   const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
@@ -70,6 +133,11 @@ export default function Reports() {
   const [selectedVehicleId, setSelectedVehicleId] = useState<string>("all");
   const [selectedCustomerId, setSelectedCustomerId] = useState<string>("all");
   const [selectedVendorId, setSelectedVendorId] = useState<string>("all");
+  const [agingAsOf, setAgingAsOf] = useState(today);
+  const [gstr1Period, setGstr1Period] = useState(today.slice(0, 7));
+  const [plStartDate, setPlStartDate] = useState(monthAgo);
+  const [plEndDate, setPlEndDate] = useState(today);
+  const [marginDimension, setMarginDimension] = useState<MarginDimension>("byProduct");
 
   const { startDate, endDate } = useMemo(() => {
     switch (periodType) {
@@ -114,6 +182,39 @@ export default function Reports() {
     queryKey: ["/api/customer-payments"],
   });
 
+  const { data: settlements = [] } = useQuery<InvoiceSettlement[]>({
+    queryKey: ["/api/invoice-settlements"],
+  });
+
+  const { data: receivablesAging, isLoading: agingLoading } = useQuery<ReceivablesAging>({
+    queryKey: [`/api/reports/receivables-aging?asOf=${agingAsOf}`],
+    // Outstanding amounts move with every payment, so refetch whenever the page opens
+    staleTime: 0,
+  });
+
+  const { data: profitLoss, isLoading: profitLossLoading } = useQuery<ProfitLoss>({
+    queryKey: [`/api/reports/profit-loss?startDate=${plStartDate}&endDate=${plEndDate}`],
+    staleTime: 0,
+  });
+
+  const { data: gstr1, isLoading: gstr1Loading, error: gstr1Error } = useQuery<Gstr1Response>({
+    queryKey: [`/api/reports/gstr1?period=${gstr1Period}`],
+    enabled: !!gstr1Period,
+    staleTime: 0,
+  });
+
+  const downloadGstr1JSON = () => {
+    if (!gstr1) return;
+    const blob = new Blob([JSON.stringify(gstr1.json, null, 2)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `GSTR1_${gstr1.json.gstin}_${gstr1.json.fp}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const settlementByInvoice = useMemo(() => new Map(settlements.map((s) => [s.invoiceId, s])), [settlements]);
+
   const getCustomerName = (id: string) => customers.find((c) => c.id === id)?.name || "Unknown";
   const getVendorName = (id: string | null) => vendors.find((v) => v.id === id)?.name || "-";
   const getProductName = (id: string) => products.find((p) => p.id === id)?.name || "Unknown";
@@ -132,6 +233,7 @@ export default function Reports() {
   
   const filteredInvoices = useMemo(() => {
     return invoices.filter((inv) => {
+      if (inv.status === "void") return false;
       if (startDate && inv.date < startDate) return false;
       if (endDate && inv.date > endDate) return false;
       if (selectedVehicleId !== "all" && inv.vehicleId !== selectedVehicleId) return false;
@@ -153,15 +255,13 @@ export default function Reports() {
     const invoiceCount = filteredInvoices.length;
     const invoicesWithHamali = filteredInvoices.filter(inv => inv.includeHamaliCharge && (inv.hamaliChargeAmount || 0) > 0).length;
     
-    const filteredInvoiceIds = new Set(filteredInvoices.map(inv => inv.id));
-    const totalPaid = customerPayments
-      .filter(p => p.invoiceId && filteredInvoiceIds.has(p.invoiceId))
-      .reduce((sum, p) => sum + (p.amount || 0), 0);
-    const totalRemaining = totalSales - totalPaid;
+    // Paid and remaining come from the payments allocated to each invoice
+    const totalPaid = filteredInvoices.reduce((sum, inv) => sum + (settlementByInvoice.get(inv.id)?.allocated || 0), 0);
+    const totalRemaining = filteredInvoices.reduce((sum, inv) => sum + (settlementByInvoice.get(inv.id)?.outstanding ?? inv.grandTotal), 0);
     
     // Calculate opening and closing balance for the date range
     const salesBeforePeriod = invoices
-      .filter(inv => startDate && inv.date < startDate)
+      .filter(inv => inv.status !== "void" && startDate && inv.date < startDate)
       .reduce((sum, inv) => sum + (inv.grandTotal || 0), 0);
     const paymentsBeforePeriod = customerPayments
       .filter(p => startDate && p.date < startDate)
@@ -192,7 +292,7 @@ export default function Reports() {
       closingBalance,
       paymentsInPeriod,
     };
-  }, [filteredInvoices, customerPayments, invoices, startDate, endDate]);
+  }, [filteredInvoices, customerPayments, invoices, startDate, endDate, settlementByInvoice]);
 
   const dailySummary = useMemo((): DailySummary[] => {
     const dateMap = new Map<string, DailySummary>();
@@ -239,7 +339,7 @@ export default function Reports() {
   ];
 
   const downloadSalesReport = () => {
-    const headers = ["Invoice #", "Date", "Vehicle", "Customer", "Vendor", "Weight (KG)", "Subtotal", "Hamali", "Grand Total"];
+    const headers = ["Invoice #", "Date", "Vehicle", "Customer", "Vendor", "Weight (KG)", "Subtotal", "Hamali", "Grand Total", "Status", "Outstanding"];
     const rows = filteredInvoices.map((inv) => [
       inv.invoiceNumber || "",
       inv.date || "",
@@ -250,6 +350,8 @@ export default function Reports() {
       (inv.subtotal || 0).toFixed(2),
       (inv.hamaliChargeAmount || 0).toFixed(2),
       (inv.grandTotal || 0).toFixed(2),
+      settlementByInvoice.get(inv.id)?.status || "",
+      (settlementByInvoice.get(inv.id)?.outstanding ?? inv.grandTotal).toFixed(2),
     ]);
     const totals = [
       "TOTAL",
@@ -261,6 +363,8 @@ export default function Reports() {
       summary.totalSubtotal.toFixed(2),
       summary.totalHamali.toFixed(2),
       summary.totalSales.toFixed(2),
+      "",
+      summary.totalRemaining.toFixed(2),
     ];
     downloadCSV([headers, ...rows, totals], `sales-report-${startDate}-to-${endDate}.csv`);
   };
@@ -284,6 +388,22 @@ export default function Reports() {
     downloadCSV([headers, ...rows, totals], `daily-summary-${startDate}-to-${endDate}.csv`);
   };
 
+  const downloadReceivablesAgingReport = () => {
+    if (!receivablesAging) return;
+    const headers = ["Customer", ...receivablesAging.buckets.map((b) => b.label), "Total Outstanding"];
+    const rows = receivablesAging.customers.map((row) => [
+      row.customerName,
+      ...receivablesAging.buckets.map((b) => (row.buckets[b.key] || 0).toFixed(2)),
+      row.total.toFixed(2),
+    ]);
+    const totals = [
+      "TOTAL",
+      ...receivablesAging.buckets.map((b) => (receivablesAging.totals[b.key] || 0).toFixed(2)),
+      receivablesAging.grandTotal.toFixed(2),
+    ];
+    downloadCSV([headers, ...rows, totals], `receivables-aging-${receivablesAging.asOf}.csv`);
+  };
+
   const FilterSection = () => (
     <Card className="mb-4">
       <CardHeader className="pb-3">
@@ -590,6 +710,18 @@ export default function Reports() {
             <BarChart3 className="h-4 w-4 mr-1" />
             Charts
           </TabsTrigger>
+          <TabsTrigger value="aging" data-testid="tab-aging">
+            <Clock className="h-4 w-4 mr-1" />
+            Receivables Aging
+          </TabsTrigger>
+          <TabsTrigger value="profit-loss" data-testid="tab-profit-loss">
+            <Wallet className="h-4 w-4 mr-1" />
+            Profit &amp; Loss
+          </TabsTrigger>
+          <TabsTrigger value="gstr1" data-testid="tab-gstr1">
+            <Landmark className="h-4 w-4 mr-1" />
+            GSTR-1
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="sales" className="space-y-4">
@@ -623,6 +755,7 @@ export default function Reports() {
                         <TableHead className="text-right">Subtotal</TableHead>
                         <TableHead className="text-right">Hamali</TableHead>
                         <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Outstanding</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -671,6 +804,19 @@ export default function Reports() {
                           <TableCell className="text-right font-mono font-semibold">
                             {formatCurrency(inv.grandTotal)}
                           </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <span className="font-mono text-sm">
+                                {formatCurrency(settlementByInvoice.get(inv.id)?.outstanding ?? inv.grandTotal)}
+                              </span>
+                              <Badge
+                                variant={settlementByInvoice.get(inv.id)?.status === "paid" ? "default" : "outline"}
+                                className="capitalize"
+                              >
+                                {settlementByInvoice.get(inv.id)?.status || "unpaid"}
+                              </Badge>
+                            </div>
+                          </TableCell>
                         </TableRow>
                       ))}
                       <TableRow className="bg-muted/50 font-semibold">
@@ -690,6 +836,9 @@ export default function Reports() {
                         <TableCell className="text-right font-mono text-primary">
                           {formatCurrency(summary.totalSales)}
                         </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatCurrency(summary.totalRemaining)}
+                        </TableCell>
                       </TableRow>
                     </TableBody>
                   </Table>
@@ -850,6 +999,391 @@ export default function Reports() {
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="aging" className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-end justify-between gap-4 flex-wrap">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  Receivables Aging
+                </CardTitle>
+                <div className="flex items-end gap-2">
+                  <div className="space-y-2">
+                    <Label>As of</Label>
+                    <Input
+                      type="date"
+                      value={agingAsOf}
+                      onChange={(e) => setAgingAsOf(e.target.value || today)}
+                      className="w-40"
+                      data-testid="input-aging-as-of"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={downloadReceivablesAgingReport}
+                    disabled={!receivablesAging || receivablesAging.customers.length === 0}
+                    data-testid="button-download-aging"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Aging CSV
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {agingLoading ? (
+                <Skeleton className="h-48" />
+              ) : !receivablesAging || receivablesAging.customers.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Users className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>No open invoices as of this date</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Customer</TableHead>
+                        {receivablesAging.buckets.map((bucket) => (
+                          <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {receivablesAging.customers.map((row) => (
+                        <TableRow key={row.customerId} data-testid={`row-aging-${row.customerId}`}>
+                          <TableCell>
+                            <div className="font-medium">{row.customerName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {row.invoices.length} open invoice{row.invoices.length === 1 ? "" : "s"}
+                            </div>
+                          </TableCell>
+                          {receivablesAging.buckets.map((bucket) => (
+                            <TableCell key={bucket.key} className="text-right font-mono text-sm">
+                              {row.buckets[bucket.key] ? formatCurrency(row.buckets[bucket.key]) : "-"}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-mono font-semibold">
+                            {formatCurrency(row.total)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-muted/50 font-semibold">
+                        <TableCell>TOTAL</TableCell>
+                        {receivablesAging.buckets.map((bucket) => (
+                          <TableCell key={bucket.key} className="text-right font-mono">
+                            {formatCurrency(receivablesAging.totals[bucket.key] || 0)}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono text-primary">
+                          {formatCurrency(receivablesAging.grandTotal)}
+                        </TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="profit-loss" className="space-y-4">
+          <div className="flex items-end gap-4 flex-wrap">
+            <div className="space-y-2">
+              <Label>From Date</Label>
+              <Input
+                type="date"
+                value={plStartDate}
+                onChange={(e) => setPlStartDate(e.target.value)}
+                className="w-40"
+                data-testid="input-pl-start-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To Date</Label>
+              <Input
+                type="date"
+                value={plEndDate}
+                onChange={(e) => setPlEndDate(e.target.value)}
+                className="w-40"
+                data-testid="input-pl-end-date"
+              />
+            </div>
+          </div>
+          {profitLossLoading || !profitLoss ? (
+            <Skeleton className="h-48" />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {[
+                  { key: "sales", label: "Sales", value: profitLoss.totalSales },
+                  { key: "cogs", label: "Cost of Goods Sold", value: profitLoss.costOfGoodsSold },
+                  { key: "gross-profit", label: "Gross Profit", value: profitLoss.grossProfit },
+                  { key: "expenses", label: "Expenses", value: profitLoss.totalExpenses },
+                  { key: "net-profit", label: "Net Profit", value: profitLoss.netProfit },
+                ].map((figure) => (
+                  <Card key={figure.key}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium text-muted-foreground">{figure.label}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div
+                        className={`text-xl font-bold font-mono ${figure.key === "net-profit" ? (figure.value < 0 ? "text-destructive" : "text-green-600 dark:text-green-500") : ""}`}
+                        data-testid={`text-pl-${figure.key}`}
+                      >
+                        {formatCurrency(figure.value)}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Profit &amp; Loss Statement</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell>Sales</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatCurrency(profitLoss.totalSales + profitLoss.totalSalesReturns)}
+                          </TableCell>
+                        </TableRow>
+                        {profitLoss.totalSalesReturns > 0 && (
+                          <TableRow>
+                            <TableCell>Less: Sales Returns</TableCell>
+                            <TableCell className="text-right font-mono">{formatCurrency(profitLoss.totalSalesReturns)}</TableCell>
+                          </TableRow>
+                        )}
+                        <TableRow>
+                          <TableCell>Less: Cost of Goods Sold</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(profitLoss.costOfGoodsSold)}</TableCell>
+                        </TableRow>
+                        {profitLoss.commissionIncome > 0 && (
+                          <TableRow>
+                            <TableCell>Add: Commission &amp; Charges</TableCell>
+                            <TableCell className="text-right font-mono">{formatCurrency(profitLoss.commissionIncome)}</TableCell>
+                          </TableRow>
+                        )}
+                        <TableRow className="font-semibold">
+                          <TableCell>Gross Profit</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(profitLoss.grossProfit)}</TableCell>
+                        </TableRow>
+                        {profitLoss.expensesByCategory.map((expense) => (
+                          <TableRow key={expense.category}>
+                            <TableCell className="pl-8 text-muted-foreground">Less: {expense.label}</TableCell>
+                            <TableCell className="text-right font-mono">{formatCurrency(expense.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow className="bg-muted/50 font-semibold">
+                          <TableCell>Net Profit</TableCell>
+                          <TableCell className="text-right font-mono text-primary">{formatCurrency(profitLoss.netProfit)}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                    <p className="text-xs text-muted-foreground mt-3" data-testid="text-pl-purchases">
+                      Net purchases in the period: {formatCurrency(profitLoss.netPurchases)}. Stock bought but not
+                      yet sold is not part of the cost of goods sold.
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Expenses Breakdown</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {profitLoss.expensesByCategory.length === 0 ? (
+                      <div className="h-64 flex items-center justify-center text-muted-foreground">
+                        No expenses recorded
+                      </div>
+                    ) : (
+                      <ResponsiveContainer width="100%" height={280}>
+                        <PieChart>
+                          <Pie
+                            data={profitLoss.expensesByCategory}
+                            cx="50%"
+                            cy="50%"
+                            innerRadius={60}
+                            outerRadius={100}
+                            paddingAngle={2}
+                            dataKey="amount"
+                            nameKey="label"
+                            label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                            labelLine={false}
+                          >
+                            {profitLoss.expensesByCategory.map((_, index) => (
+                              <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                            ))}
+                          </Pie>
+                          <Tooltip
+                            formatter={(value: number) => formatCurrency(value)}
+                            contentStyle={{
+                              backgroundColor: "hsl(var(--card))",
+                              border: "1px solid hsl(var(--border))",
+                              borderRadius: "8px",
+                            }}
+                          />
+                          <Legend />
+                        </PieChart>
+                      </ResponsiveContainer>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-end justify-between gap-4 flex-wrap">
+                    <CardTitle className="text-base">Gross Margin</CardTitle>
+                    <div className="space-y-2">
+                      <Label>By</Label>
+                      <Select value={marginDimension} onValueChange={(v) => setMarginDimension(v as MarginDimension)}>
+                        <SelectTrigger className="w-40" data-testid="select-margin-dimension">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MARGIN_DIMENSIONS.map((dimension) => (
+                            <SelectItem key={dimension.key} value={dimension.key}>{dimension.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {profitLoss.margins[marginDimension].length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">No sales in this period</div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{MARGIN_DIMENSIONS.find((d) => d.key === marginDimension)?.label}</TableHead>
+                          {marginDimension === "byProduct" && <TableHead className="text-right">Qty Sold</TableHead>}
+                          <TableHead className="text-right">Sales</TableHead>
+                          <TableHead className="text-right">Cost</TableHead>
+                          <TableHead className="text-right">Margin</TableHead>
+                          <TableHead className="text-right">Margin %</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {profitLoss.margins[marginDimension].map((row) => (
+                          <TableRow key={row.key ?? "none"} data-testid={`row-margin-${row.key ?? "none"}`}>
+                            <TableCell className="font-medium">{row.name}</TableCell>
+                            {marginDimension === "byProduct" && (
+                              <TableCell className="text-right font-mono">{row.quantity.toFixed(2)}</TableCell>
+                            )}
+                            <TableCell className="text-right font-mono">{formatCurrency(row.sales)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatCurrency(row.cost)}</TableCell>
+                            <TableCell className={`text-right font-mono font-semibold ${row.grossMargin < 0 ? "text-destructive" : ""}`}>
+                              {formatCurrency(row.grossMargin)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{row.marginPercent.toFixed(1)}%</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="gstr1" className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-end justify-between gap-4 flex-wrap">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Landmark className="h-4 w-4" />
+                  GSTR-1 Outward Supplies
+                </CardTitle>
+                <div className="flex items-end gap-2">
+                  <div className="space-y-2">
+                    <Label>Return Period</Label>
+                    <Input
+                      type="month"
+                      value={gstr1Period}
+                      onChange={(e) => setGstr1Period(e.target.value)}
+                      className="w-44"
+                      data-testid="input-gstr1-period"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={downloadGstr1JSON}
+                    disabled={!gstr1}
+                    data-testid="button-download-gstr1-json"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    JSON
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {gstr1Loading ? (
+                <Skeleton className="h-48" />
+              ) : gstr1Error ? (
+                <div className="border border-destructive/50 rounded-md p-4 text-sm space-y-1" data-testid="text-gstr1-error">
+                  {describeGstr1Error(gstr1Error).map((message, index) => (
+                    <p key={index} className={index === 0 ? "font-medium text-destructive" : "text-muted-foreground"}>
+                      {message}
+                    </p>
+                  ))}
+                </div>
+              ) : gstr1 ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {gstr1.invoiceCount} invoice{gstr1.invoiceCount === 1 ? "" : "s"} and {gstr1.creditNoteCount} credit
+                    note{gstr1.creditNoteCount === 1 ? "" : "s"} in {gstr1.period} for GSTIN{" "}
+                    <span className="font-mono">{gstr1.json.gstin}</span>. The JSON validates against the GSTR-1
+                    return layout and can be imported into the offline tool.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Section</TableHead>
+                        <TableHead className="text-right">Rows</TableHead>
+                        <TableHead className="text-right">CSV</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {GSTR1_SECTIONS.map((section) => {
+                        const rows = gstr1.csv[section.key];
+                        return (
+                          <TableRow key={section.key} data-testid={`row-gstr1-${section.key}`}>
+                            <TableCell className="font-medium">{section.label}</TableCell>
+                            <TableCell className="text-right font-mono">{rows.length - 1}</TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => downloadCSV(rows, `${section.key}_${gstr1.json.fp}.csv`)}
+                                disabled={rows.length <= 1}
+                                data-testid={`button-download-gstr1-${section.key}`}
+                              >
+                                <Download className="h-4 w-4 mr-1" />
+                                {section.key}.csv
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
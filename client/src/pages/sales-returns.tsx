@@ -0,0 +1,443 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Plus, Search, Undo2, AlertTriangle } from "lucide-react";
+import type { Customer, Invoice, InvoiceItem, Product, SalesReturn } from "@shared/schema";
+import { calculateLineTax } from "@shared/gst";
+import { roundMoney } from "@shared/money";
+
+type ReturnCondition = "restock" | "damaged";
+
+interface ReturnLineInput {
+  quantity: string;
+  condition: ReturnCondition;
+  reason: string;
+}
+
+const RETURN_REASONS = [
+  "Rotten/Spoiled",
+  "Damaged in Transit",
+  "Quality Issue",
+  "Wrong Item",
+  "Excess Supplied",
+  "Other",
+];
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export default function SalesReturns() {
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [customerId, setCustomerId] = useState("");
+  const [invoiceId, setInvoiceId] = useState("");
+  const [date, setDate] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<Record<string, ReturnLineInput>>({});
+
+  const { data: customers = [], isLoading: customersLoading } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const { data: salesReturns = [], isLoading: returnsLoading } = useQuery<SalesReturn[]>({
+    queryKey: ["/api/sales-returns"],
+  });
+
+  const { data: invoiceItems = [] } = useQuery<InvoiceItem[]>({
+    queryKey: ["/api/invoices", invoiceId, "items"],
+    enabled: !!invoiceId,
+  });
+
+  const { data: returnedQuantities = {} } = useQuery<Record<string, number>>({
+    queryKey: ["/api/invoices", invoiceId, "returned-quantities"],
+    enabled: !!invoiceId,
+    staleTime: 0,
+  });
+
+  const getCustomerName = (id: string) => customers.find((c) => c.id === id)?.name || "Unknown";
+  const getProduct = (id: string) => products.find((p) => p.id === id);
+
+  const customerInvoices = invoices
+    .filter((invoice) => invoice.customerId === customerId && invoice.status !== "void")
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const selectedInvoice = invoices.find((invoice) => invoice.id === invoiceId);
+  // Credit notes carry IGST only when the invoice did
+  const interState = !!selectedInvoice && selectedInvoice.igstAmount > 0;
+
+  const getLine = (itemId: string): ReturnLineInput =>
+    lines[itemId] ?? { quantity: "", condition: "restock", reason: "" };
+  const updateLine = (itemId: string, changes: Partial<ReturnLineInput>) => {
+    setLines({ ...lines, [itemId]: { ...getLine(itemId), ...changes } });
+  };
+
+  const returningItems = invoiceItems
+    .map((item) => ({ item, line: getLine(item.id), quantity: parseFloat(getLine(item.id).quantity) || 0 }))
+    .filter(({ quantity }) => quantity > 0);
+
+  // Preview only; the server prices the credit note from the invoice
+  const creditPreview = returningItems.reduce((sum, { item, quantity }) => {
+    const taxable = roundMoney(quantity * item.unitPrice);
+    const tax = calculateLineTax(taxable, item.gstRate, interState);
+    return sum + taxable + tax.cgstAmount + tax.sgstAmount + tax.igstAmount;
+  }, 0);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/sales-returns", {
+        invoiceId,
+        date,
+        notes: notes.trim() || undefined,
+        items: returningItems.map(({ item, line, quantity }) => ({
+          invoiceItemId: item.id,
+          quantity,
+          condition: line.condition,
+          reason: line.reason,
+        })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sales-returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoice-settlements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/customer-balances"] });
+      setIsDialogOpen(false);
+      toast({ title: "Credit note issued", description: "Print it from the Print Center." });
+    },
+    onError: (error: Error) => {
+      let description = "Failed to record the sales return.";
+      try {
+        description = JSON.parse(error.message.replace(/^\d{3}: /, "")).error ?? description;
+      } catch {
+        // keep the generic message
+      }
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (returningItems.length === 0) {
+      toast({ title: "Enter a return quantity for at least one item", variant: "destructive" });
+      return;
+    }
+    if (returningItems.some(({ line }) => !line.reason)) {
+      toast({ title: "Select a reason for every returned item", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const openDialog = () => {
+    setCustomerId("");
+    setInvoiceId("");
+    setDate(today());
+    setNotes("");
+    setLines({});
+    setIsDialogOpen(true);
+  };
+
+  const filteredReturns = salesReturns
+    .filter((salesReturn) => {
+      const query = searchQuery.toLowerCase();
+      return getCustomerName(salesReturn.customerId).toLowerCase().includes(query)
+        || salesReturn.creditNoteNumber.toLowerCase().includes(query);
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  if (customersLoading || returnsLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Sales Returns</h1>
+          <p className="text-muted-foreground">
+            Take back goods from customers and issue credit notes
+          </p>
+        </div>
+        <Button onClick={openDialog} data-testid="button-create-sales-return">
+          <Plus className="h-4 w-4 mr-2" />
+          Record Return
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Undo2 className="h-5 w-5" />
+              Credit Notes
+            </CardTitle>
+            <div className="relative w-64">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search credit notes..."
+                className="pl-9"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                data-testid="input-search-sales-returns"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredReturns.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <AlertTriangle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No sales returns found</p>
+              <p className="text-sm">Record a return to issue a credit note</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Credit Note</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredReturns.map((salesReturn) => (
+                  <TableRow key={salesReturn.id} data-testid={`row-sales-return-${salesReturn.id}`}>
+                    <TableCell className="font-mono">{salesReturn.creditNoteNumber}</TableCell>
+                    <TableCell>{salesReturn.date}</TableCell>
+                    <TableCell>{getCustomerName(salesReturn.customerId)}</TableCell>
+                    <TableCell className="font-mono">
+                      {invoices.find((i) => i.id === salesReturn.invoiceId)?.invoiceNumber || "-"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(salesReturn.totalAmount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record Sales Return</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Customer</Label>
+                <Select
+                  value={customerId}
+                  onValueChange={(value) => {
+                    setCustomerId(value);
+                    setInvoiceId("");
+                    setLines({});
+                  }}
+                >
+                  <SelectTrigger data-testid="select-return-customer">
+                    <SelectValue placeholder="Select customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id}>
+                        {customer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Invoice</Label>
+                <Select
+                  value={invoiceId}
+                  onValueChange={(value) => {
+                    setInvoiceId(value);
+                    setLines({});
+                  }}
+                  disabled={!customerId}
+                >
+                  <SelectTrigger data-testid="select-return-invoice">
+                    <SelectValue placeholder="Select invoice" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customerInvoices.map((invoice) => (
+                      <SelectItem key={invoice.id} value={invoice.id}>
+                        {invoice.invoiceNumber} - {invoice.date} ({formatCurrency(invoice.grandTotal)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="returnDate">Date</Label>
+                <Input
+                  id="returnDate"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  data-testid="input-return-date"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="returnNotes">Notes (Optional)</Label>
+                <Input
+                  id="returnNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Add notes..."
+                  data-testid="input-return-notes"
+                />
+              </div>
+            </div>
+
+            {selectedInvoice && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Sold</TableHead>
+                    <TableHead className="text-right">Returnable</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="w-28">Return Qty</TableHead>
+                    <TableHead className="w-36">Goods</TableHead>
+                    <TableHead className="w-44">Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoiceItems.map((item) => {
+                    const line = getLine(item.id);
+                    const returnable = roundMoney(item.quantity - (returnedQuantities[item.id] ?? 0));
+                    const product = getProduct(item.productId);
+                    return (
+                      <TableRow key={item.id} data-testid={`row-return-item-${item.id}`}>
+                        <TableCell>{product?.name || "Unknown"}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {item.quantity} {product?.unit}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{returnable}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(item.unitPrice)}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={returnable}
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                            disabled={returnable <= 0}
+                            data-testid={`input-return-qty-${item.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={line.condition}
+                            onValueChange={(value) => updateLine(item.id, { condition: value as ReturnCondition })}
+                          >
+                            <SelectTrigger data-testid={`select-return-condition-${item.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="restock">Back to stock</SelectItem>
+                              <SelectItem value="damaged">Damaged</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select value={line.reason} onValueChange={(value) => updateLine(item.id, { reason: value })}>
+                            <SelectTrigger data-testid={`select-return-reason-${item.id}`}>
+                              <SelectValue placeholder="Reason" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RETURN_REASONS.map((reason) => (
+                                <SelectItem key={reason} value={reason}>
+                                  {reason}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {returningItems.length > 0 && (
+              <div className="flex justify-end">
+                <div className="text-right">
+                  <p className="text-sm text-muted-foreground">Credit Amount (incl. GST)</p>
+                  <p className="text-2xl font-bold font-mono" data-testid="text-credit-preview">
+                    {formatCurrency(creditPreview)}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={createMutation.isPending || returningItems.length === 0}
+                data-testid="button-submit-sales-return"
+              >
+                {createMutation.isPending ? "Issuing..." : "Issue Credit Note"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
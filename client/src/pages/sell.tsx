@@ -17,7 +17,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Truck, Plus, Package, X, Check, Minus, Weight, ShoppingBag } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Vehicle, Product, VehicleInventory, Vendor, Customer } from "@shared/schema";
+import type { Vehicle, Product, VehicleInventory, Vendor, Customer, Invoice } from "@shared/schema";
+import { calculateHamaliCharge, calculateInvoiceTotals } from "@shared/pricing";
 
 const productItemSchema = z.object({
   productId: z.string(),
@@ -76,6 +77,22 @@ interface VehicleSalePaneProps {
   onSaleComplete: () => void;
 }
 
+// Server errors arrive as "<status>: <json body>"; list stock shortages when the sale was refused for them
+function getSaleErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body) as { error?: string; shortages?: { productName: string; available: number; requested: number }[] };
+    if (parsed.shortages?.length) {
+      return parsed.shortages
+        .map(s => `${s.productName}: only ${s.available} left in vehicle, ${s.requested} requested`)
+        .join(". ");
+    }
+    return parsed.error || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
 function VehicleSalePane({ 
   vehicle, 
   inventory, 
@@ -130,7 +147,10 @@ function VehicleSalePane({
     }
 
     const newTotalBags = newProducts.reduce((sum, p) => sum + (p.bags || 0), 0);
-    const newHamaliCharge = newTotalBags * draft.hamaliRatePerBag;
+    const newHamaliCharge = calculateHamaliCharge(
+      { includeHamaliCharge: true, hamaliRatePerKg: 0, hamaliRatePerBag: draft.hamaliRatePerBag, bags: newTotalBags },
+      0
+    );
 
     onUpdateDraft({
       ...draft,
@@ -160,9 +180,31 @@ function VehicleSalePane({
     return draft.products.reduce((sum, p) => sum + (p.bags || 0), 0);
   }, [draft.products]);
 
-  const saleSubtotal = useMemo(() => {
-    return draft.products.reduce((sum, p) => sum + (p.weight * p.price), 0);
-  }, [draft.products]);
+  // Vehicle sales charge Hamali per bag only - priced with the same rules the server applies
+  const saleTotals = useMemo(() => {
+    return calculateInvoiceTotals(
+      draft.products
+        .filter(p => p.weight > 0)
+        .map(p => ({
+          productId: p.productId,
+          quantity: p.weight,
+          unitPrice: p.price,
+          unit: p.unit,
+          gstRate: products.find(product => product.id === p.productId)?.gstRate,
+        })),
+      {
+        includeHamaliCharge: draft.hamaliCharge > 0,
+        hamaliRatePerKg: 0,
+        hamaliRatePerBag: draft.hamaliRatePerBag,
+        bags: saleTotalBags,
+        hamaliPaidByCash: false,
+      }
+    );
+  }, [draft.products, products, draft.hamaliCharge, draft.hamaliRatePerBag, saleTotalBags]);
+
+  const saleTax = saleTotals.cgstAmount + saleTotals.sgstAmount + saleTotals.igstAmount;
+
+  const saleSubtotal = saleTotals.subtotal;
 
   const createSaleMutation = useMutation({
     mutationKey: ['/api/invoices', 'create', vehicle.id],
@@ -190,87 +232,43 @@ function VehicleSalePane({
         }
       }
 
-      let customerId = draft.selectedCustomerId;
-      if (!customerId && draft.customerName.trim()) {
-        const customerRes = await apiRequest("POST", "/api/customers", {
-          name: draft.customerName.trim(),
-          phone: "",
-          address: "",
-          email: "",
-        });
-        const newCustomer = await customerRes.json();
-        customerId = newCustomer.id;
-      }
-
-      if (!customerId) {
+      if (!draft.selectedCustomerId && !draft.customerName.trim()) {
         throw new Error("Please select or enter a customer name");
       }
 
-      const subtotal = draft.products.reduce((sum, p) => sum + (p.weight * p.price), 0);
-
       const today = new Date().toISOString().split('T')[0];
-      const invoiceNumber = `INV-${Date.now()}`;
 
-      const items = draft.products
-        .filter(p => p.weight > 0)
-        .map(saleProduct => ({
-          productId: saleProduct.productId,
-          quantity: saleProduct.weight,
-          unitPrice: saleProduct.price,
-          total: saleProduct.weight * saleProduct.price,
-        }));
-
-      const invoiceRes = await apiRequest("POST", "/api/invoices", {
-        invoiceNumber,
-        customerId,
-        vehicleId: vehicle.id,
-        vendorId: vehicle.vendorId || null,
+      // The server checks vehicle stock, creates the invoice (and any new customer)
+      // and deducts the vehicle inventory in a single transaction
+      const saleRes = await apiRequest("POST", `/api/vehicles/${vehicle.id}/sales`, {
+        customerId: draft.selectedCustomerId || undefined,
+        customerName: draft.selectedCustomerId ? undefined : draft.customerName.trim(),
         date: today,
-        subtotal,
+        subtotal: saleTotals.subtotal,
         includeHamaliCharge: draft.hamaliCharge > 0,
         hamaliRatePerKg: 0,
-        hamaliChargeAmount: draft.hamaliCharge,
+        hamaliChargeAmount: saleTotals.hamaliChargeAmount,
         hamaliPaidByCash: false,
-        totalKgWeight: saleTotalWeight,
         bags: saleTotalBags,
         hamaliRatePerBag: draft.hamaliRatePerBag,
-        grandTotal: subtotal + draft.hamaliCharge,
-        items,
+        grandTotal: saleTotals.grandTotal,
+        items: saleTotals.items,
       });
 
-      const invoice = await invoiceRes.json();
-
-      for (const saleProduct of draft.products) {
-        const currentInventory = inventory.find(i => i.productId === saleProduct.productId);
-        if (currentInventory) {
-          const newQuantity = Math.max(0, currentInventory.quantity - saleProduct.weight);
-          await apiRequest("PATCH", `/api/vehicles/${vehicle.id}/inventory/${saleProduct.productId}`, {
-            quantity: newQuantity,
-          });
-
-          await apiRequest("POST", "/api/vehicle-inventory-movements", {
-            vehicleId: vehicle.id,
-            productId: saleProduct.productId,
-            type: "sale",
-            quantity: saleProduct.weight,
-            date: today,
-            notes: `Sold to ${draft.customerName}`,
-          });
-        }
-      }
-
+      const invoice: Invoice = await saleRes.json();
       return invoice;
     },
-    onSuccess: () => {
+    onSuccess: (invoice) => {
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
       queryClient.invalidateQueries({ queryKey: ["/api/all-vehicle-inventories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicle-inventory-movements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       
       toast({
         title: "Sale Created",
-        description: `Invoice created for ${vehicle.number}.`,
+        description: `Invoice ${invoice.invoiceNumber} created for ${vehicle.number}.`,
       });
 
       onSaleComplete();
@@ -278,14 +276,14 @@ function VehicleSalePane({
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create sale.",
+        description: getSaleErrorMessage(error) || "Failed to create sale.",
         variant: "destructive",
       });
     },
   });
 
   const hasProductsWithWeight = draft.products.some(p => p.weight > 0);
-  const grandTotal = saleSubtotal + draft.hamaliCharge;
+  const grandTotal = saleTotals.grandTotal;
   
   // Check if vehicle is new (today's date)
   const today = new Date().toISOString().split("T")[0];
@@ -424,7 +422,10 @@ function VehicleSalePane({
               onUpdateDraft({ 
                 ...draft, 
                 hamaliRatePerBag: rate,
-                hamaliCharge: saleTotalBags * rate
+                hamaliCharge: calculateHamaliCharge(
+                  { includeHamaliCharge: true, hamaliRatePerKg: 0, hamaliRatePerBag: rate, bags: saleTotalBags },
+                  0
+                )
               });
             }}
             data-testid={`input-hamali-rate-${vehicle.id}`}
@@ -446,6 +447,12 @@ function VehicleSalePane({
             <span className="text-muted-foreground">Subtotal:</span>
             <span>₹{saleSubtotal.toFixed(0)}</span>
           </div>
+          {saleTax > 0 && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">GST:</span>
+              <span data-testid={`text-gst-${vehicle.id}`}>₹{saleTax.toFixed(0)}</span>
+            </div>
+          )}
           <div className="flex items-center justify-between text-xs">
             <span className="text-muted-foreground">Hamali:</span>
             <span>₹{draft.hamaliCharge.toFixed(0)}</span>
@@ -8,21 +8,29 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Building2, Save } from "lucide-react";
-import type { CompanySettings } from "@shared/schema";
+import type { PublicCompanySettings } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GST_STATES } from "@shared/gst";
+import { INVOICE_PREFIX_PATTERN, formatDocumentNumber, getFinancialYear } from "@shared/numbering";
 
 export default function Settings() {
   const { toast } = useToast();
+  const currentFinancialYear = getFinancialYear(new Date().toISOString().split("T")[0]);
   const [formData, setFormData] = useState({
     name: "",
     address: "",
     phone: "",
     email: "",
     gstNumber: "",
+    state: "",
     bankDetails: "",
+    invoicePrefix: "INV",
+    invoiceLockDate: "",
+    ownerOverrideCode: "",
   });
 
-  const { data: companySettings, isLoading } = useQuery<CompanySettings | null>({
+  const { data: companySettings, isLoading } = useQuery<PublicCompanySettings | null>({
     queryKey: ["/api/company-settings"],
   });
 
@@ -34,14 +42,23 @@ export default function Settings() {
         phone: companySettings.phone || "",
         email: companySettings.email || "",
         gstNumber: companySettings.gstNumber || "",
+        state: companySettings.state || "",
         bankDetails: companySettings.bankDetails || "",
+        invoicePrefix: companySettings.invoicePrefix || "INV",
+        invoiceLockDate: companySettings.invoiceLockDate || "",
+        ownerOverrideCode: "",
       });
     }
   }, [companySettings]);
 
   const saveSettings = useMutation({
     mutationFn: async (data: typeof formData) => {
-      return apiRequest("POST", "/api/company-settings", data);
+      return apiRequest("POST", "/api/company-settings", {
+        ...data,
+        state: data.state || null,
+        invoiceLockDate: data.invoiceLockDate || null,
+        ownerOverrideCode: data.ownerOverrideCode || undefined,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/company-settings"] });
@@ -58,6 +75,14 @@ export default function Settings() {
       toast({ title: "Validation Error", description: "Company name is required.", variant: "destructive" });
       return;
     }
+    if (!INVOICE_PREFIX_PATTERN.test(formData.invoicePrefix)) {
+      toast({ title: "Validation Error", description: "Invoice prefix must be 1 to 3 letters, numbers or hyphens.", variant: "destructive" });
+      return;
+    }
+    if (formData.ownerOverrideCode && formData.ownerOverrideCode.length < 4) {
+      toast({ title: "Validation Error", description: "Owner override code must be at least 4 characters.", variant: "destructive" });
+      return;
+    }
     saveSettings.mutate(formData);
   };
 
@@ -135,6 +160,71 @@ export default function Settings() {
                   data-testid="input-gst-number"
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="state">State</Label>
+                <Select
+                  value={formData.state || "none"}
+                  onValueChange={(value) => setFormData({ ...formData, state: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger id="state" data-testid="select-company-state">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">From GST number</SelectItem>
+                    {GST_STATES.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>
+                        {state.code} - {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Sales to customers in another state are billed with IGST instead of CGST and SGST
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="invoicePrefix">Invoice Number Prefix</Label>
+                <Input
+                  id="invoicePrefix"
+                  value={formData.invoicePrefix}
+                  onChange={(e) => setFormData({ ...formData, invoicePrefix: e.target.value.trim() })}
+                  placeholder="INV"
+                  maxLength={3}
+                  data-testid="input-invoice-prefix"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Invoices are numbered {formatDocumentNumber(formData.invoicePrefix || "INV", currentFinancialYear, 1)} and restart every April
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="invoiceLockDate">Invoice Lock Date</Label>
+                <Input
+                  id="invoiceLockDate"
+                  type="date"
+                  value={formData.invoiceLockDate}
+                  onChange={(e) => setFormData({ ...formData, invoiceLockDate: e.target.value })}
+                  data-testid="input-invoice-lock-date"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Invoices dated on or before this day, and fully paid invoices, can only be edited with the owner override code
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ownerOverrideCode">Owner Override Code</Label>
+                <Input
+                  id="ownerOverrideCode"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.ownerOverrideCode}
+                  onChange={(e) => setFormData({ ...formData, ownerOverrideCode: e.target.value })}
+                  placeholder={companySettings?.hasOwnerOverride ? "Leave blank to keep the current code" : "Set a code"}
+                  data-testid="input-owner-override-code"
+                />
+              </div>
             </div>
 
             <div className="space-y-2">
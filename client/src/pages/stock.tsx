@@ -19,8 +19,9 @@ import {
   TrendingUp,
   TrendingDown,
   ArrowRight,
+  Layers,
 } from "lucide-react";
-import type { Product, Vehicle, Invoice } from "@shared/schema";
+import type { Product, Vehicle, Vendor, Invoice, StockLot } from "@shared/schema";
 
 type VehicleInventory = {
   vehicleId: string;
@@ -63,9 +64,26 @@ export default function Stock() {
     queryKey: ["/api/invoices"],
   });
 
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const { data: openLots = [] } = useQuery<StockLot[]>({
+    queryKey: ["/api/stock-lots?open=true"],
+    staleTime: 0,
+  });
+
   const getProductName = (id: string) => products.find((p) => p.id === id)?.name || "Unknown";
   const getProductUnit = (id: string) => products.find((p) => p.id === id)?.unit || "KG";
   const getVehicleNumber = (id: string) => vehicles.find((v) => v.id === id)?.number || "Unknown";
+  const getVendorName = (id: string | null) => (id && vendors.find((v) => v.id === id)?.name) || "-";
+
+  const lotSourceLabels: Record<string, string> = {
+    purchase: "Purchase",
+    vehicle_load: "Vehicle Load",
+    sales_return: "Sales Return",
+    adjustment: "Adjustment",
+  };
 
   const productSummary = useMemo(() => {
     const summary = new Map<string, {
@@ -353,6 +371,59 @@ export default function Stock() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Open Lots
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {openLots.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Layers className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No lots in stock</p>
+              <p className="text-sm">Each purchase line and vehicle load arrives as its own lot and is sold oldest first</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Arrived</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Held In</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openLots.map((lot) => (
+                  <TableRow key={lot.id} data-testid={`row-lot-${lot.id}`}>
+                    <TableCell>{lot.date}</TableCell>
+                    <TableCell className="font-medium">{getProductName(lot.productId)}</TableCell>
+                    <TableCell>{lot.vehicleId ? getVehicleNumber(lot.vehicleId) : "Warehouse"}</TableCell>
+                    <TableCell>{getVendorName(lot.vendorId)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{lotSourceLabels[lot.source] || lot.source}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {lot.remaining.toFixed(2)} / {lot.quantity.toFixed(2)} {getProductUnit(lot.productId)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(lot.unitCost)}</TableCell>
+                    <TableCell className="text-right font-mono font-semibold">
+                      {formatCurrency(lot.remaining * lot.unitCost)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="text-lg flex items-center gap-2">
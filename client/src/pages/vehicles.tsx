@@ -5,6 +5,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
@@ -126,6 +128,7 @@ export default function Vehicles() {
       capacity: vehicle.capacity || "",
       driverName: vehicle.driverName || "",
       driverPhone: vehicle.driverPhone || "",
+      commissionMode: vehicle.commissionMode,
     });
     setIsDialogOpen(true);
   };
@@ -286,6 +289,27 @@ export default function Vehicles() {
                     )}
                   />
                 </div>
+                {editingVehicle?.vendorId && (
+                  <FormField
+                    control={form.control}
+                    name="commissionMode"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-2 rounded-md border border-border p-3">
+                        <div>
+                          <FormLabel>Commission Load</FormLabel>
+                          <p className="text-xs text-muted-foreground">Sold on the farmer's behalf and settled by patti</p>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value ?? false}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-vehicle-commission-mode"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                )}
                 <div className="flex justify-end gap-2">
                   <Button
                     type="button"
@@ -364,7 +388,14 @@ export default function Vehicles() {
                 {filteredVehicles.map((vehicle) => (
                   <TableRow key={vehicle.id} data-testid={`row-vehicle-${vehicle.id}`}>
                     <TableCell className="font-medium font-mono">
-                      {vehicle.number}
+                      <div className="flex items-center gap-2">
+                        {vehicle.number}
+                        {vehicle.commissionMode && (
+                          <Badge variant="secondary" className="font-sans" data-testid={`badge-commission-${vehicle.id}`}>
+                            Commission
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>{vehicle.type}</TableCell>
                     <TableCell>
@@ -46,7 +46,7 @@ import {
   X,
   AlertTriangle,
 } from "lucide-react";
-import type { Vendor, Vehicle, Product, VendorReturn } from "@shared/schema";
+import type { Vendor, Vehicle, Product, Purchase, VendorReturn } from "@shared/schema";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 
@@ -70,6 +70,7 @@ const RETURN_REASONS = [
 
 const returnFormSchema = z.object({
   vendorId: z.string().min(1, "Please select a vendor"),
+  purchaseId: z.string().optional(),
   vehicleId: z.string().optional(),
   date: z.string().min(1, "Please select a date"),
   notes: z.string().optional(),
@@ -99,6 +100,10 @@ export default function VendorReturns() {
     queryKey: ["/api/products"],
   });
 
+  const { data: purchases = [] } = useQuery<Purchase[]>({
+    queryKey: ["/api/purchases"],
+  });
+
   const { data: vendorReturns = [], isLoading: returnsLoading } = useQuery<VendorReturn[]>({
     queryKey: ["/api/vendor-returns"],
   });
@@ -107,6 +112,7 @@ export default function VendorReturns() {
     resolver: zodResolver(returnFormSchema),
     defaultValues: {
       vendorId: "",
+      purchaseId: "",
       vehicleId: "",
       date: new Date().toISOString().split("T")[0],
       notes: "",
@@ -117,7 +123,8 @@ export default function VendorReturns() {
     mutationFn: async (data: ReturnFormData & { items: ReturnLineItem[] }) => {
       return apiRequest("POST", "/api/vendor-returns", {
         ...data,
-        vehicleId: data.vehicleId === "none" ? undefined : data.vehicleId,
+        purchaseId: !data.purchaseId || data.purchaseId === "none" ? undefined : data.purchaseId,
+        vehicleId: !data.vehicleId || data.vehicleId === "none" ? undefined : data.vehicleId,
         totalAmount: data.items.reduce((acc, item) => acc + item.total, 0),
         items: data.items.map((item) => ({
           productId: item.productId,
@@ -133,6 +140,7 @@ export default function VendorReturns() {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
       queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases"] });
       setIsDialogOpen(false);
       setLineItems([]);
       form.reset();
@@ -202,10 +210,25 @@ export default function VendorReturns() {
     createMutation.mutate({ ...data, items: lineItems });
   };
 
+  const selectedVendorId = form.watch("vendorId");
+  const vendorPurchases = purchases
+    .filter((purchase) => purchase.vendorId === selectedVendorId)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  // The referenced purchase's vehicle is printed on the debit note unless another is chosen
+  const handlePurchaseChange = (purchaseId: string) => {
+    form.setValue("purchaseId", purchaseId);
+    const purchase = purchases.find((p) => p.id === purchaseId);
+    if (purchase?.vehicleId && !form.getValues("vehicleId")) {
+      form.setValue("vehicleId", purchase.vehicleId);
+    }
+  };
+
   const filteredReturns = vendorReturns.filter((ret) => {
     const vendor = vendors.find((v) => v.id === ret.vendorId);
     const vendorName = vendor?.name.toLowerCase() || "";
-    return vendorName.includes(searchQuery.toLowerCase());
+    const query = searchQuery.toLowerCase();
+    return vendorName.includes(query) || (ret.debitNoteNumber ?? "").toLowerCase().includes(query);
   });
 
   const handleProductChange = (productId: string) => {
@@ -219,6 +242,7 @@ export default function VendorReturns() {
   const openDialog = () => {
     form.reset({
       vendorId: "",
+      purchaseId: "",
       vehicleId: "",
       date: new Date().toISOString().split("T")[0],
       notes: "",
@@ -242,7 +266,7 @@ export default function VendorReturns() {
         <div>
           <h1 className="text-2xl font-semibold">Vendor Returns</h1>
           <p className="text-muted-foreground">
-            Return defective or unwanted products to vendors
+            Return defective or unwanted products to vendors and print debit notes from the Print Center
           </p>
         </div>
         <Button onClick={openDialog} data-testid="button-create-return">
@@ -281,6 +305,7 @@ export default function VendorReturns() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead>Debit Note</TableHead>
                   <TableHead>Date</TableHead>
                   <TableHead>Vendor</TableHead>
                   <TableHead>Vehicle</TableHead>
@@ -294,6 +319,7 @@ export default function VendorReturns() {
                   const vehicle = vehicles.find((v) => v.id === ret.vehicleId);
                   return (
                     <TableRow key={ret.id} data-testid={`row-return-${ret.id}`}>
+                      <TableCell className="font-mono">{ret.debitNoteNumber ?? "-"}</TableCell>
                       <TableCell>{ret.date}</TableCell>
                       <TableCell>{vendor?.name || "Unknown"}</TableCell>
                       <TableCell>{vehicle?.number || "-"}</TableCell>
@@ -329,7 +355,13 @@ export default function VendorReturns() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Vendor</FormLabel>
-                      <Select onValueChange={field.onChange} value={field.value}>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("purchaseId", "");
+                        }}
+                        value={field.value}
+                      >
                         <FormControl>
                           <SelectTrigger data-testid="select-vendor">
                             <SelectValue placeholder="Select vendor" />
@@ -348,6 +380,32 @@ export default function VendorReturns() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="purchaseId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Against Purchase (Optional)</FormLabel>
+                      <Select onValueChange={handlePurchaseChange} value={field.value} disabled={!selectedVendorId}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-purchase">
+                            <SelectValue placeholder="Select purchase" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {vendorPurchases.map((purchase) => (
+                            <SelectItem key={purchase.id} value={purchase.id}>
+                              #{purchase.id.slice(0, 8)} - {purchase.date} (Rs {purchase.totalAmount.toFixed(2)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="vehicleId"
@@ -5,6 +5,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
@@ -41,8 +43,14 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { Plus, Search, Pencil, Trash2, Users, Phone, Mail, MapPin } from "lucide-react";
+import { Plus, Search, Pencil, Trash2, Users, Phone, Mail, MapPin, HandCoins } from "lucide-react";
 import { insertVendorSchema, type Vendor, type InsertVendor } from "@shared/schema";
+import { FarmerAdvancesDialog } from "@/components/farmer-advances-dialog";
+
+type VendorWithBalance = Vendor & { balance: number; outstandingAdvances: number };
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString("en-IN", { style: "currency", currency: "INR" });
 
 export default function Vendors() {
   const { toast } = useToast();
@@ -50,11 +58,18 @@ export default function Vendors() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
   const [deleteVendor, setDeleteVendor] = useState<Vendor | null>(null);
+  const [advancesVendor, setAdvancesVendor] = useState<Vendor | null>(null);
 
   const { data: vendors = [], isLoading } = useQuery<Vendor[]>({
     queryKey: ["/api/vendors"],
   });
 
+  const { data: vendorBalances = [] } = useQuery<VendorWithBalance[]>({
+    queryKey: ["/api/reports/vendor-balances"],
+  });
+
+  const getBalance = (id: string) => vendorBalances.find((b) => b.id === id);
+
   const form = useForm<InsertVendor>({
     resolver: zodResolver(insertVendorSchema),
     defaultValues: {
@@ -62,6 +77,9 @@ export default function Vendors() {
       phone: "",
       address: "",
       email: "",
+      paymentTermsDays: 0,
+      commissionMode: false,
+      commissionPercent: 0,
     },
   });
 
@@ -123,6 +141,9 @@ export default function Vendors() {
       phone: vendor.phone,
       address: vendor.address || "",
       email: vendor.email || "",
+      paymentTermsDays: vendor.paymentTermsDays,
+      commissionMode: vendor.commissionMode,
+      commissionPercent: vendor.commissionPercent,
     });
     setIsDialogOpen(true);
   };
@@ -134,6 +155,9 @@ export default function Vendors() {
       phone: "",
       address: "",
       email: "",
+      paymentTermsDays: 0,
+      commissionMode: false,
+      commissionPercent: 0,
     });
     setIsDialogOpen(true);
   };
@@ -245,6 +269,72 @@ export default function Vendors() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="paymentTermsDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Terms (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="0 = pay on delivery"
+                          {...field}
+                          value={field.value ?? 0}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          data-testid="input-vendor-payment-terms"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="commissionMode"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-2 rounded-md border border-border p-3">
+                        <div>
+                          <FormLabel>Commission Agent Mode</FormLabel>
+                          <p className="text-xs text-muted-foreground">Sell their loads on commission and settle by patti</p>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value ?? false}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-vendor-commission-mode"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  {form.watch("commissionMode") && (
+                    <FormField
+                      control={form.control}
+                      name="commissionPercent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Commission (%)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              step="0.1"
+                              {...field}
+                              value={field.value ?? 0}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              data-testid="input-vendor-commission-percent"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
                 <FormField
                   control={form.control}
                   name="address"
@@ -333,13 +423,24 @@ export default function Vendors() {
                   <TableHead>Phone</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Address</TableHead>
+                  <TableHead className="text-right">Payable</TableHead>
+                  <TableHead className="text-right">Advances Due</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredVendors.map((vendor) => (
                   <TableRow key={vendor.id} data-testid={`row-vendor-${vendor.id}`}>
-                    <TableCell className="font-medium">{vendor.name}</TableCell>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {vendor.name}
+                        {vendor.commissionMode && (
+                          <Badge variant="secondary" data-testid={`badge-commission-${vendor.id}`}>
+                            Commission {vendor.commissionPercent}%
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Phone className="h-3 w-3 text-muted-foreground" />
@@ -368,8 +469,27 @@ export default function Vendors() {
                         <span className="text-muted-foreground">-</span>
                       )}
                     </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatCurrency(getBalance(vendor.id)?.balance ?? 0)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono" data-testid={`text-advances-${vendor.id}`}>
+                      {(getBalance(vendor.id)?.outstandingAdvances ?? 0) > 0 ? (
+                        <span className="text-orange-600">{formatCurrency(getBalance(vendor.id)!.outstandingAdvances)}</span>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setAdvancesVendor(vendor)}
+                          title="Advances"
+                          data-testid={`button-advances-vendor-${vendor.id}`}
+                        >
+                          <HandCoins className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -416,6 +536,12 @@ export default function Vendors() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <FarmerAdvancesDialog
+        open={!!advancesVendor}
+        onOpenChange={(open) => !open && setAdvancesVendor(null)}
+        vendor={advancesVendor}
+      />
     </div>
   );
 }
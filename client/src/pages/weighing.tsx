@@ -24,7 +24,8 @@ import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Scale, Plus, Trash2, Truck, User, FileText, Wifi, WifiOff, RefreshCw, HandCoins, Settings } from "lucide-react";
-import type { Vehicle, Customer, Product, VehicleInventory } from "@shared/schema";
+import type { Vehicle, Customer, Product, VehicleInventory, Invoice, StockLot } from "@shared/schema";
+import { calculateInvoiceTotals, calculateLineTotal, isWeightBasedUnit } from "@shared/pricing";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Package } from "lucide-react";
@@ -39,16 +40,14 @@ type WeighingItem = {
   unit: string;
   unitPrice: number;
   total: number;
+  gstRate: number;
+  lotId?: string;
+  lotDate?: string;
 };
 
 // Unit classification helpers
-const WEIGHT_UNITS = ["KG", "Kg", "kg"];
 const COUNT_UNITS = ["Box", "Bag", "Crate", "Piece", "Dozen", "Bundle"];
 
-const isWeightBasedUnit = (unit: string): boolean => {
-  return WEIGHT_UNITS.some(u => u.toLowerCase() === unit.toLowerCase());
-};
-
 const getUnitLabel = (unit: string): string => {
   if (isWeightBasedUnit(unit)) return "Weight";
   return "Quantity";
@@ -60,6 +59,7 @@ export default function Weighing() {
   const [selectedCustomer, setSelectedCustomer] = useState<string>("");
   const [selectedProduct, setSelectedProduct] = useState<string>("");
   const [quantity, setQuantity] = useState<string>("");
+  const [selectedLot, setSelectedLot] = useState<string>(""); // empty sells oldest lot first
   const [weighingItems, setWeighingItems] = useState<WeighingItem[]>([]);
   // Hamali charge state - simplified with rate per KG and two checkboxes
   const [includeHamali, setIncludeHamali] = useState(false);
@@ -110,6 +110,17 @@ export default function Weighing() {
     return Math.max(0, baseQty - usedQty);
   };
 
+  // Open lots of the selected product where this bill sells from: the vehicle, or the warehouse
+  const { data: productLots = [] } = useQuery<StockLot[]>({
+    queryKey: [`/api/stock-lots?productId=${selectedProduct}&open=true`],
+    enabled: !!selectedProduct,
+    staleTime: 0,
+  });
+  const sellableLots = productLots.filter((lot) => lot.vehicleId === (selectedVehicle || null));
+
+  const formatLot = (lot: StockLot) =>
+    `${lot.date} @ ${lot.unitCost.toLocaleString("en-IN", { style: "currency", currency: "INR" })} (${lot.remaining} left)`;
+
   // Get selected product details
   const selectedProductData = products.find(p => p.id === selectedProduct);
   const isWeightBased = selectedProductData ? isWeightBasedUnit(selectedProductData.unit) : true;
@@ -229,7 +240,6 @@ export default function Weighing() {
     mutationFn: async (data: {
       customerId: string;
       vehicleId?: string;
-      invoiceNumber: string;
       date: string;
       subtotal: number;
       includeHamaliCharge: boolean;
@@ -238,11 +248,12 @@ export default function Weighing() {
       hamaliPaidByCash: boolean;
       totalKgWeight: number;
       grandTotal: number;
-      items: { productId: string; quantity: number; unitPrice: number; total: number }[];
+      items: { productId: string; quantity: number; unitPrice: number; total: number; lotId?: string }[];
     }) => {
-      return apiRequest("POST", "/api/invoices", data);
+      const res = await apiRequest("POST", "/api/invoices", data);
+      return res.json() as Promise<Invoice>;
     },
-    onSuccess: () => {
+    onSuccess: (invoice) => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles", selectedVehicle, "inventory"] });
@@ -252,7 +263,7 @@ export default function Weighing() {
       setSelectedVehicle("");
       setIncludeHamali(false);
       setHamaliPaidByCash(false);
-      toast({ title: "Invoice Created", description: "Weighing completed and invoice generated successfully." });
+      toast({ title: "Invoice Created", description: `Weighing completed and invoice ${invoice.invoiceNumber} generated successfully.` });
     },
     onError: () => {
       toast({ title: "Error", description: "Failed to create invoice.", variant: "destructive" });
@@ -287,7 +298,7 @@ export default function Weighing() {
       }
     }
     
-    const total = qtyNum * product.salePrice;
+    const total = calculateLineTotal(qtyNum, product.salePrice);
 
     const newItem: WeighingItem = {
       id: Date.now().toString(),
@@ -297,11 +308,15 @@ export default function Weighing() {
       unit: product.unit,
       unitPrice: product.salePrice,
       total,
+      gstRate: product.gstRate,
+      lotId: selectedLot || undefined,
+      lotDate: sellableLots.find((lot) => lot.id === selectedLot)?.date,
     };
 
     setWeighingItems([...weighingItems, newItem]);
     setSelectedProduct("");
     setQuantity("");
+    setSelectedLot("");
   };
 
   const incrementQuantity = () => {
@@ -320,19 +335,16 @@ export default function Weighing() {
     setWeighingItems(weighingItems.filter((item) => item.id !== id));
   };
 
-  const subtotal = weighingItems.reduce((sum, item) => sum + item.total, 0);
-  
-  // Calculate total KG weight from weight-based items only
-  const totalKgWeight = weighingItems
-    .filter(item => isWeightBasedUnit(item.unit))
-    .reduce((sum, item) => sum + item.quantity, 0);
-  
-  // Calculate Hamali amount based on rate per KG
-  const hamaliAmount = includeHamali ? totalKgWeight * parseFloat(hamaliRatePerKg || "0") : 0;
-  
-  // Grand total: Add hamali only if NOT paid by cash
-  // If paid by cash, hamali is recorded separately and not added to invoice
-  const grandTotal = subtotal + (includeHamali && !hamaliPaidByCash ? hamaliAmount : 0);
+  // Same pricing rules the server applies: Hamali per KG of weight-based items,
+  // left out of the grand total when paid by cash
+  const totals = calculateInvoiceTotals(weighingItems, {
+    includeHamaliCharge: includeHamali,
+    hamaliRatePerKg: parseFloat(hamaliRatePerKg || "0"),
+    hamaliPaidByCash,
+  });
+  const { subtotal, totalKgWeight, grandTotal } = totals;
+  const hamaliAmount = totals.hamaliChargeAmount;
+  const gstAmount = totals.cgstAmount + totals.sgstAmount + totals.igstAmount;
 
   const handleGenerateInvoice = () => {
     if (!selectedCustomer) {
@@ -345,13 +357,11 @@ export default function Weighing() {
       return;
     }
 
-    const invoiceNumber = `INV-${Date.now().toString().slice(-8)}`;
     const today = new Date().toISOString().split("T")[0];
 
     createInvoice.mutate({
       customerId: selectedCustomer,
       vehicleId: selectedVehicle || undefined,
-      invoiceNumber,
       date: today,
       subtotal,
       includeHamaliCharge: includeHamali,
@@ -360,12 +370,7 @@ export default function Weighing() {
       hamaliPaidByCash,
       totalKgWeight,
       grandTotal,
-      items: weighingItems.map((item) => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        total: item.total,
-      })),
+      items: totals.items.map((item, index) => ({ ...item, lotId: weighingItems[index].lotId })),
     });
   };
 
@@ -550,7 +555,7 @@ export default function Weighing() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Vehicle (Parked Near Shop)</Label>
-                  <Select value={selectedVehicle} onValueChange={setSelectedVehicle}>
+                  <Select value={selectedVehicle} onValueChange={(val) => { setSelectedVehicle(val); setSelectedLot(""); }}>
                     <SelectTrigger data-testid="select-vehicle">
                       <SelectValue placeholder="Select vehicle" />
                     </SelectTrigger>
@@ -655,7 +660,7 @@ export default function Weighing() {
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
                 <div className="space-y-2 md:col-span-2">
                   <Label>Product</Label>
-                  <Select value={selectedProduct} onValueChange={(val) => { setSelectedProduct(val); setQuantity(""); }}>
+                  <Select value={selectedProduct} onValueChange={(val) => { setSelectedProduct(val); setQuantity(""); setSelectedLot(""); }}>
                     <SelectTrigger data-testid="select-product">
                       <SelectValue placeholder="Select product" />
                     </SelectTrigger>
@@ -719,6 +724,26 @@ export default function Weighing() {
                 </Button>
               </div>
 
+              {/* Only worth asking when the product is held in more than one lot */}
+              {selectedProduct && sellableLots.length > 1 && (
+                <div className="space-y-2 mt-4 md:w-1/2">
+                  <Label>Lot</Label>
+                  <Select value={selectedLot || "fifo"} onValueChange={(val) => setSelectedLot(val === "fifo" ? "" : val)}>
+                    <SelectTrigger data-testid="select-lot">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fifo">Oldest first</SelectItem>
+                      {sellableLots.map((lot) => (
+                        <SelectItem key={lot.id} value={lot.id}>
+                          {formatLot(lot)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Show scale capture hint for weight-based products */}
               {isWeightBased && selectedProduct && (
                 <p className="text-sm text-muted-foreground mt-2">
@@ -756,7 +781,12 @@ export default function Weighing() {
                     ) : (
                       weighingItems.map((item) => (
                         <TableRow key={item.id} data-testid={`row-item-${item.id}`}>
-                          <TableCell className="font-medium">{item.productName}</TableCell>
+                          <TableCell className="font-medium">
+                            {item.productName}
+                            {item.lotDate && (
+                              <span className="block text-xs text-muted-foreground">Lot of {item.lotDate}</span>
+                            )}
+                          </TableCell>
                           <TableCell className="text-right font-mono">
                             {isWeightBasedUnit(item.unit) ? item.quantity.toFixed(2) : item.quantity} {item.unit}
                           </TableCell>
@@ -832,6 +862,14 @@ export default function Weighing() {
                     {subtotal.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
                   </span>
                 </div>
+                {gstAmount > 0 && (
+                  <div className="flex justify-between gap-2 text-sm">
+                    <span>GST</span>
+                    <span className="font-mono" data-testid="text-gst">
+                      {gstAmount.toLocaleString("en-IN", { style: "currency", currency: "INR" })}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Hamali Charge Section */}
@@ -0,0 +1,24 @@
+// One-off upgrade of records created before the columns and tables that now
+// describe them existed. Run once after `npm run db:push`; each step skips
+// records that are already done, so running it again is harmless.
+
+import { pool } from "../server/db";
+import { storage } from "../server/storage";
+
+async function main() {
+  const dueDates = await storage.backfillPurchaseDueDates();
+  console.log(`Purchase due dates filled: ${dueDates}`);
+
+  const customerAllocations = await storage.backfillCustomerPaymentAllocations();
+  console.log(`Customer payment allocations created: ${customerAllocations}`);
+
+  const purchaseAllocations = await storage.backfillPurchaseAllocations();
+  console.log(`Purchase allocations created: ${purchaseAllocations}`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,18 @@
+// Re-derives the whole journal from the documents, e.g. after upgrading existing
+// data. It rewrites entries behind the lock date too, so it is run by whoever
+// looks after the server rather than offered in the app.
+
+import { pool } from "../server/db";
+import { storage } from "../server/storage";
+
+async function main() {
+  const posted = await storage.rebuildJournal();
+  console.log(`Journal entries posted: ${posted}`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Journal rebuild failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
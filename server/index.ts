@@ -14,6 +14,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Expense attachments arrive base64-encoded in the request body
+    limit: "10mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
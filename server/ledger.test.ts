@@ -0,0 +1,186 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CustomerPayment, Invoice, InvoiceRevision, Patti, SalesReturn, VendorPayment } from "@shared/schema";
+import { ACCOUNTS } from "@shared/ledger";
+import {
+  assertBalanced,
+  customerPaymentJournal,
+  invoiceJournal,
+  invoiceRevisionJournal,
+  invoiceVersions,
+  invoiceVoidJournal,
+  pattiJournal,
+  salesReturnJournal,
+  UnbalancedJournalError,
+  vendorPaymentJournal,
+  type JournalDraft,
+} from "./ledger";
+
+// Posting rules read only a few columns, so fixtures carry just those
+const invoice = {
+  id: "inv-1",
+  invoiceNumber: "INV/25-26/0001",
+  customerId: "cust-1",
+  date: "2025-04-05",
+  subtotal: 3030,
+  cgstAmount: 28.8,
+  sgstAmount: 28.8,
+  igstAmount: 0,
+  grandTotal: 3187.6,
+  voidReason: null,
+} as Invoice;
+
+// Net debit per account, so assertions do not depend on line order
+function balances(draft: JournalDraft): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const line of draft.lines) {
+    result[line.accountCode] = Math.round(((result[line.accountCode] ?? 0) + (line.debit ?? 0) - (line.credit ?? 0)) * 100) / 100;
+  }
+  return result;
+}
+
+describe("assertBalanced", () => {
+  it("rejects a draft whose debits and credits differ", () => {
+    const draft = invoiceJournal(invoice);
+    assert.doesNotThrow(() => assertBalanced(draft));
+    assert.throws(
+      () => assertBalanced({ ...draft, lines: draft.lines.slice(1) }),
+      UnbalancedJournalError,
+    );
+  });
+});
+
+describe("invoiceJournal", () => {
+  it("charges the customer the grand total and holds billed Hamali", () => {
+    const draft = invoiceJournal(invoice);
+    assert.deepEqual(balances(draft), {
+      [ACCOUNTS.debtors.code]: 3187.6,
+      [ACCOUNTS.sales.code]: -3030,
+      [ACCOUNTS.outputCgst.code]: -28.8,
+      [ACCOUNTS.outputSgst.code]: -28.8,
+      [ACCOUNTS.hamaliPayable.code]: -100,
+    });
+    assert.equal(draft.lines.find((line) => line.accountCode === ACCOUNTS.debtors.code)?.partyId, "cust-1");
+  });
+
+  it("reverses the sale on the day of the void", () => {
+    const draft = invoiceVoidJournal(invoice, "2025-04-09");
+    assert.equal(draft.date, "2025-04-09");
+    assert.equal(draft.sourceType, "invoice_void");
+    assert.equal(balances(draft)[ACCOUNTS.debtors.code], -3187.6);
+    assert.equal(balances(draft)[ACCOUNTS.sales.code], 3030);
+  });
+});
+
+describe("invoice amendments", () => {
+  const revision = {
+    id: "rev-1",
+    invoiceId: "inv-1",
+    revision: 1,
+    changedAt: new Date("2025-04-07T10:00:00Z"),
+    changes: [
+      { field: "subtotal", before: 3000, after: 3030 },
+      { field: "grandTotal", before: 3157.6, after: 3187.6 },
+      { field: "notes", before: "", after: "Extra bag" },
+    ],
+  } as InvoiceRevision;
+
+  it("posts only the difference on the day of the amendment", () => {
+    const [original] = invoiceVersions(invoice, [revision]);
+    const draft = invoiceRevisionJournal(original, invoice, revision);
+    assertBalanced(draft);
+    assert.equal(draft.date, "2025-04-07");
+    assert.deepEqual(balances(draft), { [ACCOUNTS.debtors.code]: 30, [ACCOUNTS.sales.code]: -30 });
+  });
+
+  it("rolls the invoice back through its revisions, latest first", () => {
+    const second = {
+      ...revision,
+      id: "rev-2",
+      revision: 2,
+      changes: [{ field: "subtotal", before: 3030, after: 3100 }],
+    } as InvoiceRevision;
+    const current = { ...invoice, subtotal: 3100 };
+    const versions = invoiceVersions(current, [revision, second]);
+    assert.deepEqual(versions.map((version) => version.subtotal), [3000, 3030, 3100]);
+    assert.deepEqual(versions.map((version) => version.grandTotal), [3157.6, 3187.6, 3187.6]);
+  });
+});
+
+describe("settlements", () => {
+  it("credits the customer for returned goods and the GST on them", () => {
+    const draft = salesReturnJournal({
+      id: "sr-1",
+      customerId: "cust-1",
+      creditNoteNumber: "CN/25-26/0001",
+      date: "2025-04-10",
+      subtotal: 480,
+      cgstAmount: 28.8,
+      sgstAmount: 28.8,
+      igstAmount: 0,
+      totalAmount: 537.6,
+      notes: null,
+    } as SalesReturn);
+    assertBalanced(draft);
+    assert.equal(balances(draft)[ACCOUNTS.debtors.code], -537.6);
+    assert.equal(balances(draft)[ACCOUNTS.outputIgst.code], undefined);
+  });
+
+  it("banks non-cash receipts", () => {
+    const draft = customerPaymentJournal({
+      id: "pay-1",
+      customerId: "cust-1",
+      date: "2025-04-12",
+      amount: 2000,
+      paymentMethod: "upi",
+      notes: null,
+    } as CustomerPayment);
+    assert.deepEqual(balances(draft), { [ACCOUNTS.bank.code]: 2000, [ACCOUNTS.debtors.code]: -2000 });
+  });
+
+  it("recovers a farmer's advance and its interest out of a vendor payment", () => {
+    const draft = vendorPaymentJournal({
+      id: "vp-1",
+      vendorId: "ven-1",
+      date: "2025-04-15",
+      amount: 10000,
+      advanceRecovered: 3150,
+      advanceInterest: 150,
+      paymentMethod: "cash",
+      notes: null,
+    } as VendorPayment);
+    assertBalanced(draft);
+    assert.deepEqual(balances(draft), {
+      [ACCOUNTS.creditors.code]: 10000,
+      [ACCOUNTS.cash.code]: -6850,
+      [ACCOUNTS.farmerAdvances.code]: -3000,
+      [ACCOUNTS.interestIncome.code]: -150,
+    });
+  });
+
+  it("splits a patti between our income, the labourers and the farmer", () => {
+    const draft = pattiJournal({
+      id: "pt-1",
+      pattiNumber: "PT/25-26/0001",
+      vendorId: "ven-1",
+      date: "2025-04-20",
+      grossSales: 50000,
+      commissionAmount: 4000,
+      unloadingAmount: 500,
+      transportAmount: 1500,
+      hamaliAmount: 1000,
+      advanceAmount: 5200,
+      advanceInterest: 200,
+      netPayable: 37800,
+    } as Patti);
+    assertBalanced(draft);
+    assert.deepEqual(balances(draft), {
+      [ACCOUNTS.purchases.code]: 50000,
+      [ACCOUNTS.commissionIncome.code]: -6000,
+      [ACCOUNTS.hamaliPayable.code]: -1000,
+      [ACCOUNTS.farmerAdvances.code]: -5000,
+      [ACCOUNTS.interestIncome.code]: -200,
+      [ACCOUNTS.creditors.code]: -37800,
+    });
+  });
+});
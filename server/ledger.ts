@@ -0,0 +1,293 @@
+import type {
+  CustomerPayment,
+  Expense,
+  HamaliCashPayment,
+  InsertJournalLine,
+  FarmerAdvance,
+  Invoice,
+  InvoiceRevision,
+  Patti,
+  Purchase,
+  SalesReturn,
+  VendorPayment,
+  VendorReturn,
+} from "@shared/schema";
+import { ACCOUNTS, getSettlementAccount, type JournalSourceType, type VoucherType } from "@shared/ledger";
+import { PRICING_TOLERANCE, roundMoney } from "@shared/money";
+import { getExpenseCategoryLabel } from "@shared/expenses";
+
+// Posting rules: how each business document maps onto balanced journal lines.
+// Storage writes the drafts; nothing here touches the database.
+
+export interface JournalDraft {
+  date: string;
+  voucherType: VoucherType;
+  sourceType: JournalSourceType;
+  sourceId: string;
+  reference: string | null;
+  narration: string;
+  lines: InsertJournalLine[];
+}
+
+// Raised when posting rules produce debits and credits that do not agree
+export class UnbalancedJournalError extends Error {
+  constructor(public readonly draft: JournalDraft, debit: number, credit: number) {
+    super(`Journal for ${draft.sourceType} ${draft.sourceId} does not balance: debit ${debit}, credit ${credit}`);
+    this.name = "UnbalancedJournalError";
+  }
+}
+
+export function assertBalanced(draft: JournalDraft): void {
+  const debit = roundMoney(draft.lines.reduce((sum, line) => sum + (line.debit ?? 0), 0));
+  const credit = roundMoney(draft.lines.reduce((sum, line) => sum + (line.credit ?? 0), 0));
+  if (Math.abs(debit - credit) > PRICING_TOLERANCE) {
+    throw new UnbalancedJournalError(draft, debit, credit);
+  }
+}
+
+function debit(accountCode: string, amount: number, party?: Pick<InsertJournalLine, "partyType" | "partyId">): InsertJournalLine {
+  return { accountCode, debit: roundMoney(amount), credit: 0, ...party };
+}
+
+function credit(accountCode: string, amount: number, party?: Pick<InsertJournalLine, "partyType" | "partyId">): InsertJournalLine {
+  return { accountCode, debit: 0, credit: roundMoney(amount), ...party };
+}
+
+// Zero lines (e.g. no Hamali on an invoice) are dropped rather than posted
+function withoutZeroLines(lines: InsertJournalLine[]): InsertJournalLine[] {
+  return lines.filter((line) => (line.debit ?? 0) > 0 || (line.credit ?? 0) > 0);
+}
+
+// The customer owes the grand total: goods go to sales, GST charged is owed to
+// the government and any Hamali billed on the invoice is held for the labourers.
+// Hamali collected in cash is posted separately from its Hamali cash record.
+export function invoiceJournal(invoice: Invoice): JournalDraft {
+  const customer = { partyType: "customer", partyId: invoice.customerId };
+  const tax = invoice.cgstAmount + invoice.sgstAmount + invoice.igstAmount;
+  return {
+    date: invoice.date,
+    voucherType: "sales",
+    sourceType: "invoice",
+    sourceId: invoice.id,
+    reference: invoice.invoiceNumber,
+    narration: `Sales invoice ${invoice.invoiceNumber}`,
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.debtors.code, invoice.grandTotal, customer),
+      credit(ACCOUNTS.sales.code, invoice.subtotal),
+      credit(ACCOUNTS.outputCgst.code, invoice.cgstAmount),
+      credit(ACCOUNTS.outputSgst.code, invoice.sgstAmount),
+      credit(ACCOUNTS.outputIgst.code, invoice.igstAmount),
+      credit(ACCOUNTS.hamaliPayable.code, invoice.grandTotal - invoice.subtotal - tax),
+    ]),
+  };
+}
+
+// Voiding leaves the sale on the books and reverses it on the day of the void
+export function invoiceVoidJournal(invoice: Invoice, date: string): JournalDraft {
+  const sale = invoiceJournal(invoice);
+  return {
+    ...sale,
+    date,
+    sourceType: "invoice_void",
+    narration: `Void of sales invoice ${invoice.invoiceNumber}${invoice.voidReason ? ` - ${invoice.voidReason}` : ""}`,
+    lines: sale.lines.map((line) => ({ ...line, debit: line.credit ?? 0, credit: line.debit ?? 0 })),
+  };
+}
+
+// An amendment posts only what it changed, on the day it was made: the sale as
+// it stood is reversed and the amended sale charged, netted per account and party
+export function invoiceRevisionJournal(before: Invoice, after: Invoice, revision: InvoiceRevision): JournalDraft {
+  const net = new Map<string, InsertJournalLine & { amount: number }>();
+  const add = (lines: InsertJournalLine[], sign: number) => {
+    for (const line of lines) {
+      const key = `${line.accountCode}|${line.partyType ?? ""}|${line.partyId ?? ""}`;
+      const entry = net.get(key) ?? { ...line, amount: 0 };
+      entry.amount += sign * ((line.debit ?? 0) - (line.credit ?? 0));
+      net.set(key, entry);
+    }
+  };
+  add(invoiceJournal(before).lines, -1);
+  add(invoiceJournal(after).lines, 1);
+
+  return {
+    date: revision.changedAt.toISOString().split("T")[0],
+    voucherType: "sales",
+    sourceType: "invoice_revision",
+    sourceId: revision.id,
+    reference: after.invoiceNumber,
+    narration: `Amendment ${revision.revision} of sales invoice ${after.invoiceNumber}`,
+    lines: withoutZeroLines(Array.from(net.values(), ({ amount, ...line }) => (
+      amount > 0 ? { ...line, debit: roundMoney(amount), credit: 0 } : { ...line, debit: 0, credit: roundMoney(-amount) }
+    ))),
+  };
+}
+
+// The figures invoiceJournal reads, all of which an amendment records before and after
+const INVOICE_JOURNAL_FIELDS = ["subtotal", "cgstAmount", "sgstAmount", "igstAmount", "grandTotal"] as const;
+
+// The invoice as first issued followed by the invoice after each of its revisions,
+// recovered by rolling the current figures back through the recorded changes
+export function invoiceVersions(invoice: Invoice, revisions: InvoiceRevision[]): Invoice[] {
+  const versions = [invoice];
+  for (const revision of [...revisions].sort((a, b) => b.revision - a.revision)) {
+    const earlier = { ...versions[0] };
+    for (const field of INVOICE_JOURNAL_FIELDS) {
+      const change = revision.changes.find((c) => c.field === field);
+      if (typeof change?.before === "number") earlier[field] = change.before;
+    }
+    versions.unshift(earlier);
+  }
+  return versions;
+}
+
+// A credit note reverses the sale and the GST charged on the returned goods;
+// the customer's account is credited with the full amount
+export function salesReturnJournal(salesReturn: SalesReturn): JournalDraft {
+  return {
+    date: salesReturn.date,
+    voucherType: "credit_note",
+    sourceType: "sales_return",
+    sourceId: salesReturn.id,
+    reference: salesReturn.creditNoteNumber,
+    narration: salesReturn.notes ? `Credit note ${salesReturn.creditNoteNumber} - ${salesReturn.notes}` : `Credit note ${salesReturn.creditNoteNumber}`,
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.salesReturns.code, salesReturn.subtotal),
+      debit(ACCOUNTS.outputCgst.code, salesReturn.cgstAmount),
+      debit(ACCOUNTS.outputSgst.code, salesReturn.sgstAmount),
+      debit(ACCOUNTS.outputIgst.code, salesReturn.igstAmount),
+      credit(ACCOUNTS.debtors.code, salesReturn.totalAmount, { partyType: "customer", partyId: salesReturn.customerId }),
+    ]),
+  };
+}
+
+export function customerPaymentJournal(payment: CustomerPayment): JournalDraft {
+  return {
+    date: payment.date,
+    voucherType: "receipt",
+    sourceType: "customer_payment",
+    sourceId: payment.id,
+    reference: null,
+    narration: `Payment received (${payment.paymentMethod})${payment.notes ? ` - ${payment.notes}` : ""}`,
+    lines: withoutZeroLines([
+      debit(getSettlementAccount(payment.paymentMethod).code, payment.amount),
+      credit(ACCOUNTS.debtors.code, payment.amount, { partyType: "customer", partyId: payment.customerId }),
+    ]),
+  };
+}
+
+export function purchaseJournal(purchase: Purchase): JournalDraft {
+  return {
+    date: purchase.date,
+    voucherType: "purchase",
+    sourceType: "purchase",
+    sourceId: purchase.id,
+    reference: purchase.id.slice(0, 8),
+    narration: `Purchase due ${purchase.dueDate ?? purchase.date}`,
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.purchases.code, purchase.totalAmount),
+      credit(ACCOUNTS.creditors.code, purchase.totalAmount, { partyType: "vendor", partyId: purchase.vendorId }),
+    ]),
+  };
+}
+
+export function vendorPaymentJournal(payment: VendorPayment): JournalDraft {
+  return {
+    date: payment.date,
+    voucherType: "payment",
+    sourceType: "vendor_payment",
+    sourceId: payment.id,
+    reference: null,
+    narration: `Payment made (${payment.paymentMethod})${payment.notes ? ` - ${payment.notes}` : ""}`,
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.creditors.code, payment.amount, { partyType: "vendor", partyId: payment.vendorId }),
+      credit(getSettlementAccount(payment.paymentMethod).code, payment.amount - payment.advanceRecovered),
+      credit(ACCOUNTS.farmerAdvances.code, payment.advanceRecovered - payment.advanceInterest, { partyType: "vendor", partyId: payment.vendorId }),
+      credit(ACCOUNTS.interestIncome.code, payment.advanceInterest),
+    ]),
+  };
+}
+
+// An advance is money the farmer owes us until it is recovered from a settlement
+export function farmerAdvanceJournal(advance: FarmerAdvance): JournalDraft {
+  return {
+    date: advance.date,
+    voucherType: "payment",
+    sourceType: "farmer_advance",
+    sourceId: advance.id,
+    reference: null,
+    narration: `Advance to farmer (${advance.paymentMethod})${advance.notes ? ` - ${advance.notes}` : ""}`,
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.farmerAdvances.code, advance.amount, { partyType: "vendor", partyId: advance.vendorId }),
+      credit(getSettlementAccount(advance.paymentMethod).code, advance.amount),
+    ]),
+  };
+}
+
+// Goods sent back reduce what we owe the vendor and the cost of purchases
+export function vendorReturnJournal(vendorReturn: VendorReturn): JournalDraft {
+  return {
+    date: vendorReturn.date,
+    voucherType: "debit_note",
+    sourceType: "vendor_return",
+    sourceId: vendorReturn.id,
+    reference: vendorReturn.debitNoteNumber ?? (vendorReturn.purchaseId ? vendorReturn.purchaseId.slice(0, 8) : null),
+    narration: vendorReturn.notes ? `Goods returned - ${vendorReturn.notes}` : "Goods returned",
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.creditors.code, vendorReturn.totalAmount, { partyType: "vendor", partyId: vendorReturn.vendorId }),
+      credit(ACCOUNTS.purchases.code, vendorReturn.totalAmount),
+    ]),
+  };
+}
+
+// The farmer's goods are bought in at what they fetched. Commission and the
+// unloading and transport we recover are our income, Hamali is held for the
+// labourers, advances are recovered with their interest and the rest is owed to the farmer.
+export function pattiJournal(patti: Patti): JournalDraft {
+  return {
+    date: patti.date,
+    voucherType: "patti",
+    sourceType: "patti",
+    sourceId: patti.id,
+    reference: patti.pattiNumber,
+    narration: `Patti ${patti.pattiNumber}`,
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.purchases.code, patti.grossSales),
+      credit(ACCOUNTS.commissionIncome.code, patti.commissionAmount + patti.unloadingAmount + patti.transportAmount),
+      credit(ACCOUNTS.hamaliPayable.code, patti.hamaliAmount),
+      credit(ACCOUNTS.farmerAdvances.code, patti.advanceAmount - patti.advanceInterest, { partyType: "vendor", partyId: patti.vendorId }),
+      credit(ACCOUNTS.interestIncome.code, patti.advanceInterest),
+      credit(ACCOUNTS.creditors.code, patti.netPayable, { partyType: "vendor", partyId: patti.vendorId }),
+    ]),
+  };
+}
+
+// Hamali handed over in cash is held for the labourers until paid out
+export function hamaliCashJournal(payment: HamaliCashPayment): JournalDraft {
+  return {
+    date: payment.date,
+    voucherType: "hamali",
+    sourceType: "hamali_cash",
+    sourceId: payment.id,
+    reference: payment.invoiceNumber,
+    narration: payment.notes || "Hamali cash received",
+    lines: withoutZeroLines([
+      debit(getSettlementAccount(payment.paymentMethod).code, payment.amount),
+      credit(ACCOUNTS.hamaliPayable.code, payment.amount),
+    ]),
+  };
+}
+
+export function expenseJournal(expense: Expense): JournalDraft {
+  return {
+    date: expense.date,
+    voucherType: "expense",
+    sourceType: "expense",
+    sourceId: expense.id,
+    reference: expense.paidTo,
+    narration: `${getExpenseCategoryLabel(expense.category)} - ${expense.description}`,
+    lines: withoutZeroLines([
+      debit(ACCOUNTS.expenses.code, expense.amount),
+      credit(getSettlementAccount(expense.paymentMethod).code, expense.amount),
+    ]),
+  };
+}
@@ -0,0 +1,22 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+// The owner override code unlocks edits to locked invoices. Only a salted
+// hash is stored in company settings, formatted as `<salt>:<hash>`.
+
+const KEY_LENGTH = 32;
+
+export function hashOverrideCode(code: string): string {
+  const salt = randomBytes(16).toString("hex");
+  const hash = scryptSync(code, salt, KEY_LENGTH).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+export function verifyOverrideCode(code: string, storedHash: string | null | undefined): boolean {
+  if (!storedHash) return false;
+  const [salt, hash] = storedHash.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(code, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
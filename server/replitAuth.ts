@@ -8,6 +8,24 @@ import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
 
+// What the OIDC strategy keeps on req.user for a signed-in session
+declare global {
+  namespace Express {
+    interface User {
+      claims?: {
+        sub?: string;
+        email?: string;
+        first_name?: string;
+        last_name?: string;
+        exp?: number;
+      };
+      access_token?: string;
+      refresh_token?: string;
+      expires_at?: number;
+    }
+  }
+}
+
 const getOidcConfig = memoize(
   async () => {
     return await client.discovery(
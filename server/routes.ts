@@ -1,6 +1,7 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, ConflictError, InsufficientStockError, InvoiceLockedError, type PurchaseSettlement } from "./storage";
+import { hashOverrideCode, verifyOverrideCode } from "./ownerOverride";
 import {
   insertVendorSchema,
   insertCustomerSchema,
@@ -8,12 +9,38 @@ import {
   insertProductSchema,
   insertStockMovementSchema,
   insertVendorPaymentSchema,
+  insertFarmerAdvanceSchema,
   insertCustomerPaymentSchema,
   insertCompanySettingsSchema,
   insertVendorReturnSchema,
   insertVendorReturnItemSchema,
   insertHamaliCashPaymentSchema,
+  insertExpenseSchema,
+  type CompanySettings,
+  type PublicCompanySettings,
+  type Invoice,
+  type InvoiceItem,
+  type Purchase,
 } from "@shared/schema";
+import { calculateInvoiceTotals, findPricingMismatches, type InvoiceTotals, type PricingLine } from "@shared/pricing";
+import { PRICING_TOLERANCE } from "@shared/money";
+import { PAYABLE_AGING_BUCKETS, RECEIVABLE_AGING_BUCKETS, daysBetween, emptyAgingTotals, findAgingBucket } from "@shared/aging";
+import { buildStatement, type StatementEntry } from "@shared/statement";
+import { ACCOUNTS, CHART_OF_ACCOUNTS } from "@shared/ledger";
+import { CASH_DENOMINATIONS } from "@shared/cash";
+import { GSTIN_PATTERN, isInterStateSupply, resolveStateCode } from "@shared/gst";
+import { buildGstr1, gstr1ReturnSchema, type Gstr1Document } from "@shared/gstr1";
+import { EWB_NUMBER_PATTERN } from "@shared/ewaybill";
+import { groupMargins, weightedAverageCost, type MarginRow, type SoldLine } from "@shared/margins";
+import {
+  EXPENSE_ATTACHMENT_TYPES,
+  EXPENSE_CATEGORIES,
+  MAX_EXPENSE_ATTACHMENT_BYTES,
+  getExpenseCategoryLabel,
+  isExpenseAttachmentType,
+  type ExpenseCategory,
+} from "@shared/expenses";
+import { INVOICE_PREFIX_PATTERN, getFinancialYearStart } from "@shared/numbering";
 import { z } from "zod";
 
 export async function registerRoutes(
@@ -89,9 +116,14 @@ export async function registerRoutes(
     res.json(balance);
   });
 
+  // Blank GSTIN means an unregistered (B2C) customer
+  const customerSchema = insertCustomerSchema.extend({
+    gstin: z.union([z.literal(""), z.string().regex(GSTIN_PATTERN)]).nullable().optional(),
+  });
+
   app.post("/api/customers", async (req, res) => {
     try {
-      const data = insertCustomerSchema.parse(req.body);
+      const data = customerSchema.parse(req.body);
       const customer = await storage.createCustomer(data);
       res.status(201).json(customer);
     } catch (error) {
@@ -101,7 +133,7 @@ export async function registerRoutes(
 
   app.patch("/api/customers/:id", async (req, res) => {
     try {
-      const data = insertCustomerSchema.partial().parse(req.body);
+      const data = customerSchema.partial().parse(req.body);
       const customer = await storage.updateCustomer(req.params.id, data);
       if (!customer) {
         return res.status(404).json({ error: "Customer not found" });
@@ -230,10 +262,23 @@ export async function registerRoutes(
     }
   });
 
+  // Stock Lots
+  app.get("/api/stock-lots", async (req, res) => {
+    const { productId, vehicleId, open } = req.query;
+    const lots = await storage.getStockLots({
+      productId: productId as string | undefined,
+      vehicleId: vehicleId as string | undefined,
+      openOnly: open === "true",
+    });
+    res.json(lots);
+  });
+
   // Purchases
+  // Purchases carry their settlement: status is derived from the payments and returns allocated to them
   app.get("/api/purchases", async (req, res) => {
     const purchases = await storage.getPurchases();
-    res.json(purchases);
+    const settlements = await storage.getPurchaseSettlements();
+    res.json(purchases.map((purchase) => withPurchaseSettlement(purchase, settlements)));
   });
 
   app.get("/api/purchases/:id", async (req, res) => {
@@ -241,7 +286,8 @@ export async function registerRoutes(
     if (!purchase) {
       return res.status(404).json({ error: "Purchase not found" });
     }
-    res.json(purchase);
+    const settlements = await storage.getPurchaseSettlements(purchase.vendorId);
+    res.json(withPurchaseSettlement(purchase, settlements));
   });
 
   app.get("/api/purchases/:id/items", async (req, res) => {
@@ -254,7 +300,7 @@ export async function registerRoutes(
     vehicleId: z.string().optional(),
     date: z.string(),
     totalAmount: z.number(),
-    status: z.string().optional(),
+    paymentTermsDays: z.number().int().min(0).optional(),
     items: z.array(
       z.object({
         productId: z.string(),
@@ -275,6 +321,9 @@ export async function registerRoutes(
       );
       res.status(201).json(purchase);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error("Purchase error:", error);
       res.status(400).json({ error: "Invalid purchase data" });
     }
@@ -299,11 +348,20 @@ export async function registerRoutes(
     res.json(items);
   });
 
+  app.get("/api/invoices/:id/revisions", async (req, res) => {
+    const invoice = await storage.getInvoice(req.params.id);
+    if (!invoice) {
+      return res.status(404).json({ error: "Invoice not found" });
+    }
+    const revisions = await storage.getInvoiceRevisions(invoice.id);
+    const lockReason = await storage.getInvoiceLockReason(invoice);
+    res.json({ revisions, lockReason });
+  });
+
   const invoiceSchema = z.object({
     customerId: z.string(),
     vehicleId: z.string().optional(),
-    invoiceNumber: z.string(),
-    date: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
     subtotal: z.number(),
     includeHamaliCharge: z.boolean(),
     hamaliRatePerKg: z.number().optional(),
@@ -313,42 +371,157 @@ export async function registerRoutes(
     bags: z.number().optional(),
     hamaliRatePerBag: z.number().optional(),
     grandTotal: z.number(),
-    status: z.string().optional(),
     items: z.array(
       z.object({
         productId: z.string(),
-        quantity: z.number(),
-        unitPrice: z.number(),
+        quantity: z.number().positive(),
+        unitPrice: z.number().min(0),
         total: z.number(),
+        lotId: z.string().optional(), // sell from this lot rather than the oldest
       })
-    ),
+    ).min(1),
   });
 
+  type PricedInvoice = { totals: InvoiceTotals; placeOfSupply: string | null } | { error: string; details?: string[] };
+
+  // Recompute every figure from the items and rates - the client's totals are only checked.
+  // GST rates come from the products; the customer's state decides the CGST/SGST or IGST split.
+  const priceInvoiceRequest = async (
+    data: Omit<z.infer<typeof invoiceSchema>, "customerId" | "vehicleId">,
+    customerId?: string
+  ): Promise<PricedInvoice> => {
+    const lines: PricingLine[] = [];
+    for (const item of data.items) {
+      const product = await storage.getProduct(item.productId);
+      if (!product) {
+        return { error: `Product ${item.productId} not found` };
+      }
+      lines.push({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        unit: product.unit,
+        hsnCode: product.hsnCode,
+        gstRate: product.gstRate,
+      });
+    }
+
+    const customer = customerId ? await storage.getCustomer(customerId) : undefined;
+    const settings = await storage.getCompanySettings();
+    const placeOfSupply = resolveStateCode(customer?.state, customer?.gstin);
+    const interState = isInterStateSupply(resolveStateCode(settings?.state, settings?.gstNumber), placeOfSupply);
+
+    const totals = calculateInvoiceTotals(lines, data, interState);
+    const mismatches = findPricingMismatches(data, totals);
+    if (mismatches.length > 0) {
+      return { error: "Invoice totals do not match", details: mismatches };
+    }
+    return { totals, placeOfSupply };
+  };
+
   app.post("/api/invoices", async (req, res) => {
     try {
       const data = invoiceSchema.parse(req.body);
       const { items, ...invoiceData } = data;
+
+      const priced = await priceInvoiceRequest(data, data.customerId);
+      if ("error" in priced) {
+        return res.status(400).json(priced);
+      }
+      const { totals, placeOfSupply } = priced;
+
       const invoice = await storage.createInvoice(
-        invoiceData,
-        items.map((item) => ({ ...item, invoiceId: "" }))
+        {
+          ...invoiceData,
+          subtotal: totals.subtotal,
+          placeOfSupply,
+          cgstAmount: totals.cgstAmount,
+          sgstAmount: totals.sgstAmount,
+          igstAmount: totals.igstAmount,
+          hamaliChargeAmount: totals.hamaliChargeAmount,
+          totalKgWeight: totals.totalKgWeight,
+          grandTotal: totals.grandTotal,
+        },
+        totals.items.map((item, index) => ({ ...item, invoiceId: "", lotId: items[index].lotId ?? null }))
       );
       res.status(201).json(invoice);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error("Invoice error:", error);
       res.status(400).json({ error: "Invalid invoice data" });
     }
   });
 
+  const voidInvoiceSchema = z.object({
+    reason: z.string().trim().min(1),
+  });
+
+  app.post("/api/invoices/:id/void", async (req, res) => {
+    try {
+      const { reason } = voidInvoiceSchema.parse(req.body);
+      const invoice = await storage.voidInvoice(req.params.id, reason);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error voiding invoice:", error);
+      res.status(400).json({ error: "A reason is required to void an invoice" });
+    }
+  });
+
+  const ewayBillSchema = z.object({
+    ewayBillNumber: z.string().trim().regex(EWB_NUMBER_PATTERN, "EWB number must be 12 digits"),
+    ewayBillDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  });
+
+  app.post("/api/invoices/:id/eway-bill", async (req, res) => {
+    try {
+      const parsed = ewayBillSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid e-way bill data" });
+      }
+      const invoice = await storage.setInvoiceEwayBill(req.params.id, parsed.data.ewayBillNumber, parsed.data.ewayBillDate);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("E-way bill error:", error);
+      res.status(500).json({ error: "Failed to save e-way bill number" });
+    }
+  });
+
   app.get("/api/customers/:id/invoices", async (req, res) => {
     try {
       const invoices = await storage.getInvoicesByCustomer(req.params.id);
       const balance = await storage.getCustomerBalance(req.params.id);
+      const settlements = await storage.getInvoiceSettlements(req.params.id);
+      const totalAllocated = settlements.reduce((sum, s) => sum + s.allocated, 0);
       res.json({
-        invoices,
+        invoices: invoices.map((invoice) => {
+          const settlement = settlements.find((s) => s.invoiceId === invoice.id);
+          return {
+            ...invoice,
+            allocated: settlement?.allocated ?? 0,
+            outstanding: settlement?.outstanding ?? 0,
+            paymentStatus: settlement?.status ?? null,
+          };
+        }),
         summary: {
           totalInvoices: balance.totalInvoices,
           totalPayments: balance.totalPayments,
+          totalReturns: balance.totalReturns,
           remainingBalance: balance.balance,
+          unallocatedCredit: Math.max(0, balance.totalPayments - totalAllocated),
         }
       });
     } catch (error) {
@@ -357,31 +530,228 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/invoices/:id", async (req, res) => {
+  const statementRangeSchema = z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  });
+
+  // Statement of account: invoices, credit notes, payments and Hamali cash in date order with running balance.
+  // Defaults to the current financial year up to today.
+  app.get("/api/customers/:id/statement", async (req, res) => {
     try {
-      const updates = req.body;
-      const invoice = await storage.updateInvoice(req.params.id, updates);
-      if (!invoice) {
-        return res.status(404).json({ error: "Invoice not found" });
+      const range = statementRangeSchema.safeParse(req.query);
+      if (!range.success) {
+        return res.status(400).json({ error: "Invalid statement range" });
       }
-      res.json(invoice);
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      const to = range.data.to ?? new Date().toISOString().split("T")[0];
+      const from = range.data.from ?? getFinancialYearStart(to);
+
+      const [invoices, payments, hamaliPayments, salesReturns] = await Promise.all([
+        storage.getInvoicesByCustomer(customer.id),
+        storage.getCustomerPayments(customer.id),
+        storage.getHamaliCashPayments(),
+        storage.getSalesReturns(customer.id),
+      ]);
+
+      const entries: StatementEntry[] = [];
+      for (const invoice of invoices) {
+        if (invoice.status === "void") continue;
+        entries.push({
+          date: invoice.date,
+          type: "invoice",
+          documentId: invoice.id,
+          reference: invoice.invoiceNumber,
+          description: "Sales invoice",
+          debit: invoice.grandTotal,
+          credit: 0,
+        });
+      }
+      for (const salesReturn of salesReturns) {
+        const invoice = invoices.find((i) => i.id === salesReturn.invoiceId);
+        entries.push({
+          date: salesReturn.date,
+          type: "return",
+          documentId: salesReturn.id,
+          reference: salesReturn.creditNoteNumber,
+          description: `Credit note${invoice ? ` against ${invoice.invoiceNumber}` : ""}${salesReturn.notes ? ` - ${salesReturn.notes}` : ""}`,
+          debit: 0,
+          credit: salesReturn.totalAmount,
+        });
+      }
+      // Hamali settled in cash is charged and collected on the spot, so it
+      // shows on the statement without moving the balance
+      for (const hamali of hamaliPayments) {
+        if (hamali.customerId !== customer.id) continue;
+        entries.push({
+          date: hamali.date,
+          type: "hamali",
+          documentId: hamali.id,
+          reference: hamali.invoiceNumber ?? "",
+          description: "Hamali paid in cash",
+          debit: hamali.amount,
+          credit: hamali.amount,
+        });
+      }
+      for (const payment of payments) {
+        entries.push({
+          date: payment.date,
+          type: "payment",
+          documentId: payment.id,
+          reference: payment.notes ?? "",
+          description: `Payment received (${payment.paymentMethod})`,
+          debit: 0,
+          credit: payment.amount,
+        });
+      }
+
+      res.json({ customer, ...buildStatement(entries, from, to) });
     } catch (error) {
-      console.error("Error updating invoice:", error);
-      res.status(400).json({ error: "Failed to update invoice" });
+      console.error("Customer statement error:", error);
+      res.status(500).json({ error: "Failed to generate statement" });
     }
   });
 
-  app.patch("/api/invoice-items/:id", async (req, res) => {
+  // Vendor ledger: purchases are credited to the vendor, payments and returns debited
+  app.get("/api/vendors/:id/statement", async (req, res) => {
     try {
-      const updates = req.body;
-      const item = await storage.updateInvoiceItem(req.params.id, updates);
-      if (!item) {
-        return res.status(404).json({ error: "Invoice item not found" });
+      const range = statementRangeSchema.safeParse(req.query);
+      if (!range.success) {
+        return res.status(400).json({ error: "Invalid statement range" });
+      }
+      const vendor = await storage.getVendor(req.params.id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      const to = range.data.to ?? new Date().toISOString().split("T")[0];
+      const from = range.data.from ?? getFinancialYearStart(to);
+
+      const [purchases, payments, returns, pattis] = await Promise.all([
+        storage.getPurchases(),
+        storage.getVendorPayments(vendor.id),
+        storage.getVendorReturns(vendor.id),
+        storage.getPattis(vendor.id),
+      ]);
+
+      const entries: StatementEntry[] = [];
+      for (const purchase of purchases) {
+        if (purchase.vendorId !== vendor.id) continue;
+        entries.push({
+          date: purchase.date,
+          type: "purchase",
+          documentId: purchase.id,
+          reference: purchase.id.slice(0, 8),
+          description: `Purchase (due ${purchase.dueDate ?? purchase.date})`,
+          debit: 0,
+          credit: purchase.totalAmount,
+        });
+      }
+      for (const payment of payments) {
+        entries.push({
+          date: payment.date,
+          type: "payment",
+          documentId: payment.id,
+          reference: payment.notes ?? "",
+          description: payment.advanceRecovered > 0
+            ? `Payment made (${payment.paymentMethod}) incl. ${payment.advanceRecovered.toFixed(2)} advance recovered`
+            : `Payment made (${payment.paymentMethod})`,
+          debit: payment.amount,
+          credit: 0,
+        });
       }
-      res.json(item);
+      for (const vendorReturn of returns) {
+        entries.push({
+          date: vendorReturn.date,
+          type: "return",
+          documentId: vendorReturn.id,
+          reference: vendorReturn.debitNoteNumber ?? (vendorReturn.purchaseId ? vendorReturn.purchaseId.slice(0, 8) : ""),
+          description: vendorReturn.notes ? `Goods returned - ${vendorReturn.notes}` : "Goods returned",
+          debit: vendorReturn.totalAmount,
+          credit: 0,
+        });
+      }
+      for (const patti of pattis) {
+        entries.push({
+          date: patti.date,
+          type: "patti",
+          documentId: patti.id,
+          reference: patti.pattiNumber,
+          description: patti.notes ? `Patti - ${patti.notes}` : "Patti (sale proceeds less deductions)",
+          debit: 0,
+          credit: patti.netPayable,
+        });
+      }
+
+      res.json({ vendor, ...buildStatement(entries, from, to) });
     } catch (error) {
-      console.error("Error updating invoice item:", error);
-      res.status(400).json({ error: "Failed to update invoice item" });
+      console.error("Vendor statement error:", error);
+      res.status(500).json({ error: "Failed to generate statement" });
+    }
+  });
+
+  const invoiceAmendmentSchema = z.object({
+    includeHamaliCharge: z.boolean().optional(),
+    hamaliRatePerKg: z.number().min(0).optional(),
+    hamaliRatePerBag: z.number().min(0).optional(),
+    bags: z.number().int().min(0).optional(),
+    hamaliPaidByCash: z.boolean().optional(),
+    items: z.array(
+      z.object({
+        id: z.string().optional(),
+        productId: z.string(),
+        quantity: z.number().positive(),
+        unitPrice: z.number().min(0),
+        lotId: z.string().optional(), // draw any increase from this lot rather than the oldest
+      })
+    ).min(1).refine(
+      (items) => new Set(items.map((item) => item.productId)).size === items.length,
+      { message: "Each product may appear on only one line" },
+    ),
+    changedBy: z.string().trim().min(1).optional(),
+    overrideCode: z.string().optional(),
+  });
+
+  // Amend an invoice: the server reprices it, adjusts stock for any quantity changes
+  // and records a revision. Locked invoices need the owner override code.
+  app.post("/api/invoices/:id/amendments", async (req, res) => {
+    try {
+      const { changedBy, overrideCode, ...amendment } = invoiceAmendmentSchema.parse(req.body);
+
+      // Prefer the signed-in user; the name typed in the form covers installs without login
+      const author = req.user?.claims?.email || changedBy;
+      if (!author) {
+        return res.status(400).json({ error: "Name of the person amending the invoice is required" });
+      }
+
+      let lockOverride = false;
+      if (overrideCode) {
+        const settings = await storage.getCompanySettings();
+        if (!verifyOverrideCode(overrideCode, settings?.ownerOverrideHash)) {
+          return res.status(403).json({ error: "Invalid owner override code" });
+        }
+        lockOverride = true;
+      }
+
+      const invoice = await storage.amendInvoice(req.params.id, amendment, { changedBy: author, lockOverride });
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, shortages: error.shortages });
+      }
+      if (error instanceof InvoiceLockedError) {
+        return res.status(409).json({ error: error.message, locked: true, lockReason: error.lockReason });
+      }
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error amending invoice:", error);
+      res.status(400).json({ error: "Invalid invoice amendment" });
     }
   });
 
@@ -389,58 +759,180 @@ export async function registerRoutes(
   app.get("/api/vendor-payments", async (req, res) => {
     const { vendorId } = req.query;
     const payments = await storage.getVendorPayments(vendorId as string | undefined);
-    res.json(payments);
+    const allocations = await storage.getPurchaseAllocations(vendorId as string | undefined);
+    res.json(payments.map((payment) => {
+      const allocated = allocations
+        .filter((a) => a.sourceType === "payment" && a.sourceId === payment.id)
+        .reduce((sum, a) => sum + a.amount, 0);
+      return { ...payment, unallocated: Math.max(0, payment.amount - allocated) };
+    }));
+  });
+
+  const purchaseAllocationRequestSchema = z.union([
+    z.literal("auto"),
+    z.array(z.object({ purchaseId: z.string(), amount: z.number().positive() })),
+  ]);
+
+  const vendorPaymentSchema = insertVendorPaymentSchema.extend({
+    advanceRecovered: z.number().min(0).optional(),
+    allocations: purchaseAllocationRequestSchema.optional(),
+  }).refine((payment) => (payment.advanceRecovered ?? 0) <= payment.amount, {
+    message: "Advance recovered cannot exceed the payment amount",
   });
 
   app.post("/api/vendor-payments", async (req, res) => {
     try {
-      const data = insertVendorPaymentSchema.parse(req.body);
-      const payment = await storage.createVendorPayment(data);
+      const { allocations, ...data } = vendorPaymentSchema.parse(req.body);
+      // Without explicit allocations the oldest open purchases are settled first
+      const payment = await storage.createVendorPayment(data, allocations ?? "auto");
       res.status(201).json(payment);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: "Invalid payment data" });
     }
   });
 
+  app.post("/api/vendor-payments/:id/allocations", async (req, res) => {
+    try {
+      const allocation = purchaseAllocationRequestSchema.parse(req.body.allocations);
+      const allocations = await storage.allocateVendorPayment(req.params.id, allocation);
+      if (!allocations) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+      res.status(201).json(allocations);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Invalid allocation" });
+    }
+  });
+
+  // Farmer Advances
+  app.get("/api/farmer-advances", async (req, res) => {
+    const { vendorId } = req.query;
+    const advances = await storage.getFarmerAdvances(vendorId as string | undefined);
+    res.json(advances);
+  });
+
+  const farmerAdvanceSchema = insertFarmerAdvanceSchema.extend({
+    amount: z.number().positive(),
+    interestRate: z.number().min(0).max(100).default(0),
+  });
+
+  app.post("/api/farmer-advances", async (req, res) => {
+    try {
+      const parsed = farmerAdvanceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid advance data" });
+      }
+      const vendor = await storage.getVendor(parsed.data.vendorId);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+      const advance = await storage.createFarmerAdvance(parsed.data);
+      res.status(201).json(advance);
+    } catch (error) {
+      console.error("Farmer advance error:", error);
+      res.status(500).json({ error: "Failed to record advance" });
+    }
+  });
+
   // Customer Payments
   app.get("/api/customer-payments", async (req, res) => {
     const { customerId } = req.query;
     const payments = await storage.getCustomerPayments(customerId as string | undefined);
+    const allocations = await storage.getCustomerPaymentAllocations(customerId as string | undefined);
     
-    // Enrich payments with invoice numbers
+    // Enrich payments with the invoices they were allocated to
     const allInvoices = await storage.getInvoices();
+    const invoiceNumberOf = (id: string) => allInvoices.find(inv => inv.id === id)?.invoiceNumber || null;
     const enrichedPayments = payments.map(payment => {
-      const invoice = payment.invoiceId ? allInvoices.find(inv => inv.id === payment.invoiceId) : null;
+      const paymentAllocations = allocations
+        .filter(a => a.paymentId === payment.id)
+        .map(a => ({ invoiceId: a.invoiceId, invoiceNumber: invoiceNumberOf(a.invoiceId), amount: a.amount }));
+      const allocated = paymentAllocations.reduce((sum, a) => sum + a.amount, 0);
       return {
         ...payment,
-        invoiceNumber: invoice?.invoiceNumber || null,
+        invoiceNumber: paymentAllocations.map(a => a.invoiceNumber).filter(Boolean).join(", ")
+          || (payment.invoiceId ? invoiceNumberOf(payment.invoiceId) : null),
+        allocations: paymentAllocations,
+        unallocated: Math.max(0, payment.amount - allocated),
       };
     });
     
     res.json(enrichedPayments);
   });
 
+  const allocationRequestSchema = z.union([
+    z.literal("auto"),
+    z.array(z.object({ invoiceId: z.string(), amount: z.number().positive() })),
+  ]);
+
+  const customerPaymentSchema = insertCustomerPaymentSchema.extend({
+    allocations: allocationRequestSchema.optional(),
+  });
+
   app.post("/api/customer-payments", async (req, res) => {
     try {
-      const data = insertCustomerPaymentSchema.parse(req.body);
-      const payment = await storage.createCustomerPayment(data);
+      const { allocations, ...data } = customerPaymentSchema.parse(req.body);
+      // Without explicit allocations the oldest open bills are settled first
+      const payment = await storage.createCustomerPayment(data, allocations ?? "auto");
       res.status(201).json(payment);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(400).json({ error: "Invalid payment data" });
     }
   });
 
+  // Apply the unallocated remainder of an existing payment, e.g. customer credit on account
+  app.post("/api/customer-payments/:id/allocations", async (req, res) => {
+    try {
+      const allocation = allocationRequestSchema.parse(req.body.allocations);
+      const allocations = await storage.allocateCustomerPayment(req.params.id, allocation);
+      if (!allocations) {
+        return res.status(404).json({ error: "Payment not found" });
+      }
+      res.status(201).json(allocations);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Invalid allocation" });
+    }
+  });
+
+  app.get("/api/invoice-settlements", async (req, res) => {
+    const { customerId } = req.query;
+    const settlements = await storage.getInvoiceSettlements(customerId as string | undefined);
+    res.json(settlements);
+  });
+
   // Company Settings
   app.get("/api/company-settings", async (req, res) => {
     const settings = await storage.getCompanySettings();
-    res.json(settings || null);
+    res.json(settings ? toPublicSettings(settings) : null);
+  });
+
+  // The override code is write-only: it is hashed here and left unchanged when omitted
+  const companySettingsSchema = insertCompanySettingsSchema.omit({ ownerOverrideHash: true }).extend({
+    invoicePrefix: z.string().regex(INVOICE_PREFIX_PATTERN).optional(),
+    invoiceLockDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+    ownerOverrideCode: z.string().min(4).optional(),
   });
 
   app.post("/api/company-settings", async (req, res) => {
     try {
-      const data = insertCompanySettingsSchema.parse(req.body);
-      const settings = await storage.upsertCompanySettings(data);
-      res.status(201).json(settings);
+      const { ownerOverrideCode, ...data } = companySettingsSchema.parse(req.body);
+      const settings = await storage.upsertCompanySettings({
+        ...data,
+        ...(ownerOverrideCode ? { ownerOverrideHash: hashOverrideCode(ownerOverrideCode) } : {}),
+      });
+      res.status(201).json(toPublicSettings(settings));
     } catch (error) {
       res.status(400).json({ error: "Invalid company settings" });
     }
@@ -501,6 +993,7 @@ export async function registerRoutes(
     productId: z.string(),
     quantity: z.number().positive(),
     purchaseId: z.string().optional(),
+    unitCost: z.number().min(0).optional(), // defaults to the purchase line, then the product's purchase price
   });
 
   app.post("/api/vehicles/:id/inventory/load", async (req, res) => {
@@ -515,15 +1008,80 @@ export async function registerRoutes(
         req.params.id,
         data.productId,
         data.quantity,
-        data.purchaseId
+        data.purchaseId,
+        data.unitCost
       );
       res.status(201).json(inventory);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
       console.error("Error loading inventory:", error);
       res.status(400).json({ error: "Invalid inventory data" });
     }
   });
 
+  const vehicleSaleSchema = invoiceSchema.omit({ customerId: true, vehicleId: true }).extend({
+    customerId: z.string().optional(),
+    customerName: z.string().optional(),
+  });
+
+  // Sell from a vehicle: stock check, invoice, inventory deduction and movements in one transaction
+  app.post("/api/vehicles/:id/sales", async (req, res) => {
+    try {
+      const vehicle = await storage.getVehicle(req.params.id);
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      const data = vehicleSaleSchema.parse(req.body);
+      const { items, customerId, customerName, ...invoiceData } = data;
+      if (!customerId && !customerName?.trim()) {
+        return res.status(400).json({ error: "Please select or enter a customer name" });
+      }
+
+      const priced = await priceInvoiceRequest(data, customerId);
+      if ("error" in priced) {
+        return res.status(400).json(priced);
+      }
+      const { totals, placeOfSupply } = priced;
+
+      const invoice = await storage.transaction(async (tx) => {
+        // A walk-in customer is only kept if the sale itself succeeds
+        const saleCustomerId = customerId
+          ?? (await tx.createCustomer({ name: customerName!.trim(), phone: "", address: "", email: "" })).id;
+
+        return tx.sellFromVehicle(
+          vehicle.id,
+          {
+            ...invoiceData,
+            customerId: saleCustomerId,
+            vendorId: vehicle.vendorId,
+            subtotal: totals.subtotal,
+            placeOfSupply,
+            cgstAmount: totals.cgstAmount,
+            sgstAmount: totals.sgstAmount,
+            igstAmount: totals.igstAmount,
+            hamaliChargeAmount: totals.hamaliChargeAmount,
+            totalKgWeight: totals.totalKgWeight,
+            grandTotal: totals.grandTotal,
+          },
+          totals.items.map((item, index) => ({ ...item, invoiceId: "", lotId: items[index].lotId ?? null }))
+        );
+      });
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ error: error.message, shortages: error.shortages });
+      }
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Vehicle sale error:", error);
+      res.status(400).json({ error: "Invalid sale data" });
+    }
+  });
+
   // Vendor Returns
   app.get("/api/vendor-returns", async (req, res) => {
     const { vendorId } = req.query;
@@ -550,13 +1108,12 @@ export async function registerRoutes(
     vehicleId: z.string().optional(),
     date: z.string(),
     totalAmount: z.number(),
-    status: z.string().optional(),
     notes: z.string().optional(),
     items: z.array(
       z.object({
         productId: z.string(),
         quantity: z.number(),
-        unitPrice: z.number(),
+        unitPrice: z.number().min(0),
         total: z.number(),
         reason: z.string(),
       })
@@ -578,6 +1135,126 @@ export async function registerRoutes(
     }
   });
 
+  // Sales Returns - credit notes issued to customers against an invoice
+  app.get("/api/sales-returns", async (req, res) => {
+    const { customerId } = req.query;
+    const returns = await storage.getSalesReturns(customerId as string | undefined);
+    res.json(returns);
+  });
+
+  app.get("/api/sales-returns/:id", async (req, res) => {
+    const salesReturn = await storage.getSalesReturn(req.params.id);
+    if (!salesReturn) {
+      return res.status(404).json({ error: "Sales return not found" });
+    }
+    res.json(salesReturn);
+  });
+
+  app.get("/api/sales-returns/:id/items", async (req, res) => {
+    const items = await storage.getSalesReturnItems(req.params.id);
+    res.json(items);
+  });
+
+  app.get("/api/invoices/:id/returned-quantities", async (req, res) => {
+    const returned = await storage.getReturnedQuantities(req.params.id);
+    res.json(Object.fromEntries(returned));
+  });
+
+  // Prices and tax come from the invoice; the client only says what came back
+  const salesReturnSchema = z.object({
+    invoiceId: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    notes: z.string().optional(),
+    items: z.array(
+      z.object({
+        invoiceItemId: z.string(),
+        quantity: z.number().positive(),
+        condition: z.enum(["restock", "damaged"]),
+        reason: z.string().trim().min(1),
+      })
+    ).min(1),
+  });
+
+  app.post("/api/sales-returns", async (req, res) => {
+    try {
+      const parsed = salesReturnSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid sales return data" });
+      }
+      const salesReturn = await storage.createSalesReturn(parsed.data);
+      if (!salesReturn) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+      res.status(201).json(salesReturn);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Sales return error:", error);
+      res.status(500).json({ error: "Failed to record sales return" });
+    }
+  });
+
+  // Pattis
+  app.get("/api/pattis", async (req, res) => {
+    const { vendorId } = req.query;
+    const pattis = await storage.getPattis(vendorId as string | undefined);
+    res.json(pattis);
+  });
+
+  app.get("/api/pattis/:id", async (req, res) => {
+    const patti = await storage.getPatti(req.params.id);
+    if (!patti) {
+      return res.status(404).json({ error: "Patti not found" });
+    }
+    res.json(patti);
+  });
+
+  app.get("/api/pattis/:id/items", async (req, res) => {
+    const items = await storage.getPattiItems(req.params.id);
+    res.json(items);
+  });
+
+  app.get("/api/vehicles/:id/patti-draft", async (req, res) => {
+    const draft = await storage.getPattiDraft(req.params.id);
+    if (!draft) {
+      return res.status(404).json({ error: "Vehicle not found or has no vendor" });
+    }
+    res.json(draft);
+  });
+
+  // Gross sales come from the vehicle's invoices; the client only gives the deductions
+  const pattiSchema = z.object({
+    vehicleId: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    commissionPercent: z.number().min(0).max(100).optional(),
+    hamaliAmount: z.number().min(0).default(0),
+    unloadingAmount: z.number().min(0).default(0),
+    transportAmount: z.number().min(0).default(0),
+    advanceAmount: z.number().min(0).default(0),
+    notes: z.string().optional(),
+  });
+
+  app.post("/api/pattis", async (req, res) => {
+    try {
+      const parsed = pattiSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid patti data" });
+      }
+      const patti = await storage.createPatti(parsed.data);
+      if (!patti) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+      res.status(201).json(patti);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Patti error:", error);
+      res.status(500).json({ error: "Failed to generate patti" });
+    }
+  });
+
   // Hamali Cash Payments (direct cash payments not through invoices)
   app.get("/api/hamali-cash", async (req, res) => {
     const payments = await storage.getHamaliCashPayments();
@@ -607,16 +1284,147 @@ export async function registerRoutes(
     }
   });
 
+  // Expenses
+  const expenseSchema = insertExpenseSchema.extend({
+    category: z.enum(Object.keys(EXPENSE_CATEGORIES) as [ExpenseCategory, ...ExpenseCategory[]]),
+  });
+
+  app.get("/api/expenses", async (req, res) => {
+    const from = typeof req.query.from === "string" && req.query.from ? req.query.from : undefined;
+    const to = typeof req.query.to === "string" && req.query.to ? req.query.to : undefined;
+    const expenses = await storage.getExpenses(from, to);
+    res.json(expenses);
+  });
+
+  app.get("/api/expenses/:id", async (req, res) => {
+    const expense = await storage.getExpense(req.params.id);
+    if (!expense) {
+      return res.status(404).json({ error: "Expense not found" });
+    }
+    res.json(expense);
+  });
+
+  app.post("/api/expenses", async (req, res) => {
+    try {
+      const data = expenseSchema.parse(req.body);
+      const expense = await storage.createExpense(data);
+      res.status(201).json(expense);
+    } catch (error) {
+      console.error("Expense error:", error);
+      res.status(400).json({ error: "Invalid expense data" });
+    }
+  });
+
+  app.patch("/api/expenses/:id", async (req, res) => {
+    try {
+      const data = expenseSchema.partial().parse(req.body);
+      const expense = await storage.updateExpense(req.params.id, data);
+      if (!expense) {
+        return res.status(404).json({ error: "Expense not found" });
+      }
+      res.json(expense);
+    } catch (error) {
+      console.error("Expense error:", error);
+      res.status(400).json({ error: "Invalid expense data" });
+    }
+  });
+
+  app.delete("/api/expenses/:id", async (req, res) => {
+    const success = await storage.deleteExpense(req.params.id);
+    if (!success) {
+      return res.status(404).json({ error: "Expense not found" });
+    }
+    res.status(204).send();
+  });
+
+  app.get("/api/expenses/:id/attachments", async (req, res) => {
+    const attachments = await storage.getExpenseAttachments(req.params.id);
+    res.json(attachments);
+  });
+
+  const expenseAttachmentSchema = z.object({
+    fileName: z.string().trim().min(1),
+    contentType: z.enum(EXPENSE_ATTACHMENT_TYPES),
+    data: z.string().min(1), // base64, without the data: URL prefix
+  });
+
+  app.post("/api/expenses/:id/attachments", async (req, res) => {
+    try {
+      const expense = await storage.getExpense(req.params.id);
+      if (!expense) {
+        return res.status(404).json({ error: "Expense not found" });
+      }
+      const { fileName, contentType, data } = expenseAttachmentSchema.parse(req.body);
+      const size = Buffer.from(data, "base64").length;
+      if (size > MAX_EXPENSE_ATTACHMENT_BYTES) {
+        return res.status(413).json({ error: "Attachment is too large" });
+      }
+      const attachment = await storage.createExpenseAttachment({
+        expenseId: expense.id,
+        fileName,
+        contentType,
+        size,
+        data,
+      });
+      res.status(201).json(attachment);
+    } catch (error) {
+      console.error("Expense attachment error:", error);
+      res.status(400).json({ error: "Invalid attachment data" });
+    }
+  });
+
+  app.get("/api/expense-attachments/:id", async (req, res) => {
+    const attachment = await storage.getExpenseAttachment(req.params.id);
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+    // Anything else stored before types were checked is downloaded, never rendered
+    const inline = isExpenseAttachmentType(attachment.contentType);
+    res.setHeader("Content-Type", inline ? attachment.contentType : "application/octet-stream");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Disposition", contentDisposition(inline ? "inline" : "attachment", attachment.fileName));
+    res.send(Buffer.from(attachment.data, "base64"));
+  });
+
+  app.delete("/api/expense-attachments/:id", async (req, res) => {
+    const success = await storage.deleteExpenseAttachment(req.params.id);
+    if (!success) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+    res.status(204).send();
+  });
+
   // Reports
+  // Both ends of the range are optional, and a cleared date field comes through blank;
+  // without them the report covers everything on record
+  const reportRangeSchema = z.object({
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).or(z.literal("")).optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).or(z.literal("")).optional(),
+  });
+
   app.get("/api/reports/profit-loss", async (req, res) => {
     try {
+      const range = reportRangeSchema.safeParse(req.query);
+      if (!range.success) {
+        return res.status(400).json({ error: "Invalid report range" });
+      }
+      const startDate = range.data.startDate || undefined;
+      const endDate = range.data.endDate || undefined;
+      const inRange = (date: string) => (!startDate || date >= startDate) && (!endDate || date <= endDate);
+
       const products = await storage.getProducts();
-      const invoices = await storage.getInvoices();
-      const purchases = await storage.getPurchases();
-      const vendorReturns = await storage.getVendorReturns();
+      // Voided invoices stay on record but no longer count as sales
+      const invoices = (await storage.getInvoices()).filter((i) => i.status !== "void" && inRange(i.date));
+      const purchases = (await storage.getPurchases()).filter((p) => inRange(p.date));
+      const vendorReturns = (await storage.getVendorReturns()).filter((r) => inRange(r.date));
+      const salesReturns = (await storage.getSalesReturns()).filter((r) => inRange(r.date));
+      const pattis = (await storage.getPattis()).filter((p) => inRange(p.date));
       const customers = await storage.getCustomers();
-      const allCustomerPayments = await storage.getCustomerPayments();
-      const hamaliCashPayments = await storage.getHamaliCashPayments();
+      const vendors = await storage.getVendors();
+      const vehicles = await storage.getVehicles();
+      const allCustomerPayments = (await storage.getCustomerPayments()).filter((p) => inRange(p.date));
+      const hamaliCashPayments = (await storage.getHamaliCashPayments()).filter((p) => inRange(p.date));
+      const expenses = (await storage.getExpenses()).filter((e) => inRange(e.date));
 
       let totalPurchases = 0;
       let totalSales = 0;
@@ -626,25 +1434,114 @@ export async function registerRoutes(
         totalPurchases += purchase.totalAmount;
       }
 
+      // Goods sold on commission are bought in at what they fetched; what we
+      // keep back as commission and charges is our income from them
+      const totalPattiPurchases = pattis.reduce((sum, p) => sum + p.grossSales, 0);
+      const commissionIncome = pattis.reduce((sum, p) => sum + p.commissionAmount + p.unloadingAmount + p.transportAmount, 0);
+      totalPurchases += totalPattiPurchases;
+
+      // Sales are the taxable value of the goods, as the ledger books them: GST collected is
+      // owed to the government and Hamali billed is held for the labourers
       for (const invoice of invoices) {
-        totalSales += invoice.grandTotal;
+        totalSales += invoice.subtotal;
       }
 
+      // Credit notes take the returned goods back out of sales
+      const totalSalesReturns = salesReturns.reduce((sum, r) => sum + r.subtotal, 0);
+      totalSales -= totalSalesReturns;
+
       for (const vendorReturn of vendorReturns) {
         totalReturns += vendorReturn.totalAmount;
       }
 
-      // Net purchases = purchases - returns (returns reduce cost of goods)
+      // Net purchases = purchases - returns; shown for reference, since stock
+      // bought in the period is not necessarily sold in it
       const netPurchases = totalPurchases - totalReturns;
 
-      const productProfits = products.map((p) => ({
-        id: p.id,
-        name: p.name,
-        purchasePrice: p.purchasePrice,
-        salePrice: p.salePrice,
-        margin: p.salePrice - p.purchasePrice,
-        marginPercent: ((p.salePrice - p.purchasePrice) / p.purchasePrice) * 100,
-      }));
+      // Cost of goods sold is what the goods actually sold cost: the lots each
+      // invoice line drew from, or for lines sold before lot costing the
+      // product's weighted average purchase cost. Goods sold for a farmer on
+      // commission cost exactly what they fetched - they are settled by patti.
+      const invoicesById = new Map((await storage.getInvoices()).map((invoice) => [invoice.id, invoice]));
+      const purchaseDates = new Map((await storage.getPurchases()).map((purchase) => [purchase.id, purchase.date]));
+      const vehiclesById = new Map(vehicles.map((vehicle) => [vehicle.id, vehicle]));
+      const invoiceItemsById = new Map<string, InvoiceItem>();
+      const itemsByInvoice = new Map<string, InvoiceItem[]>();
+      for (const item of await storage.getAllInvoiceItems()) {
+        invoiceItemsById.set(item.id, item);
+        const lines = itemsByInvoice.get(item.invoiceId) ?? [];
+        lines.push(item);
+        itemsByInvoice.set(item.invoiceId, lines);
+      }
+      const receiptsByProduct = new Map<string, { quantity: number; amount: number }[]>();
+      for (const item of await storage.getAllPurchaseItems()) {
+        if (endDate && (purchaseDates.get(item.purchaseId) ?? "") > endDate) continue;
+        const receipts = receiptsByProduct.get(item.productId) ?? [];
+        receipts.push({ quantity: item.quantity, amount: item.total });
+        receiptsByProduct.set(item.productId, receipts);
+      }
+      const averageCosts = new Map(products.map((product) =>
+        [product.id, weightedAverageCost(receiptsByProduct.get(product.id) ?? []) ?? product.purchasePrice]
+      ));
+
+      const soldOnCommission = (invoice: Invoice) =>
+        !!invoice.vehicleId && !!vehiclesById.get(invoice.vehicleId)?.commissionMode;
+      const lineCost = (invoice: Invoice, item: InvoiceItem) => {
+        if (soldOnCommission(invoice)) return item.total;
+        if (item.costAmount > 0) return item.costAmount;
+        return item.quantity * (averageCosts.get(item.productId) ?? 0);
+      };
+      const soldLine = (invoice: Invoice, item: InvoiceItem, quantity: number, sales: number, cost: number): SoldLine => ({
+        productId: item.productId,
+        customerId: invoice.customerId,
+        vendorId: invoice.vendorId ?? (invoice.vehicleId ? vehiclesById.get(invoice.vehicleId)?.vendorId : null) ?? null,
+        vehicleId: invoice.vehicleId,
+        quantity,
+        sales,
+        cost,
+      });
+
+      const soldLines: SoldLine[] = [];
+      for (const invoice of invoices) {
+        for (const item of itemsByInvoice.get(invoice.id) ?? []) {
+          soldLines.push(soldLine(invoice, item, item.quantity, item.total, lineCost(invoice, item)));
+        }
+      }
+      // Restocked returns put their cost back into stock; damaged goods stay a cost of the sale
+      for (const salesReturn of salesReturns) {
+        const invoice = invoicesById.get(salesReturn.invoiceId);
+        if (!invoice) continue;
+        for (const returned of await storage.getSalesReturnItems(salesReturn.id)) {
+          const item = invoiceItemsById.get(returned.invoiceItemId);
+          if (!item || item.quantity <= 0) continue;
+          const cost = returned.condition === "restock" || soldOnCommission(invoice)
+            ? (lineCost(invoice, item) * returned.quantity) / item.quantity
+            : 0;
+          soldLines.push(soldLine(invoice, item, -returned.quantity, -returned.total, -cost));
+        }
+      }
+
+      const costOfGoodsSold = soldLines.reduce((sum, line) => sum + line.cost, 0);
+      const grossProfit = totalSales - costOfGoodsSold + commissionIncome;
+
+      // Running expenses come off gross profit, broken down by category
+      const expensesByCategory = (Object.keys(EXPENSE_CATEGORIES) as ExpenseCategory[])
+        .map((category) => ({
+          category,
+          label: getExpenseCategoryLabel(category),
+          amount: expenses.filter((e) => e.category === category).reduce((sum, e) => sum + e.amount, 0),
+        }))
+        .filter((c) => c.amount > 0);
+      const totalExpenses = expensesByCategory.reduce((sum, c) => sum + c.amount, 0);
+
+      const named = (rows: MarginRow[], nameOf: (key: string) => string | undefined, fallback: string) =>
+        rows.map((row) => ({ ...row, name: (row.key && nameOf(row.key)) || fallback }));
+      const margins = {
+        byProduct: named(groupMargins(soldLines, (l) => l.productId), (key) => products.find((p) => p.id === key)?.name, "Unknown"),
+        byCustomer: named(groupMargins(soldLines, (l) => l.customerId), (key) => customers.find((c) => c.id === key)?.name, "Unknown"),
+        byVendor: named(groupMargins(soldLines, (l) => l.vendorId), (key) => vendors.find((v) => v.id === key)?.name, "No vendor"),
+        byVehicle: named(groupMargins(soldLines, (l) => l.vehicleId), (key) => vehicles.find((v) => v.id === key)?.number, "Counter sales"),
+      };
 
       // Hamali charge breakdown
       let invoiceHamaliTotal = 0;  // Hamali from invoices
@@ -694,7 +1591,8 @@ export async function registerRoutes(
         
         const totalInvoiced = customerInvoices.reduce((sum, i) => sum + i.grandTotal, 0);
         const totalPaid = customerPayments.reduce((sum, p) => sum + p.amount, 0);
-        const balance = totalInvoiced - totalPaid;
+        const totalCredited = salesReturns.filter((r) => r.customerId === customer.id).reduce((sum, r) => sum + r.totalAmount, 0);
+        const balance = totalInvoiced - totalPaid - totalCredited;
 
         const hamaliAmount = customerInvoices
           .filter((i) => i.includeHamaliCharge)
@@ -705,6 +1603,7 @@ export async function registerRoutes(
           customerName: customer.name,
           totalInvoiced,
           totalPaid,
+          totalCredited,
           balance,
           hamaliAmount,
           paymentStatus: balance <= 0 ? "paid" : balance < totalInvoiced ? "partial" : "unpaid",
@@ -712,12 +1611,21 @@ export async function registerRoutes(
       }).filter((c) => c.totalInvoiced > 0); // Only show customers with invoices
 
       res.json({
+        startDate: startDate ?? null,
+        endDate: endDate ?? null,
         totalPurchases,
         totalReturns,
         netPurchases,
+        totalSalesReturns,
         totalSales,
-        grossProfit: totalSales - netPurchases,
-        productProfits,
+        totalPattiPurchases,
+        commissionIncome,
+        costOfGoodsSold,
+        grossProfit,
+        totalExpenses,
+        expensesByCategory,
+        netProfit: grossProfit - totalExpenses,
+        margins,
         // Hamali charge data
         hamaliSummary: {
           invoiceHamaliTotal,
@@ -737,6 +1645,236 @@ export async function registerRoutes(
     }
   });
 
+  const agingDateSchema = z.object({
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).or(z.literal("")).optional(),
+  });
+
+  // Open invoice amounts per customer, spread into age buckets by invoice date.
+  // A past asOf shows what was owed then, ignoring later payments and credit notes.
+  app.get("/api/reports/receivables-aging", async (req, res) => {
+    try {
+      const query = agingDateSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid aging date" });
+      }
+      const asOf = query.data.asOf || new Date().toISOString().split("T")[0];
+      const customers = await storage.getCustomers();
+      const settlements = (await storage.getInvoiceSettlements(undefined, asOf)).filter((s) => s.outstanding > 0);
+
+      const totals = emptyAgingTotals(RECEIVABLE_AGING_BUCKETS);
+      const rows = customers.map((customer) => {
+        const buckets = emptyAgingTotals(RECEIVABLE_AGING_BUCKETS);
+        const invoices = settlements
+          .filter((s) => s.customerId === customer.id)
+          .map((s) => {
+            const ageDays = daysBetween(s.date, asOf);
+            const bucket = findAgingBucket(ageDays, RECEIVABLE_AGING_BUCKETS).key;
+            buckets[bucket] += s.outstanding;
+            totals[bucket] += s.outstanding;
+            return { invoiceId: s.invoiceId, invoiceNumber: s.invoiceNumber, date: s.date, ageDays, bucket, outstanding: s.outstanding };
+          });
+        return {
+          customerId: customer.id,
+          customerName: customer.name,
+          buckets,
+          total: invoices.reduce((sum, i) => sum + i.outstanding, 0),
+          invoices,
+        };
+      }).filter((row) => row.invoices.length > 0);
+
+      res.json({
+        asOf,
+        buckets: RECEIVABLE_AGING_BUCKETS.map(({ key, label }) => ({ key, label })),
+        customers: rows.sort((a, b) => b.total - a.total),
+        totals,
+        grandTotal: Object.values(totals).reduce((sum, amount) => sum + amount, 0),
+      });
+    } catch (error) {
+      console.error("Receivables aging error:", error);
+      res.status(500).json({ error: "Failed to generate report" });
+    }
+  });
+
+  app.get("/api/reports/payables-aging", async (req, res) => {
+    try {
+      const query = agingDateSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid aging date" });
+      }
+      const asOf = query.data.asOf || new Date().toISOString().split("T")[0];
+      const [vendors, allSettlements, returns, allocations] = await Promise.all([
+        storage.getVendors(),
+        storage.getPurchaseSettlements(undefined, asOf),
+        storage.getVendorReturns(),
+        storage.getPurchaseAllocations(),
+      ]);
+      const settlements = allSettlements.filter((s) => s.outstanding > 0);
+
+      const totals = emptyAgingTotals(PAYABLE_AGING_BUCKETS);
+      const rows = vendors.map((vendor) => {
+        const buckets = emptyAgingTotals(PAYABLE_AGING_BUCKETS);
+        const purchases = settlements
+          .filter((s) => s.vendorId === vendor.id)
+          .map((s) => {
+            const daysOverdue = daysBetween(s.dueDate, asOf);
+            const bucket = findAgingBucket(daysOverdue, PAYABLE_AGING_BUCKETS).key;
+            buckets[bucket] += s.outstanding;
+            totals[bucket] += s.outstanding;
+            return { purchaseId: s.purchaseId, date: s.date, dueDate: s.dueDate, daysOverdue, bucket, outstanding: s.outstanding };
+          });
+        const total = purchases.reduce((sum, p) => sum + p.outstanding, 0);
+
+        // Return credit not yet applied to a purchase is owed back by the vendor
+        const vendorReturns = returns.filter((r) => r.vendorId === vendor.id && r.date <= asOf);
+        const returnIds = new Set(vendorReturns.map((r) => r.id));
+        const appliedReturnCredit = allocations
+          .filter((a) => a.sourceType === "return" && returnIds.has(a.sourceId))
+          .reduce((sum, a) => sum + a.amount, 0);
+        const unappliedReturnCredit = Math.max(
+          0,
+          vendorReturns.reduce((sum, r) => sum + r.totalAmount, 0) - appliedReturnCredit
+        );
+
+        return {
+          vendorId: vendor.id,
+          vendorName: vendor.name,
+          paymentTermsDays: vendor.paymentTermsDays,
+          buckets,
+          total,
+          unappliedReturnCredit,
+          returnsCreditExceedsOutstanding: unappliedReturnCredit > total,
+          purchases,
+        };
+      }).filter((row) => row.purchases.length > 0 || row.returnsCreditExceedsOutstanding);
+
+      res.json({
+        asOf,
+        buckets: PAYABLE_AGING_BUCKETS.map(({ key, label }) => ({ key, label })),
+        vendors: rows.sort((a, b) => b.total - a.total),
+        totals,
+        grandTotal: Object.values(totals).reduce((sum, amount) => sum + amount, 0),
+      });
+    } catch (error) {
+      console.error("Payables aging error:", error);
+      res.status(500).json({ error: "Failed to generate report" });
+    }
+  });
+
+  const gstr1PeriodSchema = z.object({
+    period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/),
+  });
+
+  // GSTR-1 for one return period (calendar month), as offline tool JSON and CSV templates
+  app.get("/api/reports/gstr1", async (req, res) => {
+    try {
+      const parsed = gstr1PeriodSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid return period" });
+      }
+      const { period } = parsed.data;
+
+      const settings = await storage.getCompanySettings();
+      const gstin = settings?.gstNumber?.trim().toUpperCase() ?? "";
+      if (!GSTIN_PATTERN.test(gstin)) {
+        return res.status(400).json({ error: "Set a valid company GSTIN in Settings before exporting GSTR-1" });
+      }
+      const supplierState = resolveStateCode(settings?.state, gstin)!;
+
+      const products = await storage.getProducts();
+      const customers = await storage.getCustomers();
+      const allInvoices = await storage.getInvoices();
+      const invoices = allInvoices
+        .filter((invoice) => invoice.status !== "void" && invoice.date.startsWith(period))
+        .sort((a, b) => a.date.localeCompare(b.date) || a.invoiceNumber.localeCompare(b.invoiceNumber));
+      const salesReturns = (await storage.getSalesReturns())
+        .filter((salesReturn) => salesReturn.date.startsWith(period))
+        .sort((a, b) => a.date.localeCompare(b.date) || a.creditNoteNumber.localeCompare(b.creditNoteNumber));
+
+      const documents: Gstr1Document[] = [];
+      const creditNotes: Gstr1Document[] = [];
+      const missingHsn = new Set<string>();
+      for (const invoice of invoices) {
+        const customer = customers.find((c) => c.id === invoice.customerId);
+        const items = await storage.getInvoiceItems(invoice.id);
+        documents.push({
+          number: invoice.invoiceNumber,
+          date: invoice.date,
+          partyName: customer?.name || "Unknown",
+          partyGstin: customer?.gstin || null,
+          placeOfSupply: invoice.placeOfSupply,
+          value: invoice.grandTotal,
+          lines: items.map((item) => {
+            const product = products.find((p) => p.id === item.productId);
+            if (!item.hsnCode) missingHsn.add(product?.name || item.productId);
+            return {
+              hsnCode: item.hsnCode,
+              description: product?.name || "",
+              unit: product?.unit || "",
+              quantity: item.quantity,
+              gstRate: item.gstRate,
+              taxableValue: item.total,
+              cgstAmount: item.cgstAmount,
+              sgstAmount: item.sgstAmount,
+              igstAmount: item.igstAmount,
+            };
+          }),
+        });
+      }
+
+      // Credit notes are reported in the month they are issued, against the original place of supply
+      for (const salesReturn of salesReturns) {
+        const customer = customers.find((c) => c.id === salesReturn.customerId);
+        const invoice = allInvoices.find((i) => i.id === salesReturn.invoiceId);
+        const items = await storage.getSalesReturnItems(salesReturn.id);
+        creditNotes.push({
+          number: salesReturn.creditNoteNumber,
+          date: salesReturn.date,
+          partyName: customer?.name || "Unknown",
+          partyGstin: customer?.gstin || null,
+          placeOfSupply: invoice?.placeOfSupply ?? null,
+          value: salesReturn.totalAmount,
+          lines: items.map((item) => {
+            const product = products.find((p) => p.id === item.productId);
+            if (!item.hsnCode) missingHsn.add(product?.name || item.productId);
+            return {
+              hsnCode: item.hsnCode,
+              description: product?.name || "",
+              unit: product?.unit || "",
+              quantity: item.quantity,
+              gstRate: item.gstRate,
+              taxableValue: item.total,
+              cgstAmount: item.cgstAmount,
+              sgstAmount: item.sgstAmount,
+              igstAmount: item.igstAmount,
+            };
+          }),
+        });
+      }
+
+      // The HSN summary needs a code on every line sold
+      if (missingHsn.size > 0) {
+        return res.status(400).json({
+          error: "Some products sold or returned in this period have no HSN code",
+          details: Array.from(missingHsn).map((name) => `${name} has no HSN code`),
+        });
+      }
+
+      const gstr1 = buildGstr1({ gstin, period, supplierState, invoices: documents, creditNotes });
+      const validation = gstr1ReturnSchema.safeParse(gstr1.json);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "GSTR-1 export does not match the return schema",
+          details: validation.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+        });
+      }
+
+      res.json({ period, invoiceCount: documents.length, creditNoteCount: creditNotes.length, ...gstr1 });
+    } catch (error) {
+      console.error("GSTR-1 export error:", error);
+      res.status(500).json({ error: "Failed to generate GSTR-1" });
+    }
+  });
+
   app.get("/api/reports/vendor-balances", async (req, res) => {
     try {
       const vendors = await storage.getVendors();
@@ -773,5 +1911,134 @@ export async function registerRoutes(
     }
   });
 
+  // General Ledger - every document posts balanced journal entries against the chart of accounts
+  app.get("/api/ledger/accounts", (req, res) => {
+    res.json(CHART_OF_ACCOUNTS);
+  });
+
+  app.get("/api/ledger/journal", async (req, res) => {
+    try {
+      const range = statementRangeSchema.safeParse(req.query);
+      if (!range.success) {
+        return res.status(400).json({ error: "Invalid journal range" });
+      }
+      const entries = await storage.getJournalEntries(range.data.from, range.data.to);
+      res.json(entries);
+    } catch (error) {
+      console.error("Journal error:", error);
+      res.status(500).json({ error: "Failed to get journal" });
+    }
+  });
+
+  app.get("/api/ledger/trial-balance", async (req, res) => {
+    try {
+      const asOf = typeof req.query.asOf === "string" && req.query.asOf
+        ? req.query.asOf
+        : new Date().toISOString().split("T")[0];
+      const accounts = await storage.getTrialBalance(asOf);
+      const totalDebit = accounts.reduce((sum, a) => sum + a.debit, 0);
+      const totalCredit = accounts.reduce((sum, a) => sum + a.credit, 0);
+      res.json({
+        asOf,
+        accounts,
+        totalDebit,
+        totalCredit,
+        balanced: Math.abs(totalDebit - totalCredit) <= PRICING_TOLERANCE,
+      });
+    } catch (error) {
+      console.error("Trial balance error:", error);
+      res.status(500).json({ error: "Failed to generate trial balance" });
+    }
+  });
+
+  // Day book: every voucher posted on one date
+  app.get("/api/ledger/day-book", async (req, res) => {
+    try {
+      const date = typeof req.query.date === "string" && req.query.date
+        ? req.query.date
+        : new Date().toISOString().split("T")[0];
+      const entries = await storage.getJournalEntries(date, date);
+      const lines = entries.flatMap((entry) => entry.lines);
+      res.json({
+        date,
+        entries,
+        totalDebit: lines.reduce((sum, line) => sum + line.debit, 0),
+        totalCredit: lines.reduce((sum, line) => sum + line.credit, 0),
+      });
+    } catch (error) {
+      console.error("Day book error:", error);
+      res.status(500).json({ error: "Failed to generate day book" });
+    }
+  });
+
+  // Cash book: the cash account's receipts and payments with running cash in hand
+  app.get("/api/ledger/cash-book", async (req, res) => {
+    try {
+      const range = statementRangeSchema.safeParse(req.query);
+      if (!range.success) {
+        return res.status(400).json({ error: "Invalid cash book range" });
+      }
+      const to = range.data.to ?? new Date().toISOString().split("T")[0];
+      const from = range.data.from ?? to;
+      const cashBook = await storage.getAccountLedger(ACCOUNTS.cash.code, from, to);
+      res.json(cashBook);
+    } catch (error) {
+      console.error("Cash book error:", error);
+      res.status(500).json({ error: "Failed to generate cash book" });
+    }
+  });
+
+  // Cash Closings
+  app.get("/api/cash-closings", async (req, res) => {
+    const closings = await storage.getCashClosings();
+    res.json(closings);
+  });
+
+  const cashClosingSchema = z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    denominations: z.record(
+      z.enum(CASH_DENOMINATIONS.map(String) as [string, ...string[]]),
+      z.number().int().min(0)
+    ),
+    closedBy: z.string().trim().min(1),
+    notes: z.string().optional(),
+  });
+
+  // The cashier submits the physical count; expected cash comes from the cash book
+  app.post("/api/cash-closings", async (req, res) => {
+    try {
+      const closingData = cashClosingSchema.parse(req.body);
+      const closing = await storage.createCashClosing(closingData);
+      res.status(201).json(closing);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(400).json({ error: "Invalid cash closing data" });
+    }
+  });
+
   return httpServer;
 }
+
+function withPurchaseSettlement(purchase: Purchase, settlements: PurchaseSettlement[]) {
+  const settlement = settlements.find((s) => s.purchaseId === purchase.id);
+  return {
+    ...purchase,
+    paid: settlement?.paid ?? 0,
+    returned: settlement?.returned ?? 0,
+    outstanding: settlement?.outstanding ?? purchase.totalAmount,
+    status: settlement?.status ?? "unpaid",
+  };
+}
+
+function toPublicSettings({ ownerOverrideHash, ...settings }: CompanySettings): PublicCompanySettings {
+  return { ...settings, hasOwnerOverride: !!ownerOverrideHash };
+}
+
+// Plain ASCII name for old browsers plus the exact UTF-8 name (RFC 6266 / RFC 5987)
+function contentDisposition(type: "inline" | "attachment", fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
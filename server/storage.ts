@@ -17,12 +17,20 @@ import {
   type InsertInvoice,
   type InvoiceItem,
   type InsertInvoiceItem,
+  type InvoiceRevision,
+  type InvoiceRevisionChange,
   type StockMovement,
   type InsertStockMovement,
+  type StockLot,
   type VendorPayment,
   type InsertVendorPayment,
+  type PurchaseAllocation,
+  type FarmerAdvance,
+  type InsertFarmerAdvance,
+  type AdvanceRecovery,
   type CustomerPayment,
   type InsertCustomerPayment,
+  type CustomerPaymentAllocation,
   type CompanySettings,
   type InsertCompanySettings,
   type VehicleInventory,
@@ -33,8 +41,20 @@ import {
   type InsertVendorReturn,
   type VendorReturnItem,
   type InsertVendorReturnItem,
+  type SalesReturn,
+  type SalesReturnItem,
+  type Patti,
+  type PattiItem,
   type HamaliCashPayment,
   type InsertHamaliCashPayment,
+  type JournalEntry,
+  type JournalLine,
+  type CashClosing,
+  type InsertCashClosing,
+  type Expense,
+  type InsertExpense,
+  type ExpenseAttachment,
+  type ExpenseAttachmentInfo,
   vendors,
   customers,
   vehicles,
@@ -43,21 +63,250 @@ import {
   purchaseItems,
   invoices,
   invoiceItems,
+  invoiceRevisions,
   stockMovements,
+  stockLots,
+  lotConsumptions,
   vendorPayments,
+  purchaseAllocations,
+  farmerAdvances,
+  advanceRecoveries,
   customerPayments,
+  customerPaymentAllocations,
   companySettings,
   vehicleInventory,
   vehicleInventoryMovements,
   vendorReturns,
   vendorReturnItems,
+  salesReturns,
+  salesReturnItems,
+  pattis,
+  pattiItems,
   hamaliCashPayments,
+  documentSequences,
+  journalEntries,
+  journalLines,
+  cashClosings,
+  expenses,
+  expenseAttachments,
   users,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { DEFAULT_HAMALI_RATE_PER_KG, calculateInvoiceTotals, type HamaliTerms, type PricingLine } from "@shared/pricing";
+import { PRICING_TOLERANCE, roundMoney } from "@shared/money";
+import { addDays } from "@shared/aging";
+import { calculateLineTax, isInterStateSupply, resolveStateCode } from "@shared/gst";
+import {
+  allocateOldestFirst,
+  getOutstanding,
+  getSettlementStatus,
+  type Allocation,
+  type OpenDocument,
+  type SettlementStatus,
+} from "@shared/settlement";
+import { db as rootDb, type DbExecutor } from "./db";
+import { DEFAULT_DOCUMENT_PREFIXES, formatDocumentNumber, getFinancialYear, type DocumentSeries } from "@shared/numbering";
+import {
+  assertBalanced,
+  customerPaymentJournal,
+  expenseJournal,
+  farmerAdvanceJournal,
+  hamaliCashJournal,
+  invoiceJournal,
+  invoiceRevisionJournal,
+  invoiceVersions,
+  invoiceVoidJournal,
+  pattiJournal,
+  purchaseJournal,
+  salesReturnJournal,
+  vendorPaymentJournal,
+  vendorReturnJournal,
+  type JournalDraft,
+} from "./ledger";
+import { ACCOUNTS, CHART_OF_ACCOUNTS, findAccount, type AccountType, type JournalSourceType } from "@shared/ledger";
+import { countCash } from "@shared/cash";
+import { calculatePatti, type PattiDeductions } from "@shared/patti";
+import { allocateRecovery, getAdvancePosition, type AdvancePosition, type RecoveryPart } from "@shared/advances";
+import { costOfDraws, planLotDraws, type LotConsumer, type LotSource } from "@shared/lots";
+import { eq, and, or, asc, desc, gt, gte, isNotNull, isNull, lt, lte, ne, sql, inArray } from "drizzle-orm";
+
+export interface StockShortage {
+  productId: string;
+  productName: string;
+  available: number;
+  requested: number;
+}
+
+// Raised when a sale asks for more than a vehicle holds; rolls back the whole sale
+export class InsufficientStockError extends Error {
+  constructor(public readonly shortages: StockShortage[]) {
+    super(shortages
+      .map((s) => `Insufficient stock for ${s.productName}: available ${s.available}, requested ${s.requested}`)
+      .join("; "));
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Raised when a record is not in a state that allows the requested change
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+// Raised when an invoice is fully paid or falls before the lock date and the
+// amendment was not authorised with the owner override
+export class InvoiceLockedError extends ConflictError {
+  constructor(public readonly invoiceNumber: string, public readonly lockReason: string) {
+    super(`Invoice ${invoiceNumber} is locked: ${lockReason}`);
+    this.name = "InvoiceLockedError";
+  }
+}
+
+// Desired state of an invoice after an edit: lines with an id are updated,
+// lines without one are added and existing lines left out are removed
+// Each product appears on one line at most, so stock moves once per product
+export interface InvoiceAmendment extends Partial<HamaliTerms> {
+  items: { id?: string; productId: string; quantity: number; unitPrice: number; lotId?: string }[];
+}
+
+// Who made an amendment and whether the owner override was supplied
+export interface AmendmentAuthor {
+  changedBy: string;
+  lockOverride?: boolean;
+}
+
+// Goods a customer sends back against an invoice; prices and tax are taken
+// from the invoice lines, so only quantities and what happens to the goods are given
+export interface SalesReturnRequest {
+  invoiceId: string;
+  date: string;
+  notes?: string | null;
+  items: { invoiceItemId: string; quantity: number; condition: "restock" | "damaged"; reason: string }[];
+}
+
+// Settlement of a sold-out commission vehicle; gross sales are worked out
+// from its invoices, so only the deductions are given
+export interface PattiRequest extends Omit<PattiDeductions, "commissionPercent"> {
+  vehicleId: string;
+  date: string;
+  commissionPercent?: number; // defaults to the vendor's rate
+  notes?: string | null;
+}
+
+// What a patti for the vehicle would settle if generated now
+export interface PattiDraft {
+  vehicleId: string;
+  vendorId: string;
+  commissionPercent: number;
+  outstandingAdvances: number; // the most that can be recovered in the patti
+  soldOut: boolean;
+  remainingQuantity: number;
+  grossSales: number;
+  lines: { productId: string; quantity: number; amount: number }[];
+}
+
+// Which lots a draw may take from: the vehicle's own lots, or warehouse lots
+// when there is no vehicle. A chosen lot or a purchase's lots go ahead of the rest.
+interface LotPreference {
+  vehicleId: string | null;
+  lotId?: string | null;
+  purchaseId?: string | null;
+}
+
+export interface StockLotFilter {
+  productId?: string;
+  vehicleId?: string;
+  openOnly?: boolean; // only lots with stock left
+}
+
+// An advance with what has been recovered and what is still owed, interest included
+export type FarmerAdvanceStatus = FarmerAdvance & Omit<AdvancePosition, "advanceId">;
+
+// How a payment is spread over invoices: oldest-first, or explicit amounts per invoice
+export type AllocationRequest = "auto" | { invoiceId: string; amount: number }[];
+
+// How a vendor payment is spread over purchases: oldest-first, or explicit amounts per purchase
+export type PurchaseAllocationRequest = "auto" | { purchaseId: string; amount: number }[];
+
+export interface PurchaseSettlement {
+  purchaseId: string;
+  vendorId: string;
+  date: string;
+  dueDate: string;
+  totalAmount: number;
+  paid: number;
+  returned: number;
+  outstanding: number;
+  status: SettlementStatus;
+}
+
+export interface InvoiceSettlement {
+  invoiceId: string;
+  invoiceNumber: string;
+  customerId: string;
+  date: string;
+  grandTotal: number;
+  allocated: number;
+  credited: number; // credit notes issued against the invoice
+  outstanding: number;
+  status: SettlementStatus;
+}
+
+export type JournalEntryWithLines = JournalEntry & { lines: JournalLine[] };
+
+// Net balance of one account, shown on the side it falls
+export interface TrialBalanceRow {
+  code: string;
+  name: string;
+  type: AccountType;
+  debit: number;
+  credit: number;
+}
+
+// Movements on one account over a period, with the balance carried in and out
+export interface AccountLedger {
+  accountCode: string;
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: {
+    entryId: string;
+    date: string;
+    voucherType: string;
+    reference: string | null;
+    narration: string;
+    debit: number;
+    credit: number;
+    balance: number;
+  }[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+// Invoice fields compared when recording a revision
+const REVISED_INVOICE_FIELDS = [
+  "includeHamaliCharge",
+  "hamaliRatePerKg",
+  "hamaliRatePerBag",
+  "bags",
+  "hamaliPaidByCash",
+  "subtotal",
+  "cgstAmount",
+  "sgstAmount",
+  "igstAmount",
+  "hamaliChargeAmount",
+  "grandTotal",
+] as const;
+
+const REVISED_ITEM_FIELDS = ["quantity", "unitPrice", "total"] as const;
 
 export interface IStorage {
+  // Runs `work` as a single unit of work: every write made through the storage
+  // handed to the callback commits together or is rolled back together.
+  transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T>;
+
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
 
@@ -88,27 +337,56 @@ export interface IStorage {
 
   getPurchases(): Promise<Purchase[]>;
   getPurchase(id: string): Promise<Purchase | undefined>;
-  createPurchase(purchase: InsertPurchase, items: InsertPurchaseItem[]): Promise<Purchase>;
+  createPurchase(purchase: Omit<InsertPurchase, "dueDate">, items: InsertPurchaseItem[]): Promise<Purchase>;
   getPurchaseItems(purchaseId: string): Promise<PurchaseItem[]>;
+  getAllPurchaseItems(): Promise<PurchaseItem[]>;
 
   getInvoices(): Promise<Invoice[]>;
   getInvoice(id: string): Promise<Invoice | undefined>;
   getInvoicesByCustomer(customerId: string): Promise<Invoice[]>;
-  createInvoice(invoice: InsertInvoice, items: InsertInvoiceItem[]): Promise<Invoice>;
-  updateInvoice(id: string, updates: Partial<InsertInvoice>): Promise<Invoice | undefined>;
-  updateInvoiceItem(id: string, updates: { quantity?: number; unitPrice?: number; total?: number }): Promise<InvoiceItem | undefined>;
+  // The invoice number is allocated from the financial-year sequence inside the same transaction
+  createInvoice(invoice: Omit<InsertInvoice, "invoiceNumber">, items: InsertInvoiceItem[]): Promise<Invoice>;
+  // Validates the vehicle's stock for every line up front, then invoices and deducts in one transaction
+  sellFromVehicle(vehicleId: string, invoice: Omit<InsertInvoice, "invoiceNumber" | "vehicleId">, items: InsertInvoiceItem[]): Promise<Invoice>;
+  // Reverses stock, vehicle inventory and auto-recorded Hamali cash; the invoice stays listed as 'void'
+  voidInvoice(id: string, reason: string): Promise<Invoice | undefined>;
+  // Reprices the invoice on the server and posts compensating stock movements for quantity changes
+  amendInvoice(id: string, amendment: InvoiceAmendment, author: AmendmentAuthor): Promise<Invoice | undefined>;
+  // Records the EWB number the portal returned for the uploaded e-way bill JSON
+  setInvoiceEwayBill(id: string, ewayBillNumber: string, ewayBillDate: string): Promise<Invoice | undefined>;
   getInvoiceItems(invoiceId: string): Promise<InvoiceItem[]>;
+  getAllInvoiceItems(): Promise<InvoiceItem[]>;
+  getInvoiceRevisions(invoiceId: string): Promise<InvoiceRevision[]>;
+  getInvoiceLockReason(invoice: Invoice): Promise<string | null>;
 
   getStockMovements(startDate?: string, endDate?: string): Promise<StockMovement[]>;
+  // Stock in opens an adjustment lot at the purchase price; stock out draws warehouse lots oldest first
   createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
 
+  // Stock Lots - oldest first
+  getStockLots(filter?: StockLotFilter): Promise<StockLot[]>;
+
   getVendorPayments(vendorId?: string): Promise<VendorPayment[]>;
-  createVendorPayment(payment: InsertVendorPayment): Promise<VendorPayment>;
-  getVendorBalance(vendorId: string): Promise<{ totalPurchases: number; totalPayments: number; totalReturns: number; balance: number }>;
+  createVendorPayment(payment: InsertVendorPayment, allocation?: PurchaseAllocationRequest): Promise<VendorPayment>;
+  allocateVendorPayment(paymentId: string, allocation: PurchaseAllocationRequest): Promise<PurchaseAllocation[] | undefined>;
+  getPurchaseAllocations(vendorId?: string): Promise<PurchaseAllocation[]>;
+  // With asOf, only purchases, payments and returns dated on or before it count
+  getPurchaseSettlements(vendorId?: string, asOf?: string): Promise<PurchaseSettlement[]>;
+  // balance is what we owe the vendor; outstandingAdvances is what they owe us, interest to date included
+  getVendorBalance(vendorId: string): Promise<{ totalPurchases: number; totalPayments: number; totalReturns: number; totalPattis: number; balance: number; outstandingAdvances: number }>;
+
+  // Farmer Advances - recovered through vendor payments and pattis
+  getFarmerAdvances(vendorId?: string, asOf?: string): Promise<FarmerAdvanceStatus[]>;
+  createFarmerAdvance(advance: InsertFarmerAdvance): Promise<FarmerAdvance>;
+  getAdvanceRecoveries(vendorId?: string): Promise<AdvanceRecovery[]>;
 
   getCustomerPayments(customerId?: string): Promise<CustomerPayment[]>;
-  createCustomerPayment(payment: InsertCustomerPayment): Promise<CustomerPayment>;
-  getCustomerBalance(customerId: string): Promise<{ totalInvoices: number; totalPayments: number; balance: number }>;
+  createCustomerPayment(payment: InsertCustomerPayment, allocation?: AllocationRequest): Promise<CustomerPayment>;
+  allocateCustomerPayment(paymentId: string, allocation: AllocationRequest): Promise<CustomerPaymentAllocation[] | undefined>;
+  getCustomerPaymentAllocations(customerId?: string): Promise<CustomerPaymentAllocation[]>;
+  // With asOf, only invoices, payments and credit notes dated on or before it count
+  getInvoiceSettlements(customerId?: string, asOf?: string): Promise<InvoiceSettlement[]>;
+  getCustomerBalance(customerId: string): Promise<{ totalInvoices: number; totalPayments: number; totalReturns: number; balance: number }>;
 
   getCompanySettings(): Promise<CompanySettings | undefined>;
   upsertCompanySettings(settings: InsertCompanySettings): Promise<CompanySettings>;
@@ -116,7 +394,8 @@ export interface IStorage {
   // Vehicle Inventory
   getVehicleInventory(vehicleId: string): Promise<VehicleInventory[]>;
   getAllVehicleInventories(): Promise<VehicleInventory[]>;
-  loadVehicleInventory(vehicleId: string, productId: string, quantity: number, purchaseId?: string): Promise<VehicleInventory>;
+  // Opens a lot on the vehicle costed at the purchase line, the given cost or the product's purchase price
+  loadVehicleInventory(vehicleId: string, productId: string, quantity: number, purchaseId?: string, unitCost?: number): Promise<VehicleInventory>;
   deductVehicleInventory(vehicleId: string, productId: string, quantity: number, invoiceId?: string): Promise<VehicleInventory | undefined>;
   getVehicleInventoryMovements(vehicleId: string): Promise<VehicleInventoryMovement[]>;
   getAllVehicleInventoryMovements(): Promise<VehicleInventoryMovement[]>;
@@ -127,20 +406,78 @@ export interface IStorage {
   createVendorReturn(vendorReturn: InsertVendorReturn, items: InsertVendorReturnItem[]): Promise<VendorReturn>;
   getVendorReturnItems(returnId: string): Promise<VendorReturnItem[]>;
 
+  // Sales Returns
+  getSalesReturns(customerId?: string): Promise<SalesReturn[]>;
+  getSalesReturn(id: string): Promise<SalesReturn | undefined>;
+  // Issues a credit note against the invoice and puts the goods back in stock or the damaged bucket
+  createSalesReturn(request: SalesReturnRequest): Promise<SalesReturn | undefined>;
+  getSalesReturnItems(returnId: string): Promise<SalesReturnItem[]>;
+  // Quantity already credited per invoice line, keyed by invoice item id
+  getReturnedQuantities(invoiceId: string): Promise<Map<string, number>>;
+
+  // Pattis
+  getPattis(vendorId?: string): Promise<Patti[]>;
+  getPatti(id: string): Promise<Patti | undefined>;
+  getPattiItems(pattiId: string): Promise<PattiItem[]>;
+  getPattiDraft(vehicleId: string): Promise<PattiDraft | undefined>;
+  // Settles a sold-out commission vehicle with its farmer and credits them the net amount
+  createPatti(request: PattiRequest): Promise<Patti | undefined>;
+
   // Hamali Cash Payments
   getHamaliCashPayments(): Promise<HamaliCashPayment[]>;
   createHamaliCashPayment(payment: InsertHamaliCashPayment): Promise<HamaliCashPayment>;
   deleteHamaliCashPayment(id: string): Promise<boolean>;
+
+  // Expenses
+  getExpenses(startDate?: string, endDate?: string): Promise<Expense[]>;
+  getExpense(id: string): Promise<Expense | undefined>;
+  createExpense(expense: InsertExpense): Promise<Expense>;
+  updateExpense(id: string, expense: Partial<InsertExpense>): Promise<Expense | undefined>;
+  // Removes the expense together with its attachments and journal entry
+  deleteExpense(id: string): Promise<boolean>;
+  getExpenseAttachments(expenseId: string): Promise<ExpenseAttachmentInfo[]>;
+  getExpenseAttachment(id: string): Promise<ExpenseAttachment | undefined>;
+  createExpenseAttachment(attachment: Omit<ExpenseAttachment, "id" | "uploadedAt">): Promise<ExpenseAttachmentInfo>;
+  deleteExpenseAttachment(id: string): Promise<boolean>;
+
+  // General Ledger - entries are posted by the document methods above
+  getJournalEntries(startDate?: string, endDate?: string): Promise<JournalEntryWithLines[]>;
+  getTrialBalance(asOf: string): Promise<TrialBalanceRow[]>;
+  // Re-posts every document from scratch, e.g. for records created before the ledger existed
+  rebuildJournal(): Promise<number>;
+
+  // One-off upgrades of records created before the features that need them; see script/backfill.ts
+  backfillPurchaseDueDates(): Promise<number>;
+  backfillCustomerPaymentAllocations(): Promise<number>;
+  backfillPurchaseAllocations(): Promise<number>;
+  getAccountLedger(accountCode: string, startDate: string, endDate: string): Promise<AccountLedger>;
+
+  // Cash Closings - expected cash and variance are worked out from the cash book when the day is closed
+  getCashClosings(): Promise<CashClosing[]>;
+  getCashClosing(date: string): Promise<CashClosing | undefined>;
+  createCashClosing(closing: Omit<InsertCashClosing, "countedCash" | "expectedCash" | "variance">): Promise<CashClosing>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: DbExecutor = rootDb) {}
+
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.inTransaction(work);
+  }
+
+  // Nested calls open a savepoint on the enclosing transaction, so composite
+  // operations can be reused inside a caller's unit of work.
+  private async inTransaction<T>(work: (storage: DatabaseStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => work(new DatabaseStorage(tx)));
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -155,88 +492,93 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getVendors(): Promise<Vendor[]> {
-    return await db.select().from(vendors);
+    return await this.db.select().from(vendors);
   }
 
   async getVendor(id: string): Promise<Vendor | undefined> {
-    const [vendor] = await db.select().from(vendors).where(eq(vendors.id, id));
+    const [vendor] = await this.db.select().from(vendors).where(eq(vendors.id, id));
     return vendor || undefined;
   }
 
   async createVendor(insertVendor: InsertVendor): Promise<Vendor> {
-    const [vendor] = await db.insert(vendors).values(insertVendor).returning();
+    const [vendor] = await this.db.insert(vendors).values(insertVendor).returning();
     return vendor;
   }
 
   async updateVendor(id: string, updates: Partial<InsertVendor>): Promise<Vendor | undefined> {
-    const [vendor] = await db.update(vendors).set(updates).where(eq(vendors.id, id)).returning();
+    const [vendor] = await this.db.update(vendors).set(updates).where(eq(vendors.id, id)).returning();
     return vendor || undefined;
   }
 
   async deleteVendor(id: string): Promise<boolean> {
-    const result = await db.delete(vendors).where(eq(vendors.id, id)).returning();
+    const result = await this.db.delete(vendors).where(eq(vendors.id, id)).returning();
     return result.length > 0;
   }
 
   async getCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers);
+    return await this.db.select().from(customers);
   }
 
   async getCustomer(id: string): Promise<Customer | undefined> {
-    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
     return customer || undefined;
   }
 
   async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
-    const [customer] = await db.insert(customers).values(insertCustomer).returning();
+    const [customer] = await this.db.insert(customers).values(insertCustomer).returning();
     return customer;
   }
 
   async updateCustomer(id: string, updates: Partial<InsertCustomer>): Promise<Customer | undefined> {
-    const [customer] = await db.update(customers).set(updates).where(eq(customers.id, id)).returning();
+    const [customer] = await this.db.update(customers).set(updates).where(eq(customers.id, id)).returning();
     return customer || undefined;
   }
 
   async deleteCustomer(id: string): Promise<boolean> {
-    const result = await db.delete(customers).where(eq(customers.id, id)).returning();
+    const result = await this.db.delete(customers).where(eq(customers.id, id)).returning();
     return result.length > 0;
   }
 
   async getVehicles(): Promise<Vehicle[]> {
-    return await db.select().from(vehicles);
+    return await this.db.select().from(vehicles);
   }
 
   async getVehicle(id: string): Promise<Vehicle | undefined> {
-    const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.id, id));
+    const [vehicle] = await this.db.select().from(vehicles).where(eq(vehicles.id, id));
     return vehicle || undefined;
   }
 
+  // Vehicles of commission farmers are on commission unless told otherwise
   async createVehicle(insertVehicle: InsertVehicle): Promise<Vehicle> {
-    const [vehicle] = await db.insert(vehicles).values(insertVehicle).returning();
+    const vendor = insertVehicle.vendorId ? await this.getVendor(insertVehicle.vendorId) : undefined;
+    const [vehicle] = await this.db.insert(vehicles).values({
+      ...insertVehicle,
+      commissionMode: insertVehicle.commissionMode ?? vendor?.commissionMode ?? false,
+    }).returning();
     return vehicle;
   }
 
   async updateVehicle(id: string, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
-    const [vehicle] = await db.update(vehicles).set(updates).where(eq(vehicles.id, id)).returning();
+    const [vehicle] = await this.db.update(vehicles).set(updates).where(eq(vehicles.id, id)).returning();
     return vehicle || undefined;
   }
 
   async deleteVehicle(id: string): Promise<boolean> {
-    const result = await db.delete(vehicles).where(eq(vehicles.id, id)).returning();
+    const result = await this.db.delete(vehicles).where(eq(vehicles.id, id)).returning();
     return result.length > 0;
   }
 
   async getProducts(): Promise<Product[]> {
-    return await db.select().from(products);
+    return await this.db.select().from(products);
   }
 
   async getProduct(id: string): Promise<Product | undefined> {
-    const [product] = await db.select().from(products).where(eq(products.id, id));
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
     return product || undefined;
   }
 
   async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const [product] = await db.insert(products).values({
+    const [product] = await this.db.insert(products).values({
       ...insertProduct,
       currentStock: insertProduct.currentStock ?? 0,
       reorderLevel: insertProduct.reorderLevel ?? 10,
@@ -245,47 +587,57 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
-    const [product] = await db.update(products).set(updates).where(eq(products.id, id)).returning();
+    const [product] = await this.db.update(products).set(updates).where(eq(products.id, id)).returning();
     return product || undefined;
   }
 
   async deleteProduct(id: string): Promise<boolean> {
-    const result = await db.delete(products).where(eq(products.id, id)).returning();
+    const result = await this.db.delete(products).where(eq(products.id, id)).returning();
     return result.length > 0;
   }
 
   async updateProductStock(id: string, quantity: number, type: 'in' | 'out'): Promise<Product | undefined> {
-    const product = await this.getProduct(id);
-    if (!product) return undefined;
-
-    const newStock = type === 'in'
-      ? product.currentStock + quantity
-      : product.currentStock - quantity;
+    const delta = type === 'in' ? quantity : -quantity;
 
-    const [updated] = await db.update(products)
-      .set({ currentStock: Math.max(0, newStock) })
+    // Adjust in a single statement so concurrent writers cannot overwrite each other's stock
+    const [updated] = await this.db.update(products)
+      .set({ currentStock: sql`GREATEST(0, ${products.currentStock} + ${delta})` })
       .where(eq(products.id, id))
       .returning();
     return updated || undefined;
   }
 
   async getPurchases(): Promise<Purchase[]> {
-    return await db.select().from(purchases);
+    return await this.db.select().from(purchases);
   }
 
   async getPurchase(id: string): Promise<Purchase | undefined> {
-    const [purchase] = await db.select().from(purchases).where(eq(purchases.id, id));
+    const [purchase] = await this.db.select().from(purchases).where(eq(purchases.id, id));
     return purchase || undefined;
   }
 
-  async createPurchase(insertPurchase: InsertPurchase, items: InsertPurchaseItem[]): Promise<Purchase> {
-    const [purchase] = await db.insert(purchases).values({
+  async createPurchase(insertPurchase: Omit<InsertPurchase, "dueDate">, items: InsertPurchaseItem[]): Promise<Purchase> {
+    return this.inTransaction((tx) => tx.insertPurchase(insertPurchase, items));
+  }
+
+  // Purchases without explicit terms take the vendor's default credit period. Goods on a
+  // commission vehicle are the farmer's until sold and are paid for by patti, so they
+  // are loaded onto the vehicle rather than bought
+  private async insertPurchase(insertPurchase: Omit<InsertPurchase, "dueDate">, items: InsertPurchaseItem[]): Promise<Purchase> {
+    const vehicle = insertPurchase.vehicleId ? await this.getVehicle(insertPurchase.vehicleId) : undefined;
+    if (vehicle?.commissionMode) {
+      throw new ConflictError(`Vehicle ${vehicle.number} carries goods on commission; load them onto the vehicle instead of recording a purchase`);
+    }
+    const vendor = await this.getVendor(insertPurchase.vendorId);
+    const paymentTermsDays = insertPurchase.paymentTermsDays ?? vendor?.paymentTermsDays ?? 0;
+    const [purchase] = await this.db.insert(purchases).values({
       ...insertPurchase,
-      status: insertPurchase.status ?? "completed",
+      paymentTermsDays,
+      dueDate: addDays(insertPurchase.date, paymentTermsDays),
     }).returning();
 
     for (const item of items) {
-      await db.insert(purchaseItems).values({
+      await this.db.insert(purchaseItems).values({
         ...item,
         purchaseId: purchase.id,
       });
@@ -294,9 +646,19 @@ export class DatabaseStorage implements IStorage {
       // When vehicle is specified, loadVehicleInventory handles stock update
       if (!insertPurchase.vehicleId) {
         await this.updateProductStock(item.productId, item.quantity, 'in');
+        await this.openStockLot({
+          productId: item.productId,
+          vehicleId: null,
+          vendorId: purchase.vendorId,
+          purchaseId: purchase.id,
+          source: "purchase",
+          date: purchase.date,
+          unitCost: item.unitPrice,
+          quantity: item.quantity,
+        });
       }
 
-      await db.insert(stockMovements).values({
+      await this.db.insert(stockMovements).values({
         productId: item.productId,
         type: 'in',
         quantity: item.quantity,
@@ -307,45 +669,65 @@ export class DatabaseStorage implements IStorage {
 
       // Load products into vehicle inventory if a vehicle is specified
       if (insertPurchase.vehicleId) {
-        await this.loadVehicleInventory(
+        await this.loadVehicleInventoryRows(
           insertPurchase.vehicleId,
           item.productId,
           item.quantity,
-          purchase.id
+          purchase.id,
+          item.unitPrice
         );
       }
     }
 
+    await this.postJournal(purchaseJournal(purchase));
     return purchase;
   }
 
   async getPurchaseItems(purchaseId: string): Promise<PurchaseItem[]> {
-    return await db.select().from(purchaseItems).where(eq(purchaseItems.purchaseId, purchaseId));
+    return await this.db.select().from(purchaseItems).where(eq(purchaseItems.purchaseId, purchaseId));
+  }
+
+  async getAllPurchaseItems(): Promise<PurchaseItem[]> {
+    return await this.db.select().from(purchaseItems);
   }
 
   async getInvoices(): Promise<Invoice[]> {
-    return await db.select().from(invoices);
+    return await this.db.select().from(invoices);
   }
 
   async getInvoice(id: string): Promise<Invoice | undefined> {
-    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
     return invoice || undefined;
   }
 
-  async createInvoice(insertInvoice: InsertInvoice, items: InsertInvoiceItem[]): Promise<Invoice> {
-    const [invoice] = await db.insert(invoices).values({
+  async createInvoice(insertInvoice: Omit<InsertInvoice, "invoiceNumber">, items: InsertInvoiceItem[]): Promise<Invoice> {
+    return this.inTransaction((tx) => tx.insertInvoice(insertInvoice, items));
+  }
+
+  private async insertInvoice(insertInvoice: Omit<InsertInvoice, "invoiceNumber">, items: InsertInvoiceItem[]): Promise<Invoice> {
+    const invoiceNumber = await this.allocateDocumentNumber("invoice", insertInvoice.date);
+    const [invoice] = await this.db.insert(invoices).values({
       ...insertInvoice,
+      invoiceNumber,
       status: insertInvoice.status ?? "completed",
-      hamaliRatePerKg: insertInvoice.hamaliRatePerKg ?? 2,
+      hamaliRatePerKg: insertInvoice.hamaliRatePerKg ?? DEFAULT_HAMALI_RATE_PER_KG,
       hamaliChargeAmount: insertInvoice.hamaliChargeAmount ?? 0,
       hamaliPaidByCash: insertInvoice.hamaliPaidByCash ?? false,
       totalKgWeight: insertInvoice.totalKgWeight ?? 0,
     }).returning();
 
     for (const item of items) {
-      await db.insert(invoiceItems).values({
+      const costAmount = await this.drawFromLots(
+        item.productId,
+        item.quantity,
+        { vehicleId: insertInvoice.vehicleId ?? null, lotId: item.lotId },
+        "invoice",
+        invoice.id
+      );
+      await this.db.insert(invoiceItems).values({
         ...item,
         invoiceId: invoice.id,
+        costAmount,
       });
 
       // Only update product stock if no vehicle is specified
@@ -354,175 +736,886 @@ export class DatabaseStorage implements IStorage {
         await this.updateProductStock(item.productId, item.quantity, 'out');
       }
 
-      await db.insert(stockMovements).values({
+      await this.db.insert(stockMovements).values({
         productId: item.productId,
         type: 'out',
         quantity: item.quantity,
-        reason: `Invoice ${insertInvoice.invoiceNumber}`,
+        reason: `Invoice ${invoice.invoiceNumber}`,
         date: insertInvoice.date,
         referenceId: invoice.id,
       });
 
       // Deduct from vehicle inventory if a vehicle is specified
       if (insertInvoice.vehicleId) {
-        const deductResult = await this.deductVehicleInventory(
+        const deductResult = await this.deductVehicleInventoryRows(
           insertInvoice.vehicleId,
           item.productId,
           item.quantity,
           invoice.id
         );
-        // Log warning if deduction failed (insufficient stock), but don't block invoice creation
-        // as vehicle inventory is a convenience feature, not a hard constraint
+        // Plain invoices only warn, as vehicle stock there is a convenience; sales made through
+        // sellFromVehicle are checked against the vehicle before they get here
         if (!deductResult) {
           console.warn(`Failed to deduct ${item.quantity} of product ${item.productId} from vehicle ${insertInvoice.vehicleId}`);
         }
       }
     }
 
+    await this.postJournal(invoiceJournal(invoice));
+
     // Auto-create hamali cash payment if paid by cash
     if (insertInvoice.includeHamaliCharge && insertInvoice.hamaliPaidByCash && invoice.hamaliChargeAmount && invoice.hamaliChargeAmount > 0) {
-      await db.insert(hamaliCashPayments).values({
+      const [hamali] = await this.db.insert(hamaliCashPayments).values({
         amount: invoice.hamaliChargeAmount,
         date: insertInvoice.date,
         paymentMethod: "cash",
         customerId: insertInvoice.customerId,
         invoiceId: invoice.id,
-        invoiceNumber: insertInvoice.invoiceNumber,
+        invoiceNumber: invoice.invoiceNumber,
         totalBillAmount: invoice.grandTotal,
-        notes: `Auto-recorded from Invoice ${insertInvoice.invoiceNumber}`,
-      });
+        notes: `Auto-recorded from Invoice ${invoice.invoiceNumber}`,
+      }).returning();
+      await this.postJournal(hamaliCashJournal(hamali));
     }
 
     return invoice;
   }
 
+  async sellFromVehicle(vehicleId: string, insertInvoice: Omit<InsertInvoice, "invoiceNumber" | "vehicleId">, items: InsertInvoiceItem[]): Promise<Invoice> {
+    return this.inTransaction(async (tx) => {
+      const shortages = await tx.findVehicleShortages(vehicleId, items);
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+      return tx.insertInvoice({ ...insertInvoice, vehicleId }, items);
+    });
+  }
+
+  // Compares requested quantities (summed per product) against the vehicle's locked inventory rows
+  private async findVehicleShortages(vehicleId: string, items: Pick<InsertInvoiceItem, "productId" | "quantity">[]): Promise<StockShortage[]> {
+    const requested = new Map<string, number>();
+    for (const item of items) {
+      requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity);
+    }
+
+    const shortages: StockShortage[] = [];
+    for (const [productId, quantity] of Array.from(requested)) {
+      const [inventory] = await this.db.select().from(vehicleInventory)
+        .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)))
+        .for("update");
+      const available = inventory?.quantity ?? 0;
+      if (available < quantity) {
+        const product = await this.getProduct(productId);
+        shortages.push({ productId, productName: product?.name ?? productId, available, requested: quantity });
+      }
+    }
+    return shortages;
+  }
+
+  // Must run inside the caller's transaction: the sequence row stays locked until
+  // commit and a rollback returns the number, so the series never has gaps.
+  private async allocateDocumentNumber(series: DocumentSeries, date: string): Promise<string> {
+    const financialYear = getFinancialYear(date);
+    const [sequence] = await this.db.insert(documentSequences)
+      .values({ series, financialYear, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: [documentSequences.series, documentSequences.financialYear],
+        set: { lastNumber: sql`${documentSequences.lastNumber} + 1` },
+      })
+      .returning();
+
+    const settings = await this.getCompanySettings();
+    const prefix = series === "invoice" && settings?.invoicePrefix
+      ? settings.invoicePrefix
+      : DEFAULT_DOCUMENT_PREFIXES[series];
+    return formatDocumentNumber(prefix, financialYear, sequence.lastNumber);
+  }
+
   async getInvoiceItems(invoiceId: string): Promise<InvoiceItem[]> {
-    return await db.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+    return await this.db.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+  }
+
+  async getAllInvoiceItems(): Promise<InvoiceItem[]> {
+    return await this.db.select().from(invoiceItems);
+  }
+
+  async getInvoiceRevisions(invoiceId: string): Promise<InvoiceRevision[]> {
+    return await this.db.select().from(invoiceRevisions)
+      .where(eq(invoiceRevisions.invoiceId, invoiceId))
+      .orderBy(asc(invoiceRevisions.revision));
+  }
+
+  // Fully paid invoices and invoices dated on or before the configured lock
+  // date may only be amended with the owner override
+  async getInvoiceLockReason(invoice: Invoice): Promise<string | null> {
+    const paid = await this.getAllocatedToInvoice(invoice.id);
+    if (invoice.grandTotal > 0 && getSettlementStatus(invoice.grandTotal, paid) === "paid") {
+      return "invoice is fully paid";
+    }
+
+    const settings = await this.getCompanySettings();
+    if (settings?.invoiceLockDate && invoice.date <= settings.invoiceLockDate) {
+      return `invoice is dated on or before the lock date ${settings.invoiceLockDate}`;
+    }
+    return null;
   }
 
   async getInvoicesByCustomer(customerId: string): Promise<Invoice[]> {
-    return await db.select().from(invoices).where(eq(invoices.customerId, customerId));
+    return await this.db.select().from(invoices).where(eq(invoices.customerId, customerId));
   }
 
-  async updateInvoice(id: string, updates: Partial<InsertInvoice>): Promise<Invoice | undefined> {
-    const [invoice] = await db.update(invoices).set(updates).where(eq(invoices.id, id)).returning();
-    return invoice || undefined;
+  async voidInvoice(id: string, reason: string): Promise<Invoice | undefined> {
+    return this.inTransaction(async (tx) => {
+      const [invoice] = await tx.db.select().from(invoices).where(eq(invoices.id, id)).for("update");
+      if (!invoice) return undefined;
+      if (invoice.status === "void") {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} is already void`);
+      }
+      if (await tx.hasSalesReturns(invoice.id)) {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} has credit notes issued against it and cannot be voided`);
+      }
+      if (await tx.isSettledByPatti(invoice)) {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} is settled in a patti and cannot be voided`);
+      }
+
+      const today = new Date().toISOString().split("T")[0];
+      const items = await tx.getInvoiceItems(id);
+      for (const item of items) {
+        // Put goods back where the sale took them from
+        if (invoice.vehicleId) {
+          await tx.restoreVehicleInventoryRows(invoice.vehicleId, item.productId, item.quantity, invoice.id, `Void of invoice ${invoice.invoiceNumber}`);
+        } else {
+          await tx.updateProductStock(item.productId, item.quantity, 'in');
+        }
+
+        await tx.db.insert(stockMovements).values({
+          productId: item.productId,
+          type: 'in',
+          quantity: item.quantity,
+          reason: `Void of invoice ${invoice.invoiceNumber}: ${reason}`,
+          date: today,
+          referenceId: invoice.id,
+        });
+      }
+
+      await tx.returnToLots("invoice", invoice.id);
+
+      // Hamali cash auto-recorded for this invoice was never really collected
+      await tx.deleteInvoiceHamaliCash(invoice.id);
+
+      // Payments applied to this invoice go back on account as customer credit
+      await tx.db.delete(customerPaymentAllocations).where(eq(customerPaymentAllocations.invoiceId, invoice.id));
+
+      const [voided] = await tx.db.update(invoices)
+        .set({ status: "void", voidReason: reason, voidedAt: new Date() })
+        .where(eq(invoices.id, id))
+        .returning();
+      await tx.postJournal(invoiceVoidJournal(voided, today));
+      return voided;
+    });
   }
 
-  async updateInvoiceItem(id: string, updates: { quantity?: number; unitPrice?: number; total?: number }): Promise<InvoiceItem | undefined> {
-    const [item] = await db.update(invoiceItems).set(updates).where(eq(invoiceItems.id, id)).returning();
-    return item || undefined;
+  async setInvoiceEwayBill(id: string, ewayBillNumber: string, ewayBillDate: string): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    if (!invoice) return undefined;
+    if (invoice.status === "void") {
+      throw new ConflictError(`Invoice ${invoice.invoiceNumber} is void`);
+    }
+    const [updated] = await this.db.update(invoices)
+      .set({ ewayBillNumber, ewayBillDate })
+      .where(eq(invoices.id, id))
+      .returning();
+    return updated;
+  }
+
+  async amendInvoice(id: string, amendment: InvoiceAmendment, author: AmendmentAuthor): Promise<Invoice | undefined> {
+    return this.inTransaction(async (tx) => {
+      const [invoice] = await tx.db.select().from(invoices).where(eq(invoices.id, id)).for("update");
+      if (!invoice) return undefined;
+      if (invoice.status === "void") {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} is void and cannot be amended`);
+      }
+      if (await tx.hasSalesReturns(invoice.id)) {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} has credit notes issued against it and cannot be amended`);
+      }
+      if (await tx.isSettledByPatti(invoice)) {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} is settled in a patti and cannot be amended`);
+      }
+
+      const lockReason = await tx.getInvoiceLockReason(invoice);
+      if (lockReason && !author.lockOverride) {
+        throw new InvoiceLockedError(invoice.invoiceNumber, lockReason);
+      }
+
+      const existingItems = await tx.getInvoiceItems(id);
+      const productNames = new Map<string, string>();
+      for (const item of existingItems) {
+        const product = await tx.getProduct(item.productId);
+        productNames.set(item.productId, product?.name || item.productId);
+      }
+
+      const lines: PricingLine[] = [];
+      for (const item of amendment.items) {
+        if (item.id && !existingItems.some((existing) => existing.id === item.id)) {
+          throw new ConflictError(`Item ${item.id} does not belong to invoice ${invoice.invoiceNumber}`);
+        }
+        const product = await tx.getProduct(item.productId);
+        if (!product) {
+          throw new ConflictError(`Product ${item.productId} not found`);
+        }
+        productNames.set(product.id, product.name);
+        lines.push({
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          unit: product.unit,
+          hsnCode: product.hsnCode,
+          gstRate: product.gstRate,
+        });
+      }
+
+      // The place of supply stays as issued; only the goods and rates are repriced
+      const settings = await tx.getCompanySettings();
+      const interState = isInterStateSupply(resolveStateCode(settings?.state, settings?.gstNumber), invoice.placeOfSupply);
+
+      const terms: HamaliTerms = {
+        includeHamaliCharge: amendment.includeHamaliCharge ?? invoice.includeHamaliCharge,
+        hamaliRatePerKg: amendment.hamaliRatePerKg ?? invoice.hamaliRatePerKg,
+        hamaliRatePerBag: amendment.hamaliRatePerBag ?? invoice.hamaliRatePerBag,
+        bags: amendment.bags ?? invoice.bags,
+        hamaliPaidByCash: amendment.hamaliPaidByCash ?? invoice.hamaliPaidByCash,
+      };
+      const totals = calculateInvoiceTotals(lines, terms, interState);
+      const allocated = await tx.getAllocatedToInvoice(invoice.id);
+      if (totals.grandTotal < allocated - PRICING_TOLERANCE) {
+        throw new ConflictError(
+          `Amended total ${totals.grandTotal} of invoice ${invoice.invoiceNumber} is below the ${allocated} already paid against it`
+        );
+      }
+
+      // Net quantity change per product: positive means more goods leave, negative means goods come back
+      const stockChange = new Map<string, number>();
+      for (const item of existingItems) {
+        stockChange.set(item.productId, (stockChange.get(item.productId) || 0) - item.quantity);
+      }
+      for (const line of lines) {
+        stockChange.set(line.productId, (stockChange.get(line.productId) || 0) + line.quantity);
+      }
+
+      const today = new Date().toISOString().split("T")[0];
+      const reason = `Amendment of invoice ${invoice.invoiceNumber}`;
+      for (const [productId, change] of Array.from(stockChange)) {
+        if (change === 0) continue;
+        const quantity = Math.abs(change);
+
+        if (change > 0) {
+          if (invoice.vehicleId) {
+            const deducted = await tx.deductVehicleInventoryRows(invoice.vehicleId, productId, quantity, invoice.id);
+            if (!deducted) {
+              throw new InsufficientStockError(await tx.findVehicleShortages(invoice.vehicleId, [{ productId, quantity }]));
+            }
+          } else {
+            await tx.updateProductStock(productId, quantity, 'out');
+          }
+          const lotId = amendment.items.find((item) => item.productId === productId)?.lotId;
+          await tx.drawFromLots(productId, quantity, { vehicleId: invoice.vehicleId, lotId }, "invoice", invoice.id);
+        } else {
+          if (invoice.vehicleId) {
+            await tx.restoreVehicleInventoryRows(invoice.vehicleId, productId, quantity, invoice.id, reason);
+          } else {
+            await tx.updateProductStock(productId, quantity, 'in');
+          }
+          await tx.returnToLots("invoice", invoice.id, productId, quantity);
+        }
+
+        await tx.db.insert(stockMovements).values({
+          productId,
+          type: change > 0 ? 'out' : 'in',
+          quantity,
+          reason,
+          date: today,
+          referenceId: invoice.id,
+        });
+      }
+
+      // Rewrite the line items to match the amendment
+      const keptIds = new Set(amendment.items.map((item) => item.id).filter(Boolean));
+      for (const existing of existingItems) {
+        if (!keptIds.has(existing.id)) {
+          await tx.db.delete(invoiceItems).where(eq(invoiceItems.id, existing.id));
+        }
+      }
+      for (const [index, item] of Array.from(amendment.items.entries())) {
+        const priced = totals.items[index];
+        if (item.id) {
+          await tx.db.update(invoiceItems)
+            .set(item.lotId ? { ...priced, lotId: item.lotId } : priced)
+            .where(eq(invoiceItems.id, item.id));
+        } else {
+          await tx.db.insert(invoiceItems).values({ ...priced, invoiceId: invoice.id, lotId: item.lotId ?? null });
+        }
+      }
+      await tx.costInvoiceLines(invoice.id);
+
+      const [amended] = await tx.db.update(invoices)
+        .set({
+          includeHamaliCharge: terms.includeHamaliCharge,
+          hamaliRatePerKg: terms.hamaliRatePerKg,
+          hamaliRatePerBag: terms.hamaliRatePerBag,
+          bags: terms.bags,
+          hamaliPaidByCash: terms.hamaliPaidByCash ?? false,
+          totalKgWeight: totals.totalKgWeight,
+          subtotal: totals.subtotal,
+          cgstAmount: totals.cgstAmount,
+          sgstAmount: totals.sgstAmount,
+          igstAmount: totals.igstAmount,
+          hamaliChargeAmount: totals.hamaliChargeAmount,
+          grandTotal: totals.grandTotal,
+        })
+        .where(eq(invoices.id, id))
+        .returning();
+
+      const changes = diffInvoiceRevision(invoice, amended, existingItems, amendment.items.map((item, index) => ({
+        id: item.id,
+        ...totals.items[index],
+      })), productNames);
+      if (changes.length > 0) {
+        const [{ count }] = await tx.db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(invoiceRevisions)
+          .where(eq(invoiceRevisions.invoiceId, invoice.id));
+        const [revision] = await tx.db.insert(invoiceRevisions).values({
+          invoiceId: invoice.id,
+          revision: count + 1,
+          changedBy: author.changedBy,
+          changes,
+          lockOverride: lockReason !== null,
+        }).returning();
+
+        // The sale stays posted as issued; the revision posts the difference
+        const adjustment = invoiceRevisionJournal(invoice, amended, revision);
+        if (adjustment.lines.length > 0) {
+          await tx.postJournal(adjustment);
+        }
+      }
+
+      // Keep the auto-recorded Hamali cash entry in step with the new charge
+      await tx.deleteInvoiceHamaliCash(invoice.id);
+      if (amended.includeHamaliCharge && amended.hamaliPaidByCash && (amended.hamaliChargeAmount || 0) > 0) {
+        const [hamali] = await tx.db.insert(hamaliCashPayments).values({
+          amount: amended.hamaliChargeAmount!,
+          date: amended.date,
+          paymentMethod: "cash",
+          customerId: amended.customerId,
+          invoiceId: amended.id,
+          invoiceNumber: amended.invoiceNumber,
+          totalBillAmount: amended.grandTotal,
+          notes: `Auto-recorded from Invoice ${amended.invoiceNumber}`,
+        }).returning();
+        await tx.postJournal(hamaliCashJournal(hamali));
+      }
+
+      return amended;
+    });
   }
 
   async getStockMovements(startDate?: string, endDate?: string): Promise<StockMovement[]> {
     if (startDate && endDate) {
-      return await db.select().from(stockMovements)
+      return await this.db.select().from(stockMovements)
         .where(and(gte(stockMovements.date, startDate), lte(stockMovements.date, endDate)));
     }
-    return await db.select().from(stockMovements);
+    return await this.db.select().from(stockMovements);
   }
 
   async createStockMovement(insertMovement: InsertStockMovement): Promise<StockMovement> {
-    const [movement] = await db.insert(stockMovements).values(insertMovement).returning();
-    await this.updateProductStock(insertMovement.productId, insertMovement.quantity, insertMovement.type as 'in' | 'out');
-    return movement;
+    return this.inTransaction(async (tx) => {
+      const [movement] = await tx.db.insert(stockMovements).values(insertMovement).returning();
+      await tx.updateProductStock(insertMovement.productId, insertMovement.quantity, insertMovement.type as 'in' | 'out');
+
+      if (movement.type === 'in') {
+        const product = await tx.getProduct(movement.productId);
+        await tx.openStockLot({
+          productId: movement.productId,
+          vehicleId: null,
+          vendorId: null,
+          purchaseId: null,
+          source: "adjustment",
+          date: movement.date,
+          unitCost: product?.purchasePrice ?? 0,
+          quantity: movement.quantity,
+        });
+      } else {
+        await tx.drawFromLots(movement.productId, movement.quantity, { vehicleId: null }, "adjustment", movement.id);
+      }
+      return movement;
+    });
+  }
+
+  async getStockLots(filter: StockLotFilter = {}): Promise<StockLot[]> {
+    const conditions = [];
+    if (filter.productId) conditions.push(eq(stockLots.productId, filter.productId));
+    if (filter.vehicleId) conditions.push(eq(stockLots.vehicleId, filter.vehicleId));
+    if (filter.openOnly) conditions.push(gt(stockLots.remaining, 0));
+    return await this.db.select().from(stockLots)
+      .where(and(...conditions))
+      .orderBy(asc(stockLots.date), asc(stockLots.createdAt));
+  }
+
+  private async openStockLot(lot: Omit<StockLot, "id" | "remaining" | "createdAt"> & { source: LotSource }): Promise<StockLot> {
+    const [created] = await this.db.insert(stockLots).values({ ...lot, remaining: lot.quantity }).returning();
+    return created;
+  }
+
+  // Takes goods out of their lots and records what each draw cost. Returns the
+  // cost of the whole quantity, which is what the sale or return is booked at.
+  private async drawFromLots(productId: string, quantity: number, preference: LotPreference, sourceType: LotConsumer, sourceId: string): Promise<number> {
+    const open = await this.db.select().from(stockLots)
+      .where(and(
+        eq(stockLots.productId, productId),
+        preference.vehicleId ? eq(stockLots.vehicleId, preference.vehicleId) : isNull(stockLots.vehicleId),
+        gt(stockLots.remaining, 0),
+      ))
+      .orderBy(asc(stockLots.date), asc(stockLots.createdAt))
+      .for("update");
+
+    const product = await this.getProduct(productId);
+    let ordered = open;
+    if (preference.lotId) {
+      // A lot picked at the counter must cover the line by itself
+      const chosen = open.find((lot) => lot.id === preference.lotId);
+      if (!chosen || chosen.remaining < quantity - PRICING_TOLERANCE) {
+        throw new ConflictError(
+          `The chosen lot of ${product?.name || productId} has ${chosen?.remaining ?? 0} left, requested ${quantity}`
+        );
+      }
+      ordered = [chosen];
+    } else if (preference.purchaseId) {
+      ordered = [
+        ...open.filter((lot) => lot.purchaseId === preference.purchaseId),
+        ...open.filter((lot) => lot.purchaseId !== preference.purchaseId),
+      ];
+    }
+
+    const draws = planLotDraws(ordered, quantity, product?.purchasePrice ?? 0);
+    for (const draw of draws) {
+      if (draw.lotId) {
+        await this.db.update(stockLots)
+          .set({ remaining: sql`GREATEST(0, ${stockLots.remaining} - ${draw.quantity})` })
+          .where(eq(stockLots.id, draw.lotId));
+      }
+      await this.db.insert(lotConsumptions).values({ ...draw, productId, sourceType, sourceId });
+    }
+    return costOfDraws(draws);
+  }
+
+  // Puts goods drawn by a document back into their lots, latest draw first.
+  // Without a product and quantity everything the document drew goes back.
+  private async returnToLots(sourceType: LotConsumer, sourceId: string, productId?: string, quantity?: number): Promise<void> {
+    const conditions = [eq(lotConsumptions.sourceType, sourceType), eq(lotConsumptions.sourceId, sourceId)];
+    if (productId) conditions.push(eq(lotConsumptions.productId, productId));
+    const drawn = await this.db.select({ consumption: lotConsumptions })
+      .from(lotConsumptions)
+      .leftJoin(stockLots, eq(stockLots.id, lotConsumptions.lotId))
+      .where(and(...conditions))
+      .orderBy(desc(stockLots.date), desc(stockLots.createdAt));
+
+    let outstanding = quantity ?? Infinity;
+    for (const { consumption } of drawn) {
+      if (outstanding <= PRICING_TOLERANCE) break;
+      const back = Math.min(outstanding, consumption.quantity);
+      if (consumption.lotId) {
+        await this.db.update(stockLots)
+          .set({ remaining: sql`${stockLots.remaining} + ${back}` })
+          .where(eq(stockLots.id, consumption.lotId));
+      }
+      if (back >= consumption.quantity - PRICING_TOLERANCE) {
+        await this.db.delete(lotConsumptions).where(eq(lotConsumptions.id, consumption.id));
+      } else {
+        await this.db.update(lotConsumptions)
+          .set({ quantity: consumption.quantity - back })
+          .where(eq(lotConsumptions.id, consumption.id));
+      }
+      outstanding -= back;
+    }
+  }
+
+  // Spreads what an invoice drew from lots over its lines of each product by quantity
+  private async costInvoiceLines(invoiceId: string): Promise<void> {
+    const drawn = await this.db
+      .select({
+        productId: lotConsumptions.productId,
+        cost: sql<number>`coalesce(sum(${lotConsumptions.quantity} * ${lotConsumptions.unitCost}), 0)::float`,
+      })
+      .from(lotConsumptions)
+      .where(and(eq(lotConsumptions.sourceType, "invoice"), eq(lotConsumptions.sourceId, invoiceId)))
+      .groupBy(lotConsumptions.productId);
+    const costs = new Map(drawn.map((row) => [row.productId, row.cost]));
+
+    const lines = await this.getInvoiceItems(invoiceId);
+    for (const line of lines) {
+      const productQuantity = lines
+        .filter((other) => other.productId === line.productId)
+        .reduce((sum, other) => sum + other.quantity, 0);
+      const costAmount = productQuantity > 0
+        ? roundMoney((costs.get(line.productId) ?? 0) * line.quantity / productQuantity)
+        : 0;
+      await this.db.update(invoiceItems).set({ costAmount }).where(eq(invoiceItems.id, line.id));
+    }
   }
 
   async getVendorPayments(vendorId?: string): Promise<VendorPayment[]> {
     if (vendorId) {
-      return await db.select().from(vendorPayments).where(eq(vendorPayments.vendorId, vendorId));
+      return await this.db.select().from(vendorPayments).where(eq(vendorPayments.vendorId, vendorId));
     }
-    return await db.select().from(vendorPayments);
+    return await this.db.select().from(vendorPayments);
   }
 
-  async createVendorPayment(insertPayment: InsertVendorPayment): Promise<VendorPayment> {
-    const [payment] = await db.insert(vendorPayments).values(insertPayment).returning();
-    return payment;
+  async createVendorPayment(insertPayment: InsertVendorPayment, allocation?: PurchaseAllocationRequest): Promise<VendorPayment> {
+    return this.inTransaction(async (tx) => {
+      const recovery = await tx.planAdvanceRecovery(insertPayment.vendorId, insertPayment.advanceRecovered ?? 0, insertPayment.date);
+      const [payment] = await tx.db.insert(vendorPayments).values({
+        ...insertPayment,
+        advanceInterest: roundMoney(recovery.reduce((sum, part) => sum + part.interest, 0)),
+      }).returning();
+      await tx.recordAdvanceRecovery(recovery, "payment", payment.id);
+      await tx.postJournal(vendorPaymentJournal(payment));
+      if (allocation) {
+        await tx.applyPurchaseAllocations(payment.vendorId, "payment", payment.id, payment.amount, allocation);
+      }
+      return payment;
+    });
+  }
+
+  async allocateVendorPayment(paymentId: string, allocation: PurchaseAllocationRequest): Promise<PurchaseAllocation[] | undefined> {
+    return this.inTransaction(async (tx) => {
+      const [payment] = await tx.db.select().from(vendorPayments).where(eq(vendorPayments.id, paymentId)).for("update");
+      if (!payment) return undefined;
+      return tx.applyPurchaseAllocations(payment.vendorId, "payment", payment.id, payment.amount, allocation);
+    });
+  }
+
+  // Applies the unallocated part of a vendor payment or return credit to the
+  // vendor's open purchases, locking them so concurrent allocations cannot over-settle
+  private async applyPurchaseAllocations(
+    vendorId: string,
+    sourceType: "payment" | "return",
+    sourceId: string,
+    amount: number,
+    allocation: PurchaseAllocationRequest,
+  ): Promise<PurchaseAllocation[]> {
+    await this.db.select({ id: purchases.id }).from(purchases)
+      .where(eq(purchases.vendorId, vendorId))
+      .for("update");
+
+    const [{ allocated }] = await this.db
+      .select({ allocated: sql<number>`coalesce(sum(${purchaseAllocations.amount}), 0)::float` })
+      .from(purchaseAllocations)
+      .where(and(eq(purchaseAllocations.sourceType, sourceType), eq(purchaseAllocations.sourceId, sourceId)));
+    const open = await this.getPurchaseSettlements(vendorId);
+
+    const resolved = resolveAllocations(
+      roundMoney(amount - allocated),
+      open.map((s) => ({ id: s.purchaseId, date: s.date, outstanding: s.outstanding, label: `purchase of ${s.date}` })),
+      allocation === "auto" ? allocation : allocation.map((entry) => ({ id: entry.purchaseId, amount: entry.amount })),
+    );
+    if (resolved.length === 0) return [];
+    return await this.db.insert(purchaseAllocations)
+      .values(resolved.map((entry) => ({ purchaseId: entry.id, sourceType, sourceId, amount: entry.amount })))
+      .returning();
   }
 
-  async getVendorBalance(vendorId: string): Promise<{ totalPurchases: number; totalPayments: number; totalReturns: number; balance: number }> {
-    const purchaseResult = await db.select({ total: sql<number>`COALESCE(SUM(${purchases.totalAmount}), 0)` })
+  async getPurchaseAllocations(vendorId?: string): Promise<PurchaseAllocation[]> {
+    if (vendorId) {
+      const rows = await this.db.select({ allocation: purchaseAllocations })
+        .from(purchaseAllocations)
+        .innerJoin(purchases, eq(purchases.id, purchaseAllocations.purchaseId))
+        .where(eq(purchases.vendorId, vendorId));
+      return rows.map((row) => row.allocation);
+    }
+    return await this.db.select().from(purchaseAllocations);
+  }
+
+  // Paid, returned and outstanding amounts with the derived status of every purchase
+  async getPurchaseSettlements(vendorId?: string, asOf?: string): Promise<PurchaseSettlement[]> {
+    const settledByDate = asOf
+      ? or(
+        and(
+          eq(purchaseAllocations.sourceType, "payment"),
+          inArray(purchaseAllocations.sourceId, this.db.select({ id: vendorPayments.id }).from(vendorPayments).where(lte(vendorPayments.date, asOf))),
+        ),
+        and(
+          eq(purchaseAllocations.sourceType, "return"),
+          inArray(purchaseAllocations.sourceId, this.db.select({ id: vendorReturns.id }).from(vendorReturns).where(lte(vendorReturns.date, asOf))),
+        ),
+      )
+      : undefined;
+    const rows = await this.db
+      .select({
+        purchase: purchases,
+        paid: sql<number>`coalesce(sum(${purchaseAllocations.amount}) filter (where ${purchaseAllocations.sourceType} = 'payment'), 0)::float`,
+        returned: sql<number>`coalesce(sum(${purchaseAllocations.amount}) filter (where ${purchaseAllocations.sourceType} = 'return'), 0)::float`,
+      })
+      .from(purchases)
+      .leftJoin(purchaseAllocations, and(eq(purchaseAllocations.purchaseId, purchases.id), settledByDate))
+      .where(and(
+        vendorId ? eq(purchases.vendorId, vendorId) : undefined,
+        asOf ? lte(purchases.date, asOf) : undefined,
+      ))
+      .groupBy(purchases.id);
+
+    return rows.map(({ purchase, paid, returned }) => ({
+      purchaseId: purchase.id,
+      vendorId: purchase.vendorId,
+      date: purchase.date,
+      dueDate: purchase.dueDate ?? purchase.date, // not yet backfilled: due on the day
+      totalAmount: purchase.totalAmount,
+      paid: roundMoney(paid),
+      returned: roundMoney(returned),
+      outstanding: getOutstanding(purchase.totalAmount, paid + returned),
+      status: getSettlementStatus(purchase.totalAmount, paid + returned),
+    }));
+  }
+
+  async getVendorBalance(vendorId: string): Promise<{ totalPurchases: number; totalPayments: number; totalReturns: number; totalPattis: number; balance: number; outstandingAdvances: number }> {
+    const purchaseResult = await this.db.select({ total: sql<number>`COALESCE(SUM(${purchases.totalAmount}), 0)` })
       .from(purchases)
       .where(eq(purchases.vendorId, vendorId));
     
-    const paymentResult = await db.select({ total: sql<number>`COALESCE(SUM(${vendorPayments.amount}), 0)` })
+    const paymentResult = await this.db.select({ total: sql<number>`COALESCE(SUM(${vendorPayments.amount}), 0)` })
       .from(vendorPayments)
       .where(eq(vendorPayments.vendorId, vendorId));
 
-    const returnResult = await db.select({ total: sql<number>`COALESCE(SUM(${vendorReturns.totalAmount}), 0)` })
+    const returnResult = await this.db.select({ total: sql<number>`COALESCE(SUM(${vendorReturns.totalAmount}), 0)` })
       .from(vendorReturns)
       .where(eq(vendorReturns.vendorId, vendorId));
 
     const totalPurchases = Number(purchaseResult[0]?.total || 0);
     const totalPayments = Number(paymentResult[0]?.total || 0);
+    const pattiResult = await this.db.select({ total: sql<number>`COALESCE(SUM(${pattis.netPayable}), 0)` })
+      .from(pattis)
+      .where(eq(pattis.vendorId, vendorId));
+
     const totalReturns = Number(returnResult[0]?.total || 0);
+    const totalPattis = Number(pattiResult[0]?.total || 0);
+    const advances = await this.getFarmerAdvances(vendorId);
 
     return {
       totalPurchases,
       totalPayments,
       totalReturns,
-      balance: totalPurchases - totalPayments - totalReturns,
+      totalPattis,
+      balance: totalPurchases + totalPattis - totalPayments - totalReturns,
+      outstandingAdvances: roundMoney(advances.reduce((sum, advance) => sum + advance.outstanding, 0)),
     };
   }
 
+  // Farmer Advances
+  async getFarmerAdvances(vendorId?: string, asOf = new Date().toISOString().split("T")[0]): Promise<FarmerAdvanceStatus[]> {
+    const advances = vendorId
+      ? await this.db.select().from(farmerAdvances).where(eq(farmerAdvances.vendorId, vendorId))
+      : await this.db.select().from(farmerAdvances);
+    const recoveries = await this.getAdvanceRecoveries(vendorId);
+    return advances.map((advance) => {
+      const { advanceId, ...position } = getAdvancePosition(advance, recoveries, asOf);
+      return { ...advance, ...position };
+    });
+  }
+
+  async createFarmerAdvance(insertAdvance: InsertFarmerAdvance): Promise<FarmerAdvance> {
+    return this.inTransaction(async (tx) => {
+      const [advance] = await tx.db.insert(farmerAdvances).values(insertAdvance).returning();
+      await tx.postJournal(farmerAdvanceJournal(advance));
+      return advance;
+    });
+  }
+
+  async getAdvanceRecoveries(vendorId?: string): Promise<AdvanceRecovery[]> {
+    if (vendorId) {
+      const rows = await this.db.select({ recovery: advanceRecoveries })
+        .from(advanceRecoveries)
+        .innerJoin(farmerAdvances, eq(farmerAdvances.id, advanceRecoveries.advanceId))
+        .where(eq(farmerAdvances.vendorId, vendorId));
+      return rows.map((row) => row.recovery);
+    }
+    return await this.db.select().from(advanceRecoveries);
+  }
+
+  // Works out which advances a recovery clears, locking them so two
+  // settlements cannot recover the same advance twice
+  private async planAdvanceRecovery(vendorId: string, amount: number, date: string): Promise<RecoveryPart[]> {
+    if (amount <= 0) return [];
+    const advances = await this.db.select().from(farmerAdvances)
+      .where(eq(farmerAdvances.vendorId, vendorId))
+      .for("update");
+    const { parts, unallocated } = allocateRecovery(amount, advances, await this.getAdvanceRecoveries(vendorId), date);
+    if (unallocated > PRICING_TOLERANCE) {
+      throw new ConflictError(`Advances outstanding on ${date} are ${roundMoney(amount - unallocated)}, cannot recover ${amount}`);
+    }
+    return parts;
+  }
+
+  private async recordAdvanceRecovery(parts: RecoveryPart[], sourceType: "payment" | "patti", sourceId: string): Promise<void> {
+    if (parts.length === 0) return;
+    await this.db.insert(advanceRecoveries).values(parts.map((part) => ({ ...part, sourceType, sourceId })));
+  }
+
   async getCustomerPayments(customerId?: string): Promise<CustomerPayment[]> {
     if (customerId) {
-      return await db.select().from(customerPayments).where(eq(customerPayments.customerId, customerId));
+      return await this.db.select().from(customerPayments).where(eq(customerPayments.customerId, customerId));
+    }
+    return await this.db.select().from(customerPayments);
+  }
+
+  async createCustomerPayment(insertPayment: InsertCustomerPayment, allocation?: AllocationRequest): Promise<CustomerPayment> {
+    return this.inTransaction(async (tx) => {
+      const [payment] = await tx.db.insert(customerPayments).values(insertPayment).returning();
+      await tx.postJournal(customerPaymentJournal(payment));
+      if (allocation) {
+        await tx.applyPaymentAllocations(payment, allocation);
+      }
+      return payment;
+    });
+  }
+
+  async allocateCustomerPayment(paymentId: string, allocation: AllocationRequest): Promise<CustomerPaymentAllocation[] | undefined> {
+    return this.inTransaction(async (tx) => {
+      const [payment] = await tx.db.select().from(customerPayments).where(eq(customerPayments.id, paymentId)).for("update");
+      if (!payment) return undefined;
+      return tx.applyPaymentAllocations(payment, allocation);
+    });
+  }
+
+  // Applies the unallocated part of a payment to the customer's open invoices.
+  // The customer's invoices are locked so concurrent payments cannot over-settle a bill.
+  private async applyPaymentAllocations(payment: CustomerPayment, allocation: AllocationRequest): Promise<CustomerPaymentAllocation[]> {
+    await this.db.select({ id: invoices.id }).from(invoices)
+      .where(eq(invoices.customerId, payment.customerId))
+      .for("update");
+
+    const [{ allocated }] = await this.db
+      .select({ allocated: sql<number>`coalesce(sum(${customerPaymentAllocations.amount}), 0)::float` })
+      .from(customerPaymentAllocations)
+      .where(eq(customerPaymentAllocations.paymentId, payment.id));
+    const open = await this.getInvoiceSettlements(payment.customerId);
+
+    const resolved = resolveAllocations(
+      roundMoney(payment.amount - allocated),
+      open.map((s) => ({ id: s.invoiceId, date: s.date, outstanding: s.outstanding, label: `invoice ${s.invoiceNumber}` })),
+      allocation === "auto" ? allocation : allocation.map((entry) => ({ id: entry.invoiceId, amount: entry.amount })),
+    );
+    if (resolved.length === 0) return [];
+    return await this.db.insert(customerPaymentAllocations)
+      .values(resolved.map((entry) => ({ paymentId: payment.id, invoiceId: entry.id, amount: entry.amount })))
+      .returning();
+  }
+
+  async getCustomerPaymentAllocations(customerId?: string): Promise<CustomerPaymentAllocation[]> {
+    if (customerId) {
+      const rows = await this.db.select({ allocation: customerPaymentAllocations })
+        .from(customerPaymentAllocations)
+        .innerJoin(customerPayments, eq(customerPayments.id, customerPaymentAllocations.paymentId))
+        .where(eq(customerPayments.customerId, customerId));
+      return rows.map((row) => row.allocation);
     }
-    return await db.select().from(customerPayments);
+    return await this.db.select().from(customerPaymentAllocations);
   }
 
-  async createCustomerPayment(insertPayment: InsertCustomerPayment): Promise<CustomerPayment> {
-    const [payment] = await db.insert(customerPayments).values(insertPayment).returning();
-    return payment;
+  // Outstanding amount and derived status of every non-void invoice
+  async getInvoiceSettlements(customerId?: string, asOf?: string): Promise<InvoiceSettlement[]> {
+    const paidByDate = asOf
+      ? inArray(customerPaymentAllocations.paymentId, this.db.select({ id: customerPayments.id }).from(customerPayments).where(lte(customerPayments.date, asOf)))
+      : undefined;
+    const creditedByDate = asOf ? sql` and ${salesReturns.date} <= ${asOf}` : sql``;
+    const rows = await this.db
+      .select({
+        invoice: invoices,
+        allocated: sql<number>`coalesce(sum(${customerPaymentAllocations.amount}), 0)::float`,
+        credited: sql<number>`coalesce((select sum(${salesReturns.totalAmount}) from ${salesReturns} where ${salesReturns.invoiceId} = ${invoices.id}${creditedByDate}), 0)::float`,
+      })
+      .from(invoices)
+      .leftJoin(customerPaymentAllocations, and(eq(customerPaymentAllocations.invoiceId, invoices.id), paidByDate))
+      .where(and(
+        ne(invoices.status, "void"),
+        customerId ? eq(invoices.customerId, customerId) : undefined,
+        asOf ? lte(invoices.date, asOf) : undefined,
+      ))
+      .groupBy(invoices.id);
+
+    return rows.map(({ invoice, allocated, credited }) => ({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      customerId: invoice.customerId,
+      date: invoice.date,
+      grandTotal: invoice.grandTotal,
+      allocated: roundMoney(allocated),
+      credited: roundMoney(credited),
+      outstanding: getOutstanding(invoice.grandTotal, allocated + credited),
+      status: getSettlementStatus(invoice.grandTotal, allocated + credited),
+    }));
+  }
+
+  private async getAllocatedToInvoice(invoiceId: string): Promise<number> {
+    const [{ allocated }] = await this.db
+      .select({ allocated: sql<number>`coalesce(sum(${customerPaymentAllocations.amount}), 0)::float` })
+      .from(customerPaymentAllocations)
+      .where(eq(customerPaymentAllocations.invoiceId, invoiceId));
+    return allocated;
   }
 
-  async getCustomerBalance(customerId: string): Promise<{ totalInvoices: number; totalPayments: number; balance: number }> {
-    const invoiceResult = await db.select({ total: sql<number>`COALESCE(SUM(${invoices.grandTotal}), 0)` })
+  async getCustomerBalance(customerId: string): Promise<{ totalInvoices: number; totalPayments: number; totalReturns: number; balance: number }> {
+    const invoiceResult = await this.db.select({ total: sql<number>`COALESCE(SUM(${invoices.grandTotal}), 0)` })
       .from(invoices)
-      .where(eq(invoices.customerId, customerId));
+      .where(and(eq(invoices.customerId, customerId), ne(invoices.status, "void")));
     
-    const paymentResult = await db.select({ total: sql<number>`COALESCE(SUM(${customerPayments.amount}), 0)` })
+    const paymentResult = await this.db.select({ total: sql<number>`COALESCE(SUM(${customerPayments.amount}), 0)` })
       .from(customerPayments)
       .where(eq(customerPayments.customerId, customerId));
 
+    const returnResult = await this.db.select({ total: sql<number>`COALESCE(SUM(${salesReturns.totalAmount}), 0)` })
+      .from(salesReturns)
+      .where(eq(salesReturns.customerId, customerId));
+
     const totalInvoices = Number(invoiceResult[0]?.total || 0);
     const totalPayments = Number(paymentResult[0]?.total || 0);
+    const totalReturns = Number(returnResult[0]?.total || 0);
 
     return {
       totalInvoices,
       totalPayments,
-      balance: totalInvoices - totalPayments,
+      totalReturns,
+      balance: totalInvoices - totalPayments - totalReturns,
     };
   }
 
   async getCompanySettings(): Promise<CompanySettings | undefined> {
-    const [settings] = await db.select().from(companySettings).limit(1);
+    const [settings] = await this.db.select().from(companySettings).limit(1);
     return settings || undefined;
   }
 
   async upsertCompanySettings(insertSettings: InsertCompanySettings): Promise<CompanySettings> {
-    const existing = await this.getCompanySettings();
-    if (existing) {
-      const [updated] = await db.update(companySettings).set(insertSettings).where(eq(companySettings.id, existing.id)).returning();
-      return updated;
-    }
-    const [created] = await db.insert(companySettings).values(insertSettings).returning();
-    return created;
+    return this.inTransaction(async (tx) => {
+      const existing = await tx.getCompanySettings();
+      if (existing) {
+        const [updated] = await tx.db.update(companySettings).set(insertSettings).where(eq(companySettings.id, existing.id)).returning();
+        return updated;
+      }
+      const [created] = await tx.db.insert(companySettings).values(insertSettings).returning();
+      return created;
+    });
   }
 
   // Vehicle Inventory Methods
   async getVehicleInventory(vehicleId: string): Promise<VehicleInventory[]> {
-    return await db.select().from(vehicleInventory).where(eq(vehicleInventory.vehicleId, vehicleId));
+    return await this.db.select().from(vehicleInventory).where(eq(vehicleInventory.vehicleId, vehicleId));
   }
 
   async getAllVehicleInventories(): Promise<VehicleInventory[]> {
-    return await db.select().from(vehicleInventory);
+    return await this.db.select().from(vehicleInventory);
   }
 
   async getVehicleProductInventory(vehicleId: string, productId: string): Promise<VehicleInventory | undefined> {
     // Get total quantity for this vehicle+product combination (aggregate all matching rows)
-    const records = await db.select().from(vehicleInventory)
+    const records = await this.db.select().from(vehicleInventory)
       .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)));
     
     if (records.length === 0) return undefined;
@@ -531,23 +1624,33 @@ export class DatabaseStorage implements IStorage {
     return records[0];
   }
 
-  async loadVehicleInventory(vehicleId: string, productId: string, quantity: number, purchaseId?: string): Promise<VehicleInventory> {
+  async loadVehicleInventory(vehicleId: string, productId: string, quantity: number, purchaseId?: string, unitCost?: number): Promise<VehicleInventory> {
+    return this.inTransaction((tx) => tx.loadVehicleInventoryRows(vehicleId, productId, quantity, purchaseId, unitCost));
+  }
+
+  private async loadVehicleInventoryRows(vehicleId: string, productId: string, quantity: number, purchaseId?: string, unitCost?: number): Promise<VehicleInventory> {
+    const vehicle = await this.getVehicle(vehicleId);
+    if (vehicle?.commissionMode && purchaseId) {
+      throw new ConflictError(`Vehicle ${vehicle.number} carries goods on commission and cannot be loaded from a purchase`);
+    }
+
     // Check if inventory record exists for this vehicle+product
-    const [existing] = await db.select().from(vehicleInventory)
-      .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)));
+    const [existing] = await this.db.select().from(vehicleInventory)
+      .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)))
+      .for("update");
 
     let inventoryRecord: VehicleInventory;
     
     if (existing) {
       // Update existing inventory (upsert pattern)
-      const [updated] = await db.update(vehicleInventory)
+      const [updated] = await this.db.update(vehicleInventory)
         .set({ quantity: existing.quantity + quantity })
         .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)))
         .returning();
       inventoryRecord = updated;
     } else {
       // Create new inventory record
-      const [created] = await db.insert(vehicleInventory)
+      const [created] = await this.db.insert(vehicleInventory)
         .values({ vehicleId, productId, quantity })
         .returning();
       inventoryRecord = created;
@@ -558,7 +1661,7 @@ export class DatabaseStorage implements IStorage {
 
     // Log the movement
     const today = new Date().toISOString().split("T")[0];
-    await db.insert(vehicleInventoryMovements).values({
+    await this.db.insert(vehicleInventoryMovements).values({
       vehicleId,
       productId,
       type: 'load',
@@ -568,13 +1671,35 @@ export class DatabaseStorage implements IStorage {
       date: today,
     });
 
+    // Each load is its own lot, costed at what was paid for it when that is known
+    const purchase = purchaseId ? await this.getPurchase(purchaseId) : undefined;
+    const purchaseLine = purchase
+      ? (await this.getPurchaseItems(purchase.id)).find((item) => item.productId === productId)
+      : undefined;
+    const product = await this.getProduct(productId);
+    await this.openStockLot({
+      productId,
+      vehicleId,
+      vendorId: purchase?.vendorId ?? vehicle?.vendorId ?? null,
+      purchaseId: purchase?.id ?? null,
+      source: purchase ? "purchase" : "vehicle_load",
+      date: purchase?.date ?? today,
+      unitCost: unitCost ?? purchaseLine?.unitPrice ?? product?.purchasePrice ?? 0,
+      quantity,
+    });
+
     return inventoryRecord;
   }
 
   async deductVehicleInventory(vehicleId: string, productId: string, quantity: number, invoiceId?: string): Promise<VehicleInventory | undefined> {
+    return this.inTransaction((tx) => tx.deductVehicleInventoryRows(vehicleId, productId, quantity, invoiceId));
+  }
+
+  private async deductVehicleInventoryRows(vehicleId: string, productId: string, quantity: number, invoiceId?: string): Promise<VehicleInventory | undefined> {
     // Find existing inventory
-    const [existing] = await db.select().from(vehicleInventory)
-      .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)));
+    const [existing] = await this.db.select().from(vehicleInventory)
+      .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)))
+      .for("update");
 
     // Guard against insufficient stock - return undefined if not enough
     if (!existing) {
@@ -589,7 +1714,7 @@ export class DatabaseStorage implements IStorage {
 
     const newQuantity = Math.max(0, existing.quantity - quantity);
     
-    const [updated] = await db.update(vehicleInventory)
+    const [updated] = await this.db.update(vehicleInventory)
       .set({ quantity: newQuantity })
       .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)))
       .returning();
@@ -599,7 +1724,7 @@ export class DatabaseStorage implements IStorage {
 
     // Log the movement
     const today = new Date().toISOString().split("T")[0];
-    await db.insert(vehicleInventoryMovements).values({
+    await this.db.insert(vehicleInventoryMovements).values({
       vehicleId,
       productId,
       type: 'sale',
@@ -612,35 +1737,78 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Returns goods to a vehicle after a sale is reversed, logged as a 'reversal' movement
+  private async restoreVehicleInventoryRows(vehicleId: string, productId: string, quantity: number, invoiceId: string, notes: string): Promise<VehicleInventory> {
+    const [existing] = await this.db.select().from(vehicleInventory)
+      .where(and(eq(vehicleInventory.vehicleId, vehicleId), eq(vehicleInventory.productId, productId)))
+      .for("update");
+
+    let inventoryRecord: VehicleInventory;
+    if (existing) {
+      const [updated] = await this.db.update(vehicleInventory)
+        .set({ quantity: existing.quantity + quantity })
+        .where(eq(vehicleInventory.id, existing.id))
+        .returning();
+      inventoryRecord = updated;
+    } else {
+      const [created] = await this.db.insert(vehicleInventory)
+        .values({ vehicleId, productId, quantity })
+        .returning();
+      inventoryRecord = created;
+    }
+
+    await this.updateProductStock(productId, quantity, 'in');
+
+    const today = new Date().toISOString().split("T")[0];
+    await this.db.insert(vehicleInventoryMovements).values({
+      vehicleId,
+      productId,
+      type: 'reversal',
+      quantity,
+      referenceId: invoiceId,
+      referenceType: 'invoice',
+      date: today,
+      notes,
+    });
+
+    return inventoryRecord;
+  }
+
   async getVehicleInventoryMovements(vehicleId: string): Promise<VehicleInventoryMovement[]> {
-    return await db.select().from(vehicleInventoryMovements).where(eq(vehicleInventoryMovements.vehicleId, vehicleId));
+    return await this.db.select().from(vehicleInventoryMovements).where(eq(vehicleInventoryMovements.vehicleId, vehicleId));
   }
 
   async getAllVehicleInventoryMovements(): Promise<VehicleInventoryMovement[]> {
-    return await db.select().from(vehicleInventoryMovements);
+    return await this.db.select().from(vehicleInventoryMovements);
   }
 
   // Vendor Returns Methods
   async getVendorReturns(vendorId?: string): Promise<VendorReturn[]> {
     if (vendorId) {
-      return await db.select().from(vendorReturns).where(eq(vendorReturns.vendorId, vendorId));
+      return await this.db.select().from(vendorReturns).where(eq(vendorReturns.vendorId, vendorId));
     }
-    return await db.select().from(vendorReturns);
+    return await this.db.select().from(vendorReturns);
   }
 
   async getVendorReturn(id: string): Promise<VendorReturn | undefined> {
-    const [vendorReturn] = await db.select().from(vendorReturns).where(eq(vendorReturns.id, id));
+    const [vendorReturn] = await this.db.select().from(vendorReturns).where(eq(vendorReturns.id, id));
     return vendorReturn || undefined;
   }
 
   async createVendorReturn(insertVendorReturn: InsertVendorReturn, items: InsertVendorReturnItem[]): Promise<VendorReturn> {
-    const [vendorReturn] = await db.insert(vendorReturns).values({
+    return this.inTransaction((tx) => tx.insertVendorReturn(insertVendorReturn, items));
+  }
+
+  private async insertVendorReturn(insertVendorReturn: InsertVendorReturn, items: InsertVendorReturnItem[]): Promise<VendorReturn> {
+    const debitNoteNumber = await this.allocateDocumentNumber("debit_note", insertVendorReturn.date);
+    const [vendorReturn] = await this.db.insert(vendorReturns).values({
       ...insertVendorReturn,
+      debitNoteNumber,
       status: insertVendorReturn.status ?? "completed",
     }).returning();
 
     for (const item of items) {
-      await db.insert(vendorReturnItems).values({
+      await this.db.insert(vendorReturnItems).values({
         ...item,
         returnId: vendorReturn.id,
       });
@@ -649,7 +1817,7 @@ export class DatabaseStorage implements IStorage {
       await this.updateProductStock(item.productId, item.quantity, 'out');
 
       // Record stock movement
-      await db.insert(stockMovements).values({
+      await this.db.insert(stockMovements).values({
         productId: item.productId,
         type: 'out',
         quantity: item.quantity,
@@ -660,36 +1828,759 @@ export class DatabaseStorage implements IStorage {
 
       // If vehicle is specified, also deduct from vehicle inventory
       if (insertVendorReturn.vehicleId) {
-        await this.deductVehicleInventory(
+        await this.deductVehicleInventoryRows(
           insertVendorReturn.vehicleId,
           item.productId,
           item.quantity,
           vendorReturn.id
         );
       }
+
+      // Goods go back out of the lots of the purchase being returned against first
+      await this.drawFromLots(
+        item.productId,
+        item.quantity,
+        { vehicleId: insertVendorReturn.vehicleId ?? null, purchaseId: insertVendorReturn.purchaseId },
+        "vendor_return",
+        vendorReturn.id
+      );
     }
 
+    // Return credit settles the purchase it was made against, otherwise the oldest open purchases
+    const settlement = insertVendorReturn.purchaseId
+      ? (await this.getPurchaseSettlements(insertVendorReturn.vendorId)).find((s) => s.purchaseId === insertVendorReturn.purchaseId)
+      : undefined;
+    const allocation: PurchaseAllocationRequest = settlement
+      ? [{ purchaseId: settlement.purchaseId, amount: Math.min(vendorReturn.totalAmount, settlement.outstanding) }].filter((a) => a.amount > 0)
+      : "auto";
+    await this.applyPurchaseAllocations(vendorReturn.vendorId, "return", vendorReturn.id, vendorReturn.totalAmount, allocation);
+
+    await this.postJournal(vendorReturnJournal(vendorReturn));
     return vendorReturn;
   }
 
   async getVendorReturnItems(returnId: string): Promise<VendorReturnItem[]> {
-    return await db.select().from(vendorReturnItems).where(eq(vendorReturnItems.returnId, returnId));
+    return await this.db.select().from(vendorReturnItems).where(eq(vendorReturnItems.returnId, returnId));
+  }
+
+  // Sales Returns Methods
+  async getSalesReturns(customerId?: string): Promise<SalesReturn[]> {
+    if (customerId) {
+      return await this.db.select().from(salesReturns).where(eq(salesReturns.customerId, customerId));
+    }
+    return await this.db.select().from(salesReturns);
+  }
+
+  async getSalesReturn(id: string): Promise<SalesReturn | undefined> {
+    const [salesReturn] = await this.db.select().from(salesReturns).where(eq(salesReturns.id, id));
+    return salesReturn || undefined;
+  }
+
+  async createSalesReturn(request: SalesReturnRequest): Promise<SalesReturn | undefined> {
+    return this.inTransaction(async (tx) => {
+      const [invoice] = await tx.db.select().from(invoices).where(eq(invoices.id, request.invoiceId)).for("update");
+      if (!invoice) return undefined;
+      if (invoice.status === "void") {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} is void`);
+      }
+      if (request.date < invoice.date) {
+        throw new ConflictError(`A credit note cannot be dated before invoice ${invoice.invoiceNumber}`);
+      }
+      if (await tx.isSettledByPatti(invoice)) {
+        throw new ConflictError(`Invoice ${invoice.invoiceNumber} is settled in a patti and cannot take a return`);
+      }
+
+      const invoiceLines = await tx.getInvoiceItems(invoice.id);
+      const returned = await tx.getReturnedQuantities(invoice.id);
+
+      // Tax follows the invoice's place of supply, as when it was amended
+      const settings = await tx.getCompanySettings();
+      const interState = isInterStateSupply(resolveStateCode(settings?.state, settings?.gstNumber), invoice.placeOfSupply);
+
+      const lines: Omit<SalesReturnItem, "id" | "returnId">[] = [];
+      for (const item of request.items) {
+        const invoiceLine = invoiceLines.find((line) => line.id === item.invoiceItemId);
+        if (!invoiceLine) {
+          throw new ConflictError(`Item ${item.invoiceItemId} does not belong to invoice ${invoice.invoiceNumber}`);
+        }
+        const returnable = roundMoney(invoiceLine.quantity - (returned.get(invoiceLine.id) ?? 0));
+        if (item.quantity > returnable + PRICING_TOLERANCE) {
+          const product = await tx.getProduct(invoiceLine.productId);
+          throw new ConflictError(
+            `Only ${returnable} of ${product?.name || invoiceLine.productId} on invoice ${invoice.invoiceNumber} can still be returned, requested ${item.quantity}`
+          );
+        }
+        const total = roundMoney(item.quantity * invoiceLine.unitPrice);
+        lines.push({
+          ...item,
+          productId: invoiceLine.productId,
+          unitPrice: invoiceLine.unitPrice,
+          total,
+          hsnCode: invoiceLine.hsnCode,
+          gstRate: invoiceLine.gstRate,
+          ...calculateLineTax(total, invoiceLine.gstRate, interState),
+        });
+      }
+
+      const sum = (pick: (line: (typeof lines)[number]) => number) => roundMoney(lines.reduce((acc, line) => acc + pick(line), 0));
+      const subtotal = sum((line) => line.total);
+      const cgstAmount = sum((line) => line.cgstAmount);
+      const sgstAmount = sum((line) => line.sgstAmount);
+      const igstAmount = sum((line) => line.igstAmount);
+
+      const creditNoteNumber = await tx.allocateDocumentNumber("credit_note", request.date);
+      const [salesReturn] = await tx.db.insert(salesReturns).values({
+        creditNoteNumber,
+        invoiceId: invoice.id,
+        customerId: invoice.customerId,
+        date: request.date,
+        subtotal,
+        cgstAmount,
+        sgstAmount,
+        igstAmount,
+        totalAmount: roundMoney(subtotal + cgstAmount + sgstAmount + igstAmount),
+        notes: request.notes || null,
+      }).returning();
+
+      for (const line of lines) {
+        await tx.db.insert(salesReturnItems).values({ ...line, returnId: salesReturn.id });
+
+        if (line.condition === "damaged") {
+          // Damaged goods are counted separately and never offered for sale again
+          await tx.db.update(products)
+            .set({ damagedStock: sql`${products.damagedStock} + ${line.quantity}` })
+            .where(eq(products.id, line.productId));
+          continue;
+        }
+
+        await tx.updateProductStock(line.productId, line.quantity, 'in');
+        await tx.db.insert(stockMovements).values({
+          productId: line.productId,
+          type: 'in',
+          quantity: line.quantity,
+          reason: `Sales return ${creditNoteNumber}: ${line.reason}`,
+          date: request.date,
+          referenceId: salesReturn.id,
+        });
+
+        // Restocked goods come back at what they cost on the invoice
+        const invoiceLine = invoiceLines.find((item) => item.id === line.invoiceItemId)!;
+        await tx.openStockLot({
+          productId: line.productId,
+          vehicleId: null,
+          vendorId: invoice.vendorId,
+          purchaseId: null,
+          source: "sales_return",
+          date: request.date,
+          unitCost: invoiceLine.quantity > 0 ? roundMoney(invoiceLine.costAmount / invoiceLine.quantity) : 0,
+          quantity: line.quantity,
+        });
+      }
+
+      await tx.postJournal(salesReturnJournal(salesReturn));
+      return salesReturn;
+    });
+  }
+
+  async getSalesReturnItems(returnId: string): Promise<SalesReturnItem[]> {
+    return await this.db.select().from(salesReturnItems).where(eq(salesReturnItems.returnId, returnId));
+  }
+
+  async getReturnedQuantities(invoiceId: string): Promise<Map<string, number>> {
+    const rows = await this.db
+      .select({
+        invoiceItemId: salesReturnItems.invoiceItemId,
+        quantity: sql<number>`coalesce(sum(${salesReturnItems.quantity}), 0)::float`,
+      })
+      .from(salesReturnItems)
+      .innerJoin(salesReturns, eq(salesReturns.id, salesReturnItems.returnId))
+      .where(eq(salesReturns.invoiceId, invoiceId))
+      .groupBy(salesReturnItems.invoiceItemId);
+    return new Map(rows.map((row) => [row.invoiceItemId, row.quantity]));
+  }
+
+  private async hasSalesReturns(invoiceId: string): Promise<boolean> {
+    const [existing] = await this.db.select({ id: salesReturns.id }).from(salesReturns)
+      .where(eq(salesReturns.invoiceId, invoiceId))
+      .limit(1);
+    return !!existing;
+  }
+
+  // Pattis
+  async getPattis(vendorId?: string): Promise<Patti[]> {
+    if (vendorId) {
+      return await this.db.select().from(pattis).where(eq(pattis.vendorId, vendorId));
+    }
+    return await this.db.select().from(pattis);
+  }
+
+  async getPatti(id: string): Promise<Patti | undefined> {
+    const [patti] = await this.db.select().from(pattis).where(eq(pattis.id, id));
+    return patti || undefined;
+  }
+
+  async getPattiItems(pattiId: string): Promise<PattiItem[]> {
+    return await this.db.select().from(pattiItems).where(eq(pattiItems.pattiId, pattiId));
+  }
+
+  // Gross sales are the taxable value of the vehicle's live invoices for the
+  // farmer's goods, less anything customers returned against them
+  async getPattiDraft(vehicleId: string): Promise<PattiDraft | undefined> {
+    const vehicle = await this.getVehicle(vehicleId);
+    if (!vehicle?.vendorId) return undefined;
+    const vendor = await this.getVendor(vehicle.vendorId);
+
+    const farmerInvoices = and(
+      eq(invoices.vehicleId, vehicleId),
+      ne(invoices.status, "void"),
+      sql`coalesce(${invoices.vendorId}, ${vehicle.vendorId}) = ${vehicle.vendorId}`,
+    );
+    const sold = await this.db
+      .select({
+        productId: invoiceItems.productId,
+        quantity: sql<number>`coalesce(sum(${invoiceItems.quantity}), 0)::float`,
+        amount: sql<number>`coalesce(sum(${invoiceItems.total}), 0)::float`,
+      })
+      .from(invoiceItems)
+      .innerJoin(invoices, eq(invoices.id, invoiceItems.invoiceId))
+      .where(farmerInvoices)
+      .groupBy(invoiceItems.productId);
+    const returned = await this.db
+      .select({
+        productId: salesReturnItems.productId,
+        quantity: sql<number>`coalesce(sum(${salesReturnItems.quantity}), 0)::float`,
+        amount: sql<number>`coalesce(sum(${salesReturnItems.total}), 0)::float`,
+      })
+      .from(salesReturnItems)
+      .innerJoin(salesReturns, eq(salesReturns.id, salesReturnItems.returnId))
+      .innerJoin(invoices, eq(invoices.id, salesReturns.invoiceId))
+      .where(farmerInvoices)
+      .groupBy(salesReturnItems.productId);
+
+    const lines = sold
+      .map((line) => {
+        const back = returned.find((r) => r.productId === line.productId);
+        return {
+          productId: line.productId,
+          quantity: roundMoney(line.quantity - (back?.quantity ?? 0)),
+          amount: roundMoney(line.amount - (back?.amount ?? 0)),
+        };
+      })
+      .filter((line) => line.quantity > 0 || line.amount > 0);
+
+    const inventory = await this.getVehicleInventory(vehicleId);
+    const remainingQuantity = roundMoney(inventory.reduce((sum, row) => sum + Math.max(0, row.quantity), 0));
+
+    const advances = await this.getFarmerAdvances(vehicle.vendorId);
+
+    return {
+      vehicleId,
+      vendorId: vehicle.vendorId,
+      commissionPercent: vendor?.commissionPercent ?? 0,
+      outstandingAdvances: roundMoney(advances.reduce((sum, advance) => sum + advance.outstanding, 0)),
+      soldOut: sold.length > 0 && remainingQuantity <= PRICING_TOLERANCE,
+      remainingQuantity,
+      grossSales: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+      lines,
+    };
+  }
+
+  async createPatti(request: PattiRequest): Promise<Patti | undefined> {
+    return this.inTransaction(async (tx) => {
+      const [vehicle] = await tx.db.select().from(vehicles).where(eq(vehicles.id, request.vehicleId)).for("update");
+      if (!vehicle) return undefined;
+      if (!vehicle.commissionMode || !vehicle.vendorId) {
+        throw new ConflictError(`Vehicle ${vehicle.number} is not a commission vehicle`);
+      }
+      const [existing] = await tx.db.select({ pattiNumber: pattis.pattiNumber }).from(pattis)
+        .where(eq(pattis.vehicleId, vehicle.id));
+      if (existing) {
+        throw new ConflictError(`Vehicle ${vehicle.number} is already settled in patti ${existing.pattiNumber}`);
+      }
+      // Goods bought outright are already owed to the farmer; a patti would pay for them again
+      const [purchased] = await tx.db.select({ id: purchases.id }).from(purchases)
+        .where(eq(purchases.vehicleId, vehicle.id))
+        .limit(1);
+      if (purchased) {
+        throw new ConflictError(`Vehicle ${vehicle.number} has purchases recorded against it and cannot also be settled by patti`);
+      }
+
+      const draft = (await tx.getPattiDraft(vehicle.id))!;
+      if (!draft.soldOut) {
+        throw new ConflictError(`Vehicle ${vehicle.number} still has ${draft.remainingQuantity} units unsold`);
+      }
+
+      const totals = calculatePatti(draft.grossSales, {
+        commissionPercent: request.commissionPercent ?? draft.commissionPercent,
+        hamaliAmount: request.hamaliAmount,
+        unloadingAmount: request.unloadingAmount,
+        transportAmount: request.transportAmount,
+        advanceAmount: request.advanceAmount,
+      });
+      if (totals.netPayable < 0) {
+        throw new ConflictError(`Deductions of ${totals.totalDeductions} exceed gross sales of ${totals.grossSales}`);
+      }
+
+      const recovery = await tx.planAdvanceRecovery(draft.vendorId, totals.advanceAmount, request.date);
+      const pattiNumber = await tx.allocateDocumentNumber("patti", request.date);
+      const { totalDeductions, ...amounts } = totals;
+      const [patti] = await tx.db.insert(pattis).values({
+        ...amounts,
+        advanceInterest: roundMoney(recovery.reduce((sum, part) => sum + part.interest, 0)),
+        pattiNumber,
+        vendorId: draft.vendorId,
+        vehicleId: vehicle.id,
+        date: request.date,
+        notes: request.notes || null,
+      }).returning();
+
+      for (const line of draft.lines) {
+        await tx.db.insert(pattiItems).values({ ...line, pattiId: patti.id });
+      }
+      await tx.recordAdvanceRecovery(recovery, "patti", patti.id);
+
+      await tx.postJournal(pattiJournal(patti));
+      return patti;
+    });
+  }
+
+  private async isSettledByPatti(invoice: Invoice): Promise<boolean> {
+    if (!invoice.vehicleId) return false;
+    const [existing] = await this.db.select({ id: pattis.id }).from(pattis)
+      .where(eq(pattis.vehicleId, invoice.vehicleId))
+      .limit(1);
+    return !!existing;
   }
 
   // Hamali Cash Payments
   async getHamaliCashPayments(): Promise<HamaliCashPayment[]> {
-    return await db.select().from(hamaliCashPayments);
+    return await this.db.select().from(hamaliCashPayments);
   }
 
   async createHamaliCashPayment(insertPayment: InsertHamaliCashPayment): Promise<HamaliCashPayment> {
-    const [payment] = await db.insert(hamaliCashPayments).values(insertPayment).returning();
-    return payment;
+    return this.inTransaction(async (tx) => {
+      const [payment] = await tx.db.insert(hamaliCashPayments).values(insertPayment).returning();
+      await tx.postJournal(hamaliCashJournal(payment));
+      return payment;
+    });
   }
 
   async deleteHamaliCashPayment(id: string): Promise<boolean> {
-    const result = await db.delete(hamaliCashPayments).where(eq(hamaliCashPayments.id, id)).returning();
+    return this.inTransaction(async (tx) => {
+      const result = await tx.db.delete(hamaliCashPayments).where(eq(hamaliCashPayments.id, id)).returning();
+      await tx.removeJournal("hamali_cash", id);
+      return result.length > 0;
+    });
+  }
+
+  // Expenses
+  async getExpenses(startDate?: string, endDate?: string): Promise<Expense[]> {
+    const conditions = [];
+    if (startDate) conditions.push(gte(expenses.date, startDate));
+    if (endDate) conditions.push(lte(expenses.date, endDate));
+    return await this.db.select().from(expenses).where(and(...conditions)).orderBy(desc(expenses.date));
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    const [expense] = await this.db.select().from(expenses).where(eq(expenses.id, id));
+    return expense || undefined;
+  }
+
+  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+    return this.inTransaction(async (tx) => {
+      const [expense] = await tx.db.insert(expenses).values(insertExpense).returning();
+      await tx.postJournal(expenseJournal(expense));
+      return expense;
+    });
+  }
+
+  async updateExpense(id: string, updates: Partial<InsertExpense>): Promise<Expense | undefined> {
+    return this.inTransaction(async (tx) => {
+      const [expense] = await tx.db.update(expenses).set(updates).where(eq(expenses.id, id)).returning();
+      if (!expense) return undefined;
+      await tx.postJournal(expenseJournal(expense));
+      return expense;
+    });
+  }
+
+  async deleteExpense(id: string): Promise<boolean> {
+    return this.inTransaction(async (tx) => {
+      const result = await tx.db.delete(expenses).where(eq(expenses.id, id)).returning();
+      if (result.length === 0) return false;
+      await tx.db.delete(expenseAttachments).where(eq(expenseAttachments.expenseId, id));
+      await tx.removeJournal("expense", id);
+      return true;
+    });
+  }
+
+  // Listings leave out the file contents, which are only read for downloads
+  async getExpenseAttachments(expenseId: string): Promise<ExpenseAttachmentInfo[]> {
+    return await this.db
+      .select({
+        id: expenseAttachments.id,
+        expenseId: expenseAttachments.expenseId,
+        fileName: expenseAttachments.fileName,
+        contentType: expenseAttachments.contentType,
+        size: expenseAttachments.size,
+        uploadedAt: expenseAttachments.uploadedAt,
+      })
+      .from(expenseAttachments)
+      .where(eq(expenseAttachments.expenseId, expenseId));
+  }
+
+  async getExpenseAttachment(id: string): Promise<ExpenseAttachment | undefined> {
+    const [attachment] = await this.db.select().from(expenseAttachments).where(eq(expenseAttachments.id, id));
+    return attachment || undefined;
+  }
+
+  async createExpenseAttachment(attachment: Omit<ExpenseAttachment, "id" | "uploadedAt">): Promise<ExpenseAttachmentInfo> {
+    const [{ data, ...created }] = await this.db.insert(expenseAttachments).values(attachment).returning();
+    return created;
+  }
+
+  async deleteExpenseAttachment(id: string): Promise<boolean> {
+    const result = await this.db.delete(expenseAttachments).where(eq(expenseAttachments.id, id)).returning({ id: expenseAttachments.id });
     return result.length > 0;
   }
+
+  private async deleteInvoiceHamaliCash(invoiceId: string): Promise<void> {
+    const removed = await this.db.delete(hamaliCashPayments)
+      .where(eq(hamaliCashPayments.invoiceId, invoiceId))
+      .returning({ id: hamaliCashPayments.id });
+    for (const { id } of removed) {
+      await this.removeJournal("hamali_cash", id);
+    }
+  }
+
+  // General Ledger
+  async getJournalEntries(startDate?: string, endDate?: string): Promise<JournalEntryWithLines[]> {
+    const conditions = [];
+    if (startDate) conditions.push(gte(journalEntries.date, startDate));
+    if (endDate) conditions.push(lte(journalEntries.date, endDate));
+    const entries = await this.db.select().from(journalEntries)
+      .where(and(...conditions))
+      .orderBy(asc(journalEntries.date), asc(journalEntries.postedAt));
+    if (entries.length === 0) return [];
+
+    const lines = await this.db.select().from(journalLines)
+      .where(inArray(journalLines.entryId, entries.map((e) => e.id)));
+    return entries.map((entry) => ({ ...entry, lines: lines.filter((line) => line.entryId === entry.id) }));
+  }
+
+  async getTrialBalance(asOf: string): Promise<TrialBalanceRow[]> {
+    const totals = await this.db
+      .select({
+        accountCode: journalLines.accountCode,
+        debit: sql<number>`coalesce(sum(${journalLines.debit}), 0)::float`,
+        credit: sql<number>`coalesce(sum(${journalLines.credit}), 0)::float`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .where(lte(journalEntries.date, asOf))
+      .groupBy(journalLines.accountCode);
+
+    return CHART_OF_ACCOUNTS.map((account) => {
+      const total = totals.find((t) => t.accountCode === account.code);
+      const net = roundMoney((total?.debit ?? 0) - (total?.credit ?? 0));
+      return {
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0,
+      };
+    });
+  }
+
+  async rebuildJournal(): Promise<number> {
+    return this.inTransaction(async (tx) => {
+      await tx.db.delete(journalLines);
+      await tx.db.delete(journalEntries);
+
+      // Invoices post as first issued, then each amendment's difference and any void
+      const revisions = await tx.db.select().from(invoiceRevisions);
+      const invoiceDrafts = (await tx.getInvoices()).flatMap((invoice) => {
+        const own = revisions.filter((r) => r.invoiceId === invoice.id).sort((a, b) => a.revision - b.revision);
+        const versions = invoiceVersions(invoice, own);
+        return [
+          invoiceJournal(versions[0]),
+          ...own
+            .map((revision, index) => invoiceRevisionJournal(versions[index], versions[index + 1], revision))
+            .filter((adjustment) => adjustment.lines.length > 0),
+          ...(invoice.status === "void"
+            ? [invoiceVoidJournal(invoice, invoice.voidedAt?.toISOString().split("T")[0] ?? invoice.date)]
+            : []),
+        ];
+      });
+
+      const drafts: JournalDraft[] = [
+        ...invoiceDrafts,
+        ...(await tx.getCustomerPayments()).map(customerPaymentJournal),
+        ...(await tx.getPurchases()).map(purchaseJournal),
+        ...(await tx.getVendorPayments()).map(vendorPaymentJournal),
+        ...(await tx.getFarmerAdvances()).map(farmerAdvanceJournal),
+        ...(await tx.getVendorReturns()).map(vendorReturnJournal),
+        ...(await tx.getSalesReturns()).map(salesReturnJournal),
+        ...(await tx.getPattis()).map(pattiJournal),
+        ...(await tx.getHamaliCashPayments()).map(hamaliCashJournal),
+        ...(await tx.getExpenses()).map(expenseJournal),
+      ];
+      for (const draft of drafts) {
+        await tx.postJournal(draft);
+      }
+      return drafts.length;
+    });
+  }
+
+  // Purchases from before due dates existed take their vendor's current credit period
+  async backfillPurchaseDueDates(): Promise<number> {
+    return this.inTransaction(async (tx) => {
+      const pending = await tx.db.select().from(purchases).where(isNull(purchases.dueDate)).for("update");
+      for (const purchase of pending) {
+        const vendor = await tx.getVendor(purchase.vendorId);
+        const paymentTermsDays = vendor?.paymentTermsDays ?? 0;
+        await tx.db.update(purchases)
+          .set({ paymentTermsDays, dueDate: addDays(purchase.date, paymentTermsDays) })
+          .where(eq(purchases.id, purchase.id));
+      }
+      return pending.length;
+    });
+  }
+
+  // Payments recorded against a single invoice before allocations existed settle
+  // that invoice, up to what is still open on it; any excess stays on account
+  async backfillCustomerPaymentAllocations(): Promise<number> {
+    return this.inTransaction(async (tx) => {
+      const legacy = await tx.db.select({ payment: customerPayments })
+        .from(customerPayments)
+        .leftJoin(customerPaymentAllocations, eq(customerPaymentAllocations.paymentId, customerPayments.id))
+        .where(and(isNotNull(customerPayments.invoiceId), isNull(customerPaymentAllocations.id)))
+        .orderBy(asc(customerPayments.date));
+
+      let created = 0;
+      for (const { payment } of legacy) {
+        const settlement = (await tx.getInvoiceSettlements(payment.customerId)).find((s) => s.invoiceId === payment.invoiceId);
+        const amount = Math.min(payment.amount, settlement?.outstanding ?? 0);
+        if (amount <= PRICING_TOLERANCE) continue;
+        created += (await tx.applyPaymentAllocations(payment, [{ invoiceId: payment.invoiceId!, amount }])).length;
+      }
+      return created;
+    });
+  }
+
+  // Vendor payments and returns recorded against a single purchase before allocations
+  // existed settle that purchase, oldest first, up to what is still open on it
+  async backfillPurchaseAllocations(): Promise<number> {
+    return this.inTransaction(async (tx) => {
+      const payments = await tx.db.select({ source: vendorPayments })
+        .from(vendorPayments)
+        .leftJoin(purchaseAllocations, and(
+          eq(purchaseAllocations.sourceType, "payment"),
+          eq(purchaseAllocations.sourceId, vendorPayments.id),
+        ))
+        .where(and(isNotNull(vendorPayments.purchaseId), isNull(purchaseAllocations.id)));
+      const returns = await tx.db.select({ source: vendorReturns })
+        .from(vendorReturns)
+        .leftJoin(purchaseAllocations, and(
+          eq(purchaseAllocations.sourceType, "return"),
+          eq(purchaseAllocations.sourceId, vendorReturns.id),
+        ))
+        .where(and(isNotNull(vendorReturns.purchaseId), isNull(purchaseAllocations.id)));
+
+      const legacy = [
+        ...payments.map(({ source }) => ({ ...source, sourceType: "payment" as const, amount: source.amount })),
+        ...returns.map(({ source }) => ({ ...source, sourceType: "return" as const, amount: source.totalAmount })),
+      ].sort((a, b) => a.date.localeCompare(b.date));
+
+      let created = 0;
+      for (const source of legacy) {
+        const settlement = (await tx.getPurchaseSettlements(source.vendorId)).find((s) => s.purchaseId === source.purchaseId);
+        const amount = Math.min(source.amount, settlement?.outstanding ?? 0);
+        if (amount <= PRICING_TOLERANCE) continue;
+        created += (await tx.applyPurchaseAllocations(
+          source.vendorId, source.sourceType, source.id, source.amount, [{ purchaseId: source.purchaseId!, amount }],
+        )).length;
+      }
+      return created;
+    });
+  }
+
+  // Debit-positive running balance, so asset accounts such as cash read naturally
+  async getAccountLedger(accountCode: string, startDate: string, endDate: string): Promise<AccountLedger> {
+    const [{ opening }] = await this.db
+      .select({ opening: sql<number>`coalesce(sum(${journalLines.debit} - ${journalLines.credit}), 0)::float` })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .where(and(eq(journalLines.accountCode, accountCode), lt(journalEntries.date, startDate)));
+
+    const movements = await this.db
+      .select({ line: journalLines, entry: journalEntries })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .where(and(
+        eq(journalLines.accountCode, accountCode),
+        gte(journalEntries.date, startDate),
+        lte(journalEntries.date, endDate),
+      ))
+      .orderBy(asc(journalEntries.date), asc(journalEntries.postedAt));
+
+    const openingBalance = roundMoney(opening);
+    let balance = openingBalance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+    const lines = movements.map(({ line, entry }) => {
+      balance = roundMoney(balance + line.debit - line.credit);
+      totalDebit += line.debit;
+      totalCredit += line.credit;
+      return {
+        entryId: entry.id,
+        date: entry.date,
+        voucherType: entry.voucherType,
+        reference: entry.reference,
+        narration: entry.narration,
+        debit: line.debit,
+        credit: line.credit,
+        balance,
+      };
+    });
+
+    return {
+      accountCode,
+      from: startDate,
+      to: endDate,
+      openingBalance,
+      lines,
+      totalDebit: roundMoney(totalDebit),
+      totalCredit: roundMoney(totalCredit),
+      closingBalance: balance,
+    };
+  }
+
+  // Replaces the source document's journal entry with the freshly derived one
+  private async postJournal(draft: JournalDraft): Promise<JournalEntry> {
+    assertBalanced(draft);
+    for (const line of draft.lines) {
+      if (!findAccount(line.accountCode)) {
+        throw new Error(`Unknown ledger account ${line.accountCode}`);
+      }
+    }
+
+    await this.removeJournal(draft.sourceType, draft.sourceId);
+    const { lines, ...entry } = draft;
+    const [posted] = await this.db.insert(journalEntries).values(entry).returning();
+    if (lines.length > 0) {
+      await this.db.insert(journalLines).values(lines.map((line) => ({ ...line, entryId: posted.id })));
+    }
+    return posted;
+  }
+
+  private async removeJournal(sourceType: JournalSourceType, sourceId: string): Promise<void> {
+    const removed = await this.db.delete(journalEntries)
+      .where(and(eq(journalEntries.sourceType, sourceType), eq(journalEntries.sourceId, sourceId)))
+      .returning({ id: journalEntries.id });
+    if (removed.length > 0) {
+      await this.db.delete(journalLines).where(inArray(journalLines.entryId, removed.map((r) => r.id)));
+    }
+  }
+
+  // Cash Closings
+  async getCashClosings(): Promise<CashClosing[]> {
+    return await this.db.select().from(cashClosings).orderBy(desc(cashClosings.date));
+  }
+
+  async getCashClosing(date: string): Promise<CashClosing | undefined> {
+    const [closing] = await this.db.select().from(cashClosings).where(eq(cashClosings.date, date));
+    return closing || undefined;
+  }
+
+  async createCashClosing(closing: Omit<InsertCashClosing, "countedCash" | "expectedCash" | "variance">): Promise<CashClosing> {
+    return this.inTransaction(async (tx) => {
+      if (await tx.getCashClosing(closing.date)) {
+        throw new ConflictError(`Cash for ${closing.date} has already been closed`);
+      }
+      const cashBook = await tx.getAccountLedger(ACCOUNTS.cash.code, closing.date, closing.date);
+      const countedCash = countCash(closing.denominations);
+      const [created] = await tx.db.insert(cashClosings).values({
+        ...closing,
+        countedCash,
+        expectedCash: cashBook.closingBalance,
+        variance: roundMoney(countedCash - cashBook.closingBalance),
+      }).returning();
+      return created;
+    });
+  }
+}
+
+interface AllocationTarget extends OpenDocument {
+  label: string;
+}
+
+// Turns an allocation request into amounts per open document, refusing to
+// settle more than a document's outstanding or more than is available
+function resolveAllocations(available: number, open: AllocationTarget[], requested: "auto" | Allocation[]): Allocation[] {
+  const entries = requested === "auto" ? allocateOldestFirst(available, open) : requested;
+
+  let total = 0;
+  for (const entry of entries) {
+    const target = open.find((doc) => doc.id === entry.id);
+    if (!target) {
+      throw new ConflictError(`${entry.id} is not an open document of this account`);
+    }
+    const requestedForTarget = entries
+      .filter((other) => other.id === entry.id)
+      .reduce((sum, other) => sum + other.amount, 0);
+    if (requestedForTarget > target.outstanding + PRICING_TOLERANCE) {
+      throw new ConflictError(`Allocation of ${requestedForTarget} to ${target.label} exceeds its outstanding ${target.outstanding}`);
+    }
+    total += entry.amount;
+  }
+  if (total > available + PRICING_TOLERANCE) {
+    throw new ConflictError(`Allocations total ${roundMoney(total)} but only ${available} is unallocated`);
+  }
+  return entries.map((entry) => ({ id: entry.id, amount: roundMoney(entry.amount) }));
+}
+
+// Lists every invoice and line field an amendment changed, with lines labelled by product
+function diffInvoiceRevision(
+  before: Invoice,
+  after: Invoice,
+  beforeItems: InvoiceItem[],
+  afterItems: { id?: string; productId: string; quantity: number; unitPrice: number; total: number }[],
+  productNames: Map<string, string>,
+): InvoiceRevisionChange[] {
+  const changes: InvoiceRevisionChange[] = [];
+  const describeLine = (item: { quantity: number; unitPrice: number }) => `${item.quantity} @ ${item.unitPrice}`;
+
+  for (const field of REVISED_INVOICE_FIELDS) {
+    const previous = before[field] ?? null;
+    const next = after[field] ?? null;
+    if (previous !== next) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+
+  for (const item of beforeItems) {
+    const name = productNames.get(item.productId) || item.productId;
+    const updated = afterItems.find((candidate) => candidate.id === item.id);
+    if (!updated) {
+      changes.push({ field: `${name} (removed)`, before: describeLine(item), after: null });
+      continue;
+    }
+    if (updated.productId !== item.productId) {
+      changes.push({ field: `${name} product`, before: name, after: productNames.get(updated.productId) || updated.productId });
+    }
+    for (const field of REVISED_ITEM_FIELDS) {
+      if (item[field] !== updated[field]) {
+        changes.push({ field: `${name} ${field}`, before: item[field], after: updated[field] });
+      }
+    }
+  }
+
+  for (const item of afterItems.filter((candidate) => !candidate.id)) {
+    const name = productNames.get(item.productId) || item.productId;
+    changes.push({ field: `${name} (added)`, before: null, after: describeLine(item) });
+  }
+  return changes;
 }
 
 export const storage = new DatabaseStorage();
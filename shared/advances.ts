@@ -0,0 +1,104 @@
+// Cash advances to farmers, recovered out of later payments and pattis.
+// Interest is simple interest per annum on the principal still outstanding,
+// and a recovery clears the interest accrued so far before any principal.
+
+import { daysBetween } from "./aging";
+import { PRICING_TOLERANCE, roundMoney } from "./money";
+
+export interface AdvanceTerms {
+  id: string;
+  date: string;
+  amount: number;
+  interestRate: number; // percent per annum, 0 for interest-free
+}
+
+export interface RecoveryPart {
+  advanceId: string;
+  date: string;
+  principal: number;
+  interest: number;
+}
+
+export interface AdvancePosition {
+  advanceId: string;
+  principalRecovered: number;
+  interestRecovered: number;
+  principalOutstanding: number;
+  interestAccrued: number; // accrued and not yet recovered
+  outstanding: number;
+}
+
+export function calculateInterest(principal: number, interestRate: number, from: string, to: string): number {
+  const days = Math.max(0, daysBetween(from, to));
+  return roundMoney((principal * interestRate * days) / 36500);
+}
+
+// Where an advance stands on `asOf`, replaying its recoveries in date order
+export function getAdvancePosition(advance: AdvanceTerms, recoveries: RecoveryPart[], asOf: string): AdvancePosition {
+  let principal = advance.amount;
+  let interest = 0;
+  let principalRecovered = 0;
+  let interestRecovered = 0;
+  let accruedFrom = advance.date;
+
+  const own = recoveries
+    .filter((r) => r.advanceId === advance.id && r.date <= asOf)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (const recovery of own) {
+    if (recovery.date > accruedFrom) {
+      interest += calculateInterest(principal, advance.interestRate, accruedFrom, recovery.date);
+      accruedFrom = recovery.date;
+    }
+    interest -= recovery.interest;
+    principal -= recovery.principal;
+    principalRecovered += recovery.principal;
+    interestRecovered += recovery.interest;
+  }
+  if (asOf > accruedFrom) {
+    interest += calculateInterest(principal, advance.interestRate, accruedFrom, asOf);
+  }
+
+  const principalOutstanding = Math.max(0, roundMoney(principal));
+  const interestAccrued = Math.max(0, roundMoney(interest));
+  return {
+    advanceId: advance.id,
+    principalRecovered: roundMoney(principalRecovered),
+    interestRecovered: roundMoney(interestRecovered),
+    principalOutstanding,
+    interestAccrued,
+    outstanding: roundMoney(principalOutstanding + interestAccrued),
+  };
+}
+
+// Spreads a recovery over the farmer's advances, oldest first, taking each
+// advance's interest before its principal. A backdated recovery is also held to
+// what is left after the recoveries recorded after its date, so nothing is
+// recovered twice. Whatever cannot be placed is left for the caller to reject.
+export function allocateRecovery(
+  amount: number,
+  advances: AdvanceTerms[],
+  recoveries: RecoveryPart[],
+  date: string,
+): { parts: RecoveryPart[]; unallocated: number } {
+  const parts: RecoveryPart[] = [];
+  let remaining = roundMoney(amount);
+
+  const oldestFirst = [...advances].sort((a, b) => a.date.localeCompare(b.date));
+  for (const advance of oldestFirst) {
+    if (remaining <= PRICING_TOLERANCE) break;
+    const lastRecovered = recoveries
+      .filter((r) => r.advanceId === advance.id)
+      .reduce((latest, r) => (r.date > latest ? r.date : latest), date);
+    const position = getAdvancePosition(advance, recoveries, date);
+    const afterAll = getAdvancePosition(advance, recoveries, lastRecovered);
+    const interestAccrued = Math.min(position.interestAccrued, afterAll.interestAccrued);
+    const principalOutstanding = Math.min(position.principalOutstanding, afterAll.principalOutstanding);
+    if (interestAccrued + principalOutstanding <= PRICING_TOLERANCE) continue;
+
+    const interest = roundMoney(Math.min(remaining, interestAccrued));
+    const principal = roundMoney(Math.min(remaining - interest, principalOutstanding));
+    parts.push({ advanceId: advance.id, date, principal, interest });
+    remaining = roundMoney(remaining - interest - principal);
+  }
+  return { parts, unallocated: Math.max(0, remaining) };
+}
@@ -0,0 +1,46 @@
+// Age buckets for receivables and payables reports.
+// A bucket covers days from minDays up to and including maxDays (open-ended when null).
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+}
+
+// Receivables are aged from the invoice date
+export const RECEIVABLE_AGING_BUCKETS: AgingBucket[] = [
+  { key: "0-30", label: "0–30 days", minDays: 0, maxDays: 30 },
+  { key: "31-60", label: "31–60 days", minDays: 31, maxDays: 60 },
+  { key: "61-90", label: "61–90 days", minDays: 61, maxDays: 90 },
+  { key: "90+", label: "90+ days", minDays: 91, maxDays: null },
+];
+
+// Payables are aged by days past the purchase due date
+export const PAYABLE_AGING_BUCKETS: AgingBucket[] = [
+  { key: "current", label: "Current", minDays: Number.NEGATIVE_INFINITY, maxDays: 0 },
+  { key: "1-15", label: "Overdue 1–15 days", minDays: 1, maxDays: 15 },
+  { key: "16-30", label: "Overdue 16–30 days", minDays: 16, maxDays: 30 },
+  { key: "30+", label: "Overdue 30+ days", minDays: 31, maxDays: null },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole days from one YYYY-MM-DD date to another, negative when `to` is earlier
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * MS_PER_DAY).toISOString().split("T")[0];
+}
+
+export function findAgingBucket(days: number, buckets: AgingBucket[]): AgingBucket {
+  return buckets.find(b => days >= b.minDays && (b.maxDays === null || days <= b.maxDays))
+    // Days below the first bucket (e.g. future-dated documents) count as the youngest bucket
+    ?? buckets[0];
+}
+
+export function emptyAgingTotals(buckets: AgingBucket[]): Record<string, number> {
+  return Object.fromEntries(buckets.map(b => [b.key, 0]));
+}
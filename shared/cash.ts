@@ -0,0 +1,12 @@
+// Indian currency notes and coins counted at the end-of-day cash closing.
+
+import { roundMoney } from "./money";
+
+export const CASH_DENOMINATIONS = [500, 200, 100, 50, 20, 10, 5, 2, 1] as const;
+
+// Total value of a count keyed by denomination, e.g. { "500": 4, "100": 3 } -> 2300
+export function countCash(denominations: Record<string, number>): number {
+  return roundMoney(
+    Object.entries(denominations).reduce((sum, [value, count]) => sum + Number(value) * count, 0)
+  );
+}
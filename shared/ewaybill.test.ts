@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildEwayBillJson, findEwayBillProblems, findPincode, normalizeVehicleNumber, type EwayBillInput } from "./ewaybill";
+
+function input(overrides: Partial<EwayBillInput> = {}): EwayBillInput {
+  return {
+    documentType: "INV",
+    documentNumber: "INV/25-26/0001",
+    documentDate: "2025-04-05",
+    from: { gstin: "27ABCDE1234F1Z5", name: "Traders", address: "APMC Market, Pune 411037", place: "Pune", pincode: "411037", stateCode: "27" },
+    to: { gstin: null, name: "Buyer", address: "KR Market, Bengaluru 560002", place: "Bengaluru", pincode: "560002", stateCode: "29" },
+    lines: [
+      { productName: "Onion", hsnCode: "0703", unit: "KG", quantity: 2000, taxableValue: 50000, gstRate: 0 },
+      { productName: "Crates", hsnCode: "3923", unit: "Crate", quantity: 40, taxableValue: 4800, gstRate: 12 },
+    ],
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 576,
+    otherAmount: 4000,
+    totalValue: 59376,
+    transport: { distanceKm: 840, vehicleNumber: "ka 01-ab 1234", transporterName: "", transporterId: "" },
+    ...overrides,
+  };
+}
+
+describe("address helpers", () => {
+  it("finds the PIN code in an address", () => {
+    assert.equal(findPincode("Shop 12, APMC Yard, Pune - 411037, MH"), "411037");
+    assert.equal(findPincode("Ph 9876543210"), "");
+    assert.equal(findPincode(null), "");
+  });
+
+  it("strips spaces and dashes from vehicle numbers", () => {
+    assert.equal(normalizeVehicleNumber("ka 01-ab 1234"), "KA01AB1234");
+  });
+});
+
+describe("findEwayBillProblems", () => {
+  it("passes a complete inter-state invoice", () => {
+    assert.deepEqual(findEwayBillProblems(input()), []);
+  });
+
+  it("asks for the customer's state when it cannot be resolved", () => {
+    const problems = findEwayBillProblems(input({ to: { ...input().to, stateCode: "" } }));
+    assert.deepEqual(problems, ["Customer state or GSTIN is not set"]);
+  });
+
+  it("flags a delivery state that disagrees with the tax charged", () => {
+    const local = input({ to: { ...input().to, stateCode: "27" } });
+    assert.deepEqual(findEwayBillProblems(local), ["Delivery state 27 does not match the IGST charged on the invoice"]);
+
+    const interState = input({ cgstAmount: 288, sgstAmount: 288, igstAmount: 0 });
+    assert.deepEqual(findEwayBillProblems(interState), ["Delivery state 29 does not match the CGST/SGST charged on the invoice"]);
+  });
+
+  it("lists missing transport and line details", () => {
+    const problems = findEwayBillProblems(input({
+      from: { ...input().from, gstin: null, pincode: "41103" },
+      lines: [{ productName: "Onion", hsnCode: "", unit: "KG", quantity: 10, taxableValue: 250, gstRate: 0 }],
+      transport: { distanceKm: 0, vehicleNumber: "TRUCK", transporterName: "", transporterId: "" },
+    }));
+    assert.deepEqual(problems, [
+      "Company GSTIN is not set in Settings",
+      "Dispatch PIN code must be 6 digits",
+      "Distance must be between 1 and 4000 km",
+      "Vehicle number is not in a valid format",
+      "Line 1 (Onion) needs an HSN code",
+    ]);
+  });
+});
+
+describe("buildEwayBillJson", () => {
+  it("builds an inter-state bill for an unregistered buyer", () => {
+    const [bill] = buildEwayBillJson(input()).billLists;
+    assert.equal(bill.docDate, "05/04/2025");
+    assert.equal(bill.toGstin, "URP");
+    assert.equal(bill.toStateCode, 29);
+    assert.equal(bill.totalValue, 54800);
+    assert.equal(bill.otherValue, 4000);
+    assert.equal(bill.mainHsnCode, 703);
+    assert.equal(bill.vehicleNo, "KA01AB1234");
+    assert.deepEqual(
+      bill.itemList.map((item) => [item.qtyUnit, item.cgstRate, item.sgstRate, item.igstRate]),
+      [["KGS", 0, 0, 0], ["BOX", 0, 0, 12]],
+    );
+  });
+
+  it("splits the rate into CGST and SGST within the state", () => {
+    const [bill] = buildEwayBillJson(input({
+      to: { ...input().to, gstin: "27PQRST5678K1Z2", stateCode: "27" },
+      cgstAmount: 288,
+      sgstAmount: 288,
+      igstAmount: 0,
+    })).billLists;
+    assert.equal(bill.toGstin, "27PQRST5678K1Z2");
+    assert.deepEqual([bill.itemList[1].cgstRate, bill.itemList[1].sgstRate, bill.itemList[1].igstRate], [6, 6, 0]);
+  });
+});
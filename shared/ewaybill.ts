@@ -0,0 +1,170 @@
+// E-way bill bulk-upload JSON, built offline from a tax invoice or delivery
+// challan and uploaded on the e-way bill portal. The portal returns a 12-digit
+// EWB number, which is then recorded against the invoice.
+
+import { roundMoney } from "./money";
+import { getUqc } from "./gstr1";
+
+// Consignments above this value need an e-way bill for road movement
+export const EWAY_BILL_THRESHOLD = 50000;
+
+export const EWAY_BILL_JSON_VERSION = "1.0.0621";
+
+export const EWB_NUMBER_PATTERN = /^\d{12}$/;
+
+export type EwayBillDocumentType = "INV" | "CHL";
+
+export interface EwayBillParty {
+  gstin: string | null; // unregistered parties are sent as URP
+  name: string;
+  address: string;
+  place: string;
+  pincode: string;
+  stateCode: string;
+}
+
+export interface EwayBillLine {
+  productName: string;
+  hsnCode: string;
+  unit: string;
+  quantity: number;
+  taxableValue: number;
+  gstRate: number;
+}
+
+export interface EwayBillTransport {
+  distanceKm: number;
+  vehicleNumber: string;
+  transporterName: string;
+  transporterId: string; // GSTIN or TRANSIN of the transporter, blank when we move the goods ourselves
+}
+
+export interface EwayBillInput {
+  documentType: EwayBillDocumentType;
+  documentNumber: string;
+  documentDate: string; // YYYY-MM-DD
+  from: EwayBillParty;
+  to: EwayBillParty;
+  lines: EwayBillLine[];
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  otherAmount: number; // Hamali and other charges billed on the document
+  totalValue: number;
+  transport: EwayBillTransport;
+}
+
+// The first six-digit number in an address is taken as its PIN code
+export function findPincode(address: string | null | undefined): string {
+  return address?.match(/\b\d{6}\b/)?.[0] ?? "";
+}
+
+// Vehicle numbers go to the portal without spaces or dashes, e.g. KA01AB1234
+export function normalizeVehicleNumber(vehicleNumber: string): string {
+  return vehicleNumber.replace(/[\s-]/g, "").toUpperCase();
+}
+
+function toPortalDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+// Lists what the portal would reject, so the user can fix it before downloading
+export function findEwayBillProblems(input: EwayBillInput): string[] {
+  const problems: string[] = [];
+  if (!input.from.gstin) problems.push("Company GSTIN is not set in Settings");
+  for (const [label, party] of [["Dispatch", input.from], ["Delivery", input.to]] as const) {
+    if (!/^[1-9]\d{5}$/.test(party.pincode)) problems.push(`${label} PIN code must be 6 digits`);
+    if (!party.stateCode) {
+      problems.push(label === "Dispatch" ? "Company state is not set in Settings" : "Customer state or GSTIN is not set");
+    }
+    if (!party.place.trim()) problems.push(`${label} place is required`);
+  }
+  // The rates sent follow the states, so they must agree with the tax the invoice charged
+  if (input.from.stateCode && input.to.stateCode) {
+    const interState = input.from.stateCode !== input.to.stateCode;
+    if (interState ? input.cgstAmount + input.sgstAmount > 0 : input.igstAmount > 0) {
+      problems.push(`Delivery state ${input.to.stateCode} does not match the ${interState ? "CGST/SGST" : "IGST"} charged on the invoice`);
+    }
+  }
+  if (!(input.transport.distanceKm > 0) || input.transport.distanceKm > 4000) {
+    problems.push("Distance must be between 1 and 4000 km");
+  }
+  if (!/^[A-Z]{2}\d{1,2}[A-Z]{0,3}\d{4}$/.test(normalizeVehicleNumber(input.transport.vehicleNumber))) {
+    problems.push("Vehicle number is not in a valid format");
+  }
+  input.lines.forEach((line, index) => {
+    if (!/^\d{4,8}$/.test(line.hsnCode)) problems.push(`Line ${index + 1} (${line.productName}) needs an HSN code`);
+  });
+  return problems;
+}
+
+export function buildEwayBillJson(input: EwayBillInput) {
+  const interState = input.from.stateCode !== input.to.stateCode;
+  const taxableTotal = roundMoney(input.lines.reduce((sum, line) => sum + line.taxableValue, 0));
+  // The main HSN is the one carrying the largest share of the consignment
+  const mainLine = [...input.lines].sort((a, b) => b.taxableValue - a.taxableValue)[0];
+
+  return {
+    version: EWAY_BILL_JSON_VERSION,
+    billLists: [
+      {
+        userGstin: input.from.gstin,
+        supplyType: "O",
+        subSupplyType: input.documentType === "INV" ? 1 : 8,
+        subSupplyDesc: input.documentType === "INV" ? "" : "Delivery Challan",
+        docType: input.documentType,
+        docNo: input.documentNumber,
+        docDate: toPortalDate(input.documentDate),
+        fromGstin: input.from.gstin,
+        fromTrdName: input.from.name,
+        fromAddr1: input.from.address.slice(0, 120),
+        fromAddr2: "",
+        fromPlace: input.from.place,
+        fromPincode: Number(input.from.pincode),
+        fromStateCode: Number(input.from.stateCode),
+        actFromStateCode: Number(input.from.stateCode),
+        toGstin: input.to.gstin || "URP",
+        toTrdName: input.to.name,
+        toAddr1: input.to.address.slice(0, 120),
+        toAddr2: "",
+        toPlace: input.to.place,
+        toPincode: Number(input.to.pincode),
+        toStateCode: Number(input.to.stateCode),
+        actToStateCode: Number(input.to.stateCode),
+        transactionType: 1,
+        totalValue: taxableTotal,
+        cgstValue: roundMoney(input.cgstAmount),
+        sgstValue: roundMoney(input.sgstAmount),
+        igstValue: roundMoney(input.igstAmount),
+        cessValue: 0,
+        cessNonAdvolValue: 0,
+        otherValue: roundMoney(input.otherAmount),
+        totInvValue: roundMoney(input.totalValue),
+        transMode: 1, // road
+        transDistance: String(Math.round(input.transport.distanceKm)),
+        transporterName: input.transport.transporterName,
+        transporterId: input.transport.transporterId,
+        transDocNo: "",
+        transDocDate: "",
+        vehicleNo: normalizeVehicleNumber(input.transport.vehicleNumber),
+        vehicleType: "R",
+        mainHsnCode: mainLine ? Number(mainLine.hsnCode) : 0,
+        itemList: input.lines.map((line, index) => ({
+          itemNo: index + 1,
+          productName: line.productName,
+          productDesc: line.productName,
+          hsnCode: Number(line.hsnCode),
+          quantity: line.quantity,
+          qtyUnit: getUqc(line.unit),
+          taxableAmount: roundMoney(line.taxableValue),
+          cgstRate: interState ? 0 : line.gstRate / 2,
+          sgstRate: interState ? 0 : line.gstRate / 2,
+          igstRate: interState ? line.gstRate : 0,
+          cessRate: 0,
+          cessNonAdvol: 0,
+        })),
+      },
+    ],
+  };
+}
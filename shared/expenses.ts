@@ -0,0 +1,28 @@
+// Categories for day-to-day business expenses, in the order shown on forms and reports.
+
+export const EXPENSE_CATEGORIES = {
+  rent: "Rent",
+  labour: "Labour",
+  fuel: "Fuel",
+  electricity: "Electricity",
+  market_fees: "Market Fees",
+  transport: "Transport",
+  maintenance: "Maintenance",
+  other: "Other",
+} as const;
+
+export type ExpenseCategory = keyof typeof EXPENSE_CATEGORIES;
+
+export function getExpenseCategoryLabel(category: string): string {
+  return EXPENSE_CATEGORIES[category as ExpenseCategory] ?? category;
+}
+
+// Attachments are uploaded as base64 in the JSON body
+export const MAX_EXPENSE_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Receipts are photos or PDFs; these are the only types shown inline in the browser
+export const EXPENSE_ATTACHMENT_TYPES = ["image/png", "image/jpeg", "image/webp", "application/pdf"] as const;
+
+export function isExpenseAttachmentType(contentType: string): boolean {
+  return (EXPENSE_ATTACHMENT_TYPES as readonly string[]).includes(contentType);
+}
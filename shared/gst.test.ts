@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateLineTax, getStateName, isInterStateSupply, resolveStateCode, summarizeTax } from "./gst";
+
+describe("resolveStateCode", () => {
+  it("prefers the recorded state over the GSTIN", () => {
+    assert.equal(resolveStateCode("27", "29ABCDE1234F1Z5"), "27");
+  });
+
+  it("reads the state from a valid GSTIN", () => {
+    assert.equal(resolveStateCode(null, "29ABCDE1234F1Z5"), "29");
+    assert.equal(getStateName("29"), "Karnataka");
+  });
+
+  it("gives up on a malformed GSTIN", () => {
+    assert.equal(resolveStateCode("", "29ABCDE"), null);
+  });
+});
+
+describe("isInterStateSupply", () => {
+  it("is inter-state only when both states are known and differ", () => {
+    assert.equal(isInterStateSupply("27", "29"), true);
+    assert.equal(isInterStateSupply("27", "27"), false);
+    assert.equal(isInterStateSupply("27", null), false);
+    assert.equal(isInterStateSupply(null, "29"), false);
+  });
+});
+
+describe("calculateLineTax", () => {
+  it("splits local tax evenly between CGST and SGST", () => {
+    assert.deepEqual(calculateLineTax(1000, 18, false), { cgstAmount: 90, sgstAmount: 90, igstAmount: 0 });
+  });
+
+  it("charges the whole tax as IGST inter-state", () => {
+    assert.deepEqual(calculateLineTax(1000, 18, true), { cgstAmount: 0, sgstAmount: 0, igstAmount: 180 });
+  });
+
+  it("keeps the local total equal to the IGST when the tax does not halve to the paisa", () => {
+    for (const value of [0.3, 1, 10.1, 333.33]) {
+      const local = calculateLineTax(value, 5, false);
+      const { igstAmount } = calculateLineTax(value, 5, true);
+      assert.equal(Math.round((local.cgstAmount + local.sgstAmount) * 100), Math.round(igstAmount * 100));
+    }
+  });
+});
+
+describe("summarizeTax", () => {
+  it("groups lines by HSN code and rate, sorted", () => {
+    const rows = summarizeTax([
+      { hsnCode: "0703", gstRate: 0, total: 500, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 },
+      { hsnCode: "3923", gstRate: 12, total: 480, cgstAmount: 28.8, sgstAmount: 28.8, igstAmount: 0 },
+      { hsnCode: "0703", gstRate: 0, total: 250.25, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 },
+      { hsnCode: null, gstRate: 5, total: 100, cgstAmount: 2.5, sgstAmount: 2.5, igstAmount: 0 },
+    ]);
+    assert.deepEqual(
+      rows.map((row) => [row.hsnCode, row.gstRate, row.taxableValue, row.totalTax]),
+      [
+        ["", 5, 100, 5],
+        ["0703", 0, 750.25, 0],
+        ["3923", 12, 480, 57.6],
+      ],
+    );
+  });
+});
@@ -0,0 +1,121 @@
+// GST rules shared by the client pages and the server. Most fresh vegetables
+// are exempt (0%); processed or packed goods carry a rate. Supplies within our
+// own state split the tax equally into CGST and SGST; supplies to another
+// state carry IGST for the full amount.
+
+import { roundMoney } from "./money";
+
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+// State codes as used in GSTINs and the place of supply on tax invoices
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function getStateName(code: string | null | undefined): string {
+  return GST_STATES.find((state) => state.code === code)?.name ?? "";
+}
+
+// An explicit state wins; otherwise the first two digits of the GSTIN give it
+export function resolveStateCode(state: string | null | undefined, gstin: string | null | undefined): string | null {
+  if (state) return state;
+  if (gstin && GSTIN_PATTERN.test(gstin)) return gstin.slice(0, 2);
+  return null;
+}
+
+// Supplies are treated as local unless both states are known and differ
+export function isInterStateSupply(supplierState: string | null, placeOfSupply: string | null): boolean {
+  return !!supplierState && !!placeOfSupply && supplierState !== placeOfSupply;
+}
+
+export interface LineTax {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+// The tax is rounded once for the line, then halved, so the total never
+// depends on whether the supply is local or inter-state.
+export function calculateLineTax(taxableValue: number, gstRate: number, interState: boolean): LineTax {
+  const tax = roundMoney((taxableValue * gstRate) / 100);
+  if (interState) {
+    return { cgstAmount: 0, sgstAmount: 0, igstAmount: tax };
+  }
+  const cgstAmount = roundMoney(tax / 2);
+  return { cgstAmount, sgstAmount: roundMoney(tax - cgstAmount), igstAmount: 0 };
+}
+
+export interface TaxableLine extends LineTax {
+  hsnCode: string | null;
+  gstRate: number;
+  total: number;
+}
+
+export interface TaxSummaryRow extends LineTax {
+  hsnCode: string;
+  gstRate: number;
+  taxableValue: number;
+  totalTax: number;
+}
+
+// One row per HSN code and rate, as printed under a tax invoice
+export function summarizeTax(lines: TaxableLine[]): TaxSummaryRow[] {
+  const rows = new Map<string, TaxSummaryRow>();
+  for (const line of lines) {
+    const hsnCode = line.hsnCode || "";
+    const key = `${hsnCode}|${line.gstRate}`;
+    const row = rows.get(key) ?? {
+      hsnCode,
+      gstRate: line.gstRate,
+      taxableValue: 0,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 0,
+      totalTax: 0,
+    };
+    row.taxableValue = roundMoney(row.taxableValue + line.total);
+    row.cgstAmount = roundMoney(row.cgstAmount + line.cgstAmount);
+    row.sgstAmount = roundMoney(row.sgstAmount + line.sgstAmount);
+    row.igstAmount = roundMoney(row.igstAmount + line.igstAmount);
+    row.totalTax = roundMoney(row.cgstAmount + row.sgstAmount + row.igstAmount);
+    rows.set(key, row);
+  }
+  return Array.from(rows.values()).sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.gstRate - b.gstRate);
+}
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildGstr1, getUqc, gstr1ReturnSchema, type Gstr1Document, type Gstr1Line } from "./gstr1";
+
+const SUPPLIER_GSTIN = "27ABCDE1234F1Z5";
+const BUYER_GSTIN = "27PQRST5678K1Z2";
+
+function line(overrides: Partial<Gstr1Line> = {}): Gstr1Line {
+  return {
+    hsnCode: "3923",
+    description: "Plastic crates",
+    unit: "Crate",
+    quantity: 10,
+    gstRate: 12,
+    taxableValue: 1000,
+    cgstAmount: 60,
+    sgstAmount: 60,
+    igstAmount: 0,
+    ...overrides,
+  };
+}
+
+function document(overrides: Partial<Gstr1Document> = {}): Gstr1Document {
+  return {
+    number: "INV/25-26/0001",
+    date: "2025-04-05",
+    partyName: "Buyer",
+    partyGstin: null,
+    placeOfSupply: null,
+    value: 1120,
+    lines: [line()],
+    ...overrides,
+  };
+}
+
+function build(invoices: Gstr1Document[], creditNotes: Gstr1Document[] = []) {
+  return buildGstr1({ gstin: SUPPLIER_GSTIN, period: "2025-04", supplierState: "27", invoices, creditNotes });
+}
+
+describe("getUqc", () => {
+  it("maps units to GST unit codes", () => {
+    assert.equal(getUqc("KG"), "KGS");
+    assert.equal(getUqc("Crate"), "BOX");
+    assert.equal(getUqc("Tray"), "OTH");
+  });
+});
+
+describe("buildGstr1", () => {
+  it("reports registered buyers invoice-wise in B2B", () => {
+    const { json, csv } = build([document({ partyGstin: BUYER_GSTIN })]);
+    assert.equal(json.fp, "042025");
+    assert.deepEqual(json.b2b, [{
+      ctin: BUYER_GSTIN,
+      inv: [{
+        inum: "INV/25-26/0001",
+        idt: "05-04-2025",
+        val: 1120,
+        pos: "27",
+        rchrg: "N",
+        inv_typ: "R",
+        itms: [{ num: 1, itm_det: { txval: 1000, rt: 12, camt: 60, samt: 60, csamt: 0 } }],
+      }],
+    }]);
+    assert.equal(csv.b2b[1][3], "05-Apr-2025");
+    assert.equal(json.b2cs.length, 0);
+  });
+
+  it("splits unregistered sales between B2CL and B2CS by state and value", () => {
+    const large = line({ taxableValue: 200000, cgstAmount: 0, sgstAmount: 0, igstAmount: 24000 });
+    const { json } = build([
+      document({ number: "1", placeOfSupply: "29", value: 224000, lines: [large] }),
+      document({ number: "2", placeOfSupply: "29", value: 1120, lines: [line({ cgstAmount: 0, sgstAmount: 0, igstAmount: 120 })] }),
+      document({ number: "3" }),
+    ]);
+    assert.deepEqual(json.b2cl.map((state) => [state.pos, state.inv.map((invoice) => invoice.inum)]), [["29", ["1"]]]);
+    assert.deepEqual(
+      json.b2cs.map((row) => [row.sply_ty, row.pos, row.txval, row.iamt, row.camt]),
+      [["INTER", "29", 1000, 120, undefined], ["INTRA", "27", 1000, undefined, 60]],
+    );
+  });
+
+  it("reports exempt lines in the nil section, not with taxable supplies", () => {
+    const onions = line({ hsnCode: "0703", description: "Onion", unit: "KG", quantity: 100, gstRate: 0, taxableValue: 2500, cgstAmount: 0, sgstAmount: 0 });
+    const { json } = build([document({ partyGstin: BUYER_GSTIN, lines: [onions] })]);
+    assert.equal(json.b2b.length, 0);
+    assert.deepEqual(json.nil.inv, [{ sply_ty: "INTRAB2B", nil_amt: 0, expt_amt: 2500, ngsup_amt: 0 }]);
+    assert.deepEqual(json.hsn.data.map((row) => [row.hsn_sc, row.uqc, row.qty, row.txval]), [["0703", "KGS", 100, 2500]]);
+  });
+
+  it("nets small B2C credit notes off B2CS and the HSN summary", () => {
+    const returned = line({ quantity: 2, taxableValue: 200, cgstAmount: 12, sgstAmount: 12 });
+    const { json } = build([document()], [document({ number: "CN/25-26/0001", value: 224, lines: [returned] })]);
+    assert.equal(json.cdnr.length + json.cdnur.length, 0);
+    assert.deepEqual(json.b2cs.map((row) => [row.txval, row.camt, row.samt]), [[800, 48, 48]]);
+    assert.deepEqual(json.hsn.data.map((row) => [row.qty, row.txval]), [[8, 800]]);
+  });
+
+  it("reports credit notes to registered buyers in CDNR", () => {
+    const { json } = build([], [document({ number: "CN/25-26/0001", partyGstin: BUYER_GSTIN })]);
+    assert.equal(json.cdnr[0].ctin, BUYER_GSTIN);
+    assert.equal(json.cdnr[0].nt[0].ntty, "C");
+  });
+
+  it("produces a return the schema accepts", () => {
+    const { json } = build(
+      [document({ partyGstin: BUYER_GSTIN }), document({ number: "2", placeOfSupply: "29", lines: [line({ cgstAmount: 0, sgstAmount: 0, igstAmount: 120 })] })],
+      [document({ number: "CN/1", partyGstin: BUYER_GSTIN })],
+    );
+    assert.equal(gstr1ReturnSchema.safeParse(json).success, true);
+  });
+});
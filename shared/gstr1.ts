@@ -0,0 +1,385 @@
+// GSTR-1 (outward supplies) return built from issued invoices and credit notes,
+// in the JSON layout accepted by the GST offline tool plus the per-section CSV
+// templates the tool can import. Exempt (0%) lines are reported in the nil
+// rated / exempt section rather than with the taxable invoices.
+
+import { z } from "zod";
+import { GSTIN_PATTERN, GST_RATES, getStateName } from "./gst";
+import { roundMoney } from "./money";
+
+// Inter-state sales to unregistered buyers above this invoice value are reported invoice-wise (B2CL)
+export const B2CL_INVOICE_THRESHOLD = 100000;
+
+export interface Gstr1Line {
+  hsnCode: string | null;
+  description: string;
+  unit: string;
+  quantity: number;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface Gstr1Document {
+  number: string;
+  date: string; // YYYY-MM-DD
+  partyName: string;
+  partyGstin: string | null;
+  placeOfSupply: string | null; // state code; blank means a local supply
+  value: number;
+  lines: Gstr1Line[];
+}
+
+export interface Gstr1Input {
+  gstin: string;
+  period: string; // YYYY-MM
+  supplierState: string;
+  invoices: Gstr1Document[];
+  creditNotes: Gstr1Document[];
+}
+
+const rateSchema = z.number().refine((rate) => (GST_RATES as readonly number[]).includes(rate), "Unknown GST rate");
+const dateSchema = z.string().regex(/^\d{2}-\d{2}-\d{4}$/);
+const posSchema = z.string().regex(/^\d{2}$/);
+const amountSchema = z.number().finite();
+
+const itemSchema = z.object({
+  num: z.number().int().positive(),
+  itm_det: z.object({
+    txval: amountSchema,
+    rt: rateSchema,
+    iamt: amountSchema.optional(),
+    camt: amountSchema.optional(),
+    samt: amountSchema.optional(),
+    csamt: amountSchema,
+  }),
+});
+
+export const gstr1ReturnSchema = z.object({
+  gstin: z.string().regex(GSTIN_PATTERN),
+  fp: z.string().regex(/^(0[1-9]|1[0-2])\d{4}$/),
+  b2b: z.array(z.object({
+    ctin: z.string().regex(GSTIN_PATTERN),
+    inv: z.array(z.object({
+      inum: z.string().min(1).max(16),
+      idt: dateSchema,
+      val: amountSchema,
+      pos: posSchema,
+      rchrg: z.enum(["Y", "N"]),
+      inv_typ: z.enum(["R", "SEWP", "SEWOP", "DE"]),
+      itms: z.array(itemSchema).min(1),
+    })),
+  })),
+  b2cl: z.array(z.object({
+    pos: posSchema,
+    inv: z.array(z.object({
+      inum: z.string().min(1).max(16),
+      idt: dateSchema,
+      val: amountSchema,
+      itms: z.array(itemSchema).min(1),
+    })),
+  })),
+  b2cs: z.array(z.object({
+    sply_ty: z.enum(["INTRA", "INTER"]),
+    pos: posSchema,
+    typ: z.literal("OE"),
+    rt: rateSchema,
+    txval: amountSchema,
+    iamt: amountSchema.optional(),
+    camt: amountSchema.optional(),
+    samt: amountSchema.optional(),
+    csamt: amountSchema,
+  })),
+  cdnr: z.array(z.object({
+    ctin: z.string().regex(GSTIN_PATTERN),
+    nt: z.array(z.object({
+      ntty: z.enum(["C", "D"]),
+      nt_num: z.string().min(1).max(16),
+      nt_dt: dateSchema,
+      val: amountSchema,
+      pos: posSchema,
+      rchrg: z.enum(["Y", "N"]),
+      inv_typ: z.enum(["R", "SEWP", "SEWOP", "DE"]),
+      itms: z.array(itemSchema).min(1),
+    })),
+  })),
+  cdnur: z.array(z.object({
+    typ: z.literal("B2CL"),
+    ntty: z.enum(["C", "D"]),
+    nt_num: z.string().min(1).max(16),
+    nt_dt: dateSchema,
+    val: amountSchema,
+    pos: posSchema,
+    itms: z.array(itemSchema).min(1),
+  })),
+  nil: z.object({
+    inv: z.array(z.object({
+      sply_ty: z.enum(["INTRB2B", "INTRAB2B", "INTRB2C", "INTRAB2C"]),
+      nil_amt: amountSchema,
+      expt_amt: amountSchema,
+      ngsup_amt: amountSchema,
+    })),
+  }),
+  hsn: z.object({
+    data: z.array(z.object({
+      num: z.number().int().positive(),
+      hsn_sc: z.string().regex(/^\d{4,8}$/),
+      desc: z.string().max(30),
+      uqc: z.string().min(2).max(3),
+      qty: amountSchema,
+      rt: rateSchema,
+      txval: amountSchema,
+      iamt: amountSchema,
+      camt: amountSchema,
+      samt: amountSchema,
+      csamt: amountSchema,
+    })),
+  }),
+});
+
+export type Gstr1Return = z.infer<typeof gstr1ReturnSchema>;
+
+export type Gstr1Section = "b2b" | "b2cl" | "b2cs" | "cdnr" | "cdnur" | "exemp" | "hsn";
+
+// Units as the GST portal's unit quantity codes
+const UQC_BY_UNIT: Record<string, string> = {
+  kg: "KGS",
+  dozen: "DOZ",
+  piece: "PCS",
+  bundle: "BDL",
+  crate: "BOX",
+  box: "BOX",
+  bag: "BAG",
+};
+
+export function getUqc(unit: string): string {
+  return UQC_BY_UNIT[unit.toLowerCase()] ?? "OTH";
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// 2025-04-05 -> 05-04-2025 for the JSON, 05-Apr-2025 for the CSV templates
+function toReturnDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}-${month}-${year}`;
+}
+
+function toTemplateDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}-${MONTHS[Number(month) - 1]}-${year}`;
+}
+
+function toTemplatePos(code: string): string {
+  return `${code}-${getStateName(code)}`;
+}
+
+interface RateTotals {
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+// Taxable lines of one document, one entry per rate as the return expects
+function totalsByRate(lines: Gstr1Line[]): RateTotals[] {
+  const byRate = new Map<number, RateTotals>();
+  for (const line of lines) {
+    if (line.gstRate === 0) continue;
+    const totals = byRate.get(line.gstRate) ?? { gstRate: line.gstRate, taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 };
+    totals.taxableValue = roundMoney(totals.taxableValue + line.taxableValue);
+    totals.cgstAmount = roundMoney(totals.cgstAmount + line.cgstAmount);
+    totals.sgstAmount = roundMoney(totals.sgstAmount + line.sgstAmount);
+    totals.igstAmount = roundMoney(totals.igstAmount + line.igstAmount);
+    byRate.set(line.gstRate, totals);
+  }
+  return Array.from(byRate.values()).sort((a, b) => a.gstRate - b.gstRate);
+}
+
+function toItems(rates: RateTotals[], interState: boolean): Gstr1Return["b2b"][number]["inv"][number]["itms"] {
+  return rates.map((rate, index) => ({
+    num: index + 1,
+    itm_det: interState
+      ? { txval: rate.taxableValue, rt: rate.gstRate, iamt: rate.igstAmount, csamt: 0 }
+      : { txval: rate.taxableValue, rt: rate.gstRate, camt: rate.cgstAmount, samt: rate.sgstAmount, csamt: 0 },
+  }));
+}
+
+export interface Gstr1Export {
+  json: Gstr1Return;
+  csv: Record<Gstr1Section, string[][]>;
+}
+
+export function buildGstr1(input: Gstr1Input): Gstr1Export {
+  const [year, month] = input.period.split("-");
+  const b2b = new Map<string, Gstr1Return["b2b"][number]>();
+  const b2cl = new Map<string, Gstr1Return["b2cl"][number]>();
+  const b2cs = new Map<string, Gstr1Return["b2cs"][number]>();
+  const cdnr = new Map<string, Gstr1Return["cdnr"][number]>();
+  const cdnur: Gstr1Return["cdnur"] = [];
+  const nil = new Map<string, Gstr1Return["nil"]["inv"][number]>();
+  const hsn = new Map<string, Omit<Gstr1Return["hsn"]["data"][number], "num"> & { value: number }>();
+  const csv: Record<Gstr1Section, string[][]> = {
+    b2b: [["GSTIN/UIN of Recipient", "Receiver Name", "Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply", "Reverse Charge", "Applicable % of Tax Rate", "Invoice Type", "E-Commerce GSTIN", "Rate", "Taxable Value", "Cess Amount"]],
+    b2cl: [["Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount", "E-Commerce GSTIN"]],
+    b2cs: [["Type", "Place Of Supply", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount", "E-Commerce GSTIN"]],
+    cdnr: [["GSTIN/UIN of Recipient", "Receiver Name", "Note Number", "Note Date", "Note Type", "Place Of Supply", "Reverse Charge", "Note Supply Type", "Note Value", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount"]],
+    cdnur: [["UR Type", "Note Number", "Note Date", "Note Type", "Place Of Supply", "Note Value", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount"]],
+    exemp: [["Description", "Nil Rated Supplies", "Exempted(other than nil rated/non GST supply)", "Non-GST Supplies"]],
+    hsn: [["HSN", "Description", "UQC", "Total Quantity", "Total Value", "Rate", "Taxable Value", "Integrated Tax Amount", "Central Tax Amount", "State/UT Tax Amount", "Cess Amount"]],
+  };
+
+  // Credit notes are folded in with a negative sign where the return nets them off
+  const addToSummaries = (document: Gstr1Document, sign: 1 | -1) => {
+    const pos = document.placeOfSupply || input.supplierState;
+    const interState = pos !== input.supplierState;
+    const registered = !!document.partyGstin;
+
+    const exempt = document.lines.filter((line) => line.gstRate === 0).reduce((sum, line) => sum + line.taxableValue, 0);
+    if (exempt > 0) {
+      const supplyType = `${interState ? "INTR" : "INTRA"}${registered ? "B2B" : "B2C"}` as Gstr1Return["nil"]["inv"][number]["sply_ty"];
+      const row = nil.get(supplyType) ?? { sply_ty: supplyType, nil_amt: 0, expt_amt: 0, ngsup_amt: 0 };
+      row.expt_amt = roundMoney(row.expt_amt + sign * exempt);
+      nil.set(supplyType, row);
+    }
+
+    for (const line of document.lines) {
+      const hsnCode = line.hsnCode || "";
+      const key = `${hsnCode}|${line.gstRate}|${getUqc(line.unit)}`;
+      const row = hsn.get(key) ?? {
+        hsn_sc: hsnCode,
+        desc: line.description.slice(0, 30),
+        uqc: getUqc(line.unit),
+        qty: 0,
+        rt: line.gstRate,
+        txval: 0,
+        iamt: 0,
+        camt: 0,
+        samt: 0,
+        csamt: 0,
+        value: 0,
+      };
+      row.qty = roundMoney(row.qty + sign * line.quantity);
+      row.txval = roundMoney(row.txval + sign * line.taxableValue);
+      row.iamt = roundMoney(row.iamt + sign * line.igstAmount);
+      row.camt = roundMoney(row.camt + sign * line.cgstAmount);
+      row.samt = roundMoney(row.samt + sign * line.sgstAmount);
+      row.value = roundMoney(row.value + sign * (line.taxableValue + line.igstAmount + line.cgstAmount + line.sgstAmount));
+      hsn.set(key, row);
+    }
+  };
+
+  const addToB2cs = (pos: string, interState: boolean, rates: RateTotals[], sign: 1 | -1) => {
+    for (const rate of rates) {
+      const key = `${pos}|${rate.gstRate}`;
+      const row = b2cs.get(key) ?? {
+        sply_ty: interState ? "INTER" as const : "INTRA" as const,
+        pos,
+        typ: "OE" as const,
+        rt: rate.gstRate,
+        txval: 0,
+        ...(interState ? { iamt: 0 } : { camt: 0, samt: 0 }),
+        csamt: 0,
+      };
+      row.txval = roundMoney(row.txval + sign * rate.taxableValue);
+      if (interState) {
+        row.iamt = roundMoney((row.iamt ?? 0) + sign * rate.igstAmount);
+      } else {
+        row.camt = roundMoney((row.camt ?? 0) + sign * rate.cgstAmount);
+        row.samt = roundMoney((row.samt ?? 0) + sign * rate.sgstAmount);
+      }
+      b2cs.set(key, row);
+    }
+  };
+
+  for (const invoice of input.invoices) {
+    addToSummaries(invoice, 1);
+    const rates = totalsByRate(invoice.lines);
+    if (rates.length === 0) continue;
+
+    const pos = invoice.placeOfSupply || input.supplierState;
+    const interState = pos !== input.supplierState;
+    const items = toItems(rates, interState);
+
+    if (invoice.partyGstin) {
+      const party = b2b.get(invoice.partyGstin) ?? { ctin: invoice.partyGstin, inv: [] };
+      party.inv.push({ inum: invoice.number, idt: toReturnDate(invoice.date), val: roundMoney(invoice.value), pos, rchrg: "N", inv_typ: "R", itms: items });
+      b2b.set(invoice.partyGstin, party);
+      for (const rate of rates) {
+        csv.b2b.push([invoice.partyGstin, invoice.partyName, invoice.number, toTemplateDate(invoice.date), invoice.value.toFixed(2), toTemplatePos(pos), "N", "", "Regular B2B", "", String(rate.gstRate), rate.taxableValue.toFixed(2), "0"]);
+      }
+    } else if (interState && invoice.value > B2CL_INVOICE_THRESHOLD) {
+      const state = b2cl.get(pos) ?? { pos, inv: [] };
+      state.inv.push({ inum: invoice.number, idt: toReturnDate(invoice.date), val: roundMoney(invoice.value), itms: items });
+      b2cl.set(pos, state);
+      for (const rate of rates) {
+        csv.b2cl.push([invoice.number, toTemplateDate(invoice.date), invoice.value.toFixed(2), toTemplatePos(pos), "", String(rate.gstRate), rate.taxableValue.toFixed(2), "0", ""]);
+      }
+    } else {
+      addToB2cs(pos, interState, rates, 1);
+    }
+  }
+
+  for (const note of input.creditNotes) {
+    addToSummaries(note, -1);
+    const rates = totalsByRate(note.lines);
+    if (rates.length === 0) continue;
+
+    const pos = note.placeOfSupply || input.supplierState;
+    const interState = pos !== input.supplierState;
+    const items = toItems(rates, interState);
+
+    if (note.partyGstin) {
+      const party = cdnr.get(note.partyGstin) ?? { ctin: note.partyGstin, nt: [] };
+      party.nt.push({ ntty: "C", nt_num: note.number, nt_dt: toReturnDate(note.date), val: roundMoney(note.value), pos, rchrg: "N", inv_typ: "R", itms: items });
+      cdnr.set(note.partyGstin, party);
+      for (const rate of rates) {
+        csv.cdnr.push([note.partyGstin, note.partyName, note.number, toTemplateDate(note.date), "C", toTemplatePos(pos), "N", "Regular B2B", note.value.toFixed(2), "", String(rate.gstRate), rate.taxableValue.toFixed(2), "0"]);
+      }
+    } else if (interState && note.value > B2CL_INVOICE_THRESHOLD) {
+      cdnur.push({ typ: "B2CL", ntty: "C", nt_num: note.number, nt_dt: toReturnDate(note.date), val: roundMoney(note.value), pos, itms: items });
+      for (const rate of rates) {
+        csv.cdnur.push(["B2CL", note.number, toTemplateDate(note.date), "C", toTemplatePos(pos), note.value.toFixed(2), "", String(rate.gstRate), rate.taxableValue.toFixed(2), "0"]);
+      }
+    } else {
+      // Small B2C returns are reported net of the sales they reverse
+      addToB2cs(pos, interState, rates, -1);
+    }
+  }
+
+  for (const row of Array.from(b2cs.values())) {
+    csv.b2cs.push(["OE", toTemplatePos(row.pos), "", String(row.rt), row.txval.toFixed(2), "0", ""]);
+  }
+
+  const nilDescriptions: Record<string, string> = {
+    INTRB2B: "Inter-State supplies to registered persons",
+    INTRAB2B: "Intra-State supplies to registered persons",
+    INTRB2C: "Inter-State supplies to unregistered persons",
+    INTRAB2C: "Intra-State supplies to unregistered persons",
+  };
+  for (const row of Array.from(nil.values())) {
+    csv.exemp.push([nilDescriptions[row.sply_ty], row.nil_amt.toFixed(2), row.expt_amt.toFixed(2), row.ngsup_amt.toFixed(2)]);
+  }
+
+  const hsnRows = Array.from(hsn.values()).sort((a, b) => a.hsn_sc.localeCompare(b.hsn_sc) || a.rt - b.rt);
+  for (const row of hsnRows) {
+    csv.hsn.push([row.hsn_sc, row.desc, row.uqc, row.qty.toFixed(2), row.value.toFixed(2), String(row.rt), row.txval.toFixed(2), row.iamt.toFixed(2), row.camt.toFixed(2), row.samt.toFixed(2), "0"]);
+  }
+
+  return {
+    json: {
+      gstin: input.gstin,
+      fp: `${month}${year}`,
+      b2b: Array.from(b2b.values()),
+      b2cl: Array.from(b2cl.values()),
+      b2cs: Array.from(b2cs.values()),
+      cdnr: Array.from(cdnr.values()),
+      cdnur,
+      nil: { inv: Array.from(nil.values()) },
+      hsn: { data: hsnRows.map(({ value, ...row }, index) => ({ num: index + 1, ...row })) },
+    },
+    csv,
+  };
+}
@@ -0,0 +1,64 @@
+// Chart of accounts for the double-entry ledger. Journal lines reference
+// accounts by code; party sub-ledgers (customers, vendors) hang off the
+// debtors and creditors control accounts.
+
+export type AccountType = "asset" | "liability" | "income" | "expense";
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+}
+
+export const ACCOUNTS = {
+  cash: { code: "1000", name: "Cash in Hand", type: "asset" },
+  bank: { code: "1010", name: "Bank", type: "asset" },
+  debtors: { code: "1200", name: "Sundry Debtors", type: "asset" },
+  farmerAdvances: { code: "1300", name: "Advances to Farmers", type: "asset" },
+  creditors: { code: "2000", name: "Sundry Creditors", type: "liability" },
+  hamaliPayable: { code: "2100", name: "Hamali Payable", type: "liability" },
+  outputCgst: { code: "2200", name: "Output CGST", type: "liability" },
+  outputSgst: { code: "2210", name: "Output SGST", type: "liability" },
+  outputIgst: { code: "2220", name: "Output IGST", type: "liability" },
+  sales: { code: "4000", name: "Sales", type: "income" },
+  salesReturns: { code: "4010", name: "Sales Returns", type: "income" },
+  commissionIncome: { code: "4100", name: "Commission & Charges", type: "income" },
+  interestIncome: { code: "4200", name: "Interest on Advances", type: "income" },
+  purchases: { code: "5000", name: "Purchases", type: "expense" },
+  expenses: { code: "6000", name: "Expenses", type: "expense" },
+} as const satisfies Record<string, LedgerAccount>;
+
+export const CHART_OF_ACCOUNTS: LedgerAccount[] = Object.values(ACCOUNTS);
+
+// What kind of voucher a journal entry records, as shown in the day book
+export type VoucherType = "sales" | "receipt" | "payment" | "purchase" | "debit_note" | "credit_note" | "patti" | "hamali" | "expense";
+
+// Business documents that post to the journal; each owns at most one entry.
+// Voids and amendments of an invoice post their own entries rather than rewriting the sale.
+export type JournalSourceType =
+  | "invoice"
+  | "invoice_void"
+  | "invoice_revision"
+  | "customer_payment"
+  | "purchase"
+  | "vendor_payment"
+  | "vendor_return"
+  | "sales_return"
+  | "patti"
+  | "farmer_advance"
+  | "hamali_cash"
+  | "expense";
+
+export function findAccount(code: string): LedgerAccount | undefined {
+  return CHART_OF_ACCOUNTS.find((account) => account.code === code);
+}
+
+// Cash payments hit the cash account; bank transfers, UPI and cheques go through the bank
+export function getSettlementAccount(paymentMethod: string): LedgerAccount {
+  return paymentMethod === "cash" ? ACCOUNTS.cash : ACCOUNTS.bank;
+}
+
+// Assets and expenses carry debit balances; liabilities and income carry credit balances
+export function isDebitNormal(type: AccountType): boolean {
+  return type === "asset" || type === "expense";
+}
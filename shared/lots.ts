@@ -0,0 +1,43 @@
+// Lot costing. Goods leave stock from their lots oldest first unless the
+// caller puts a lot ahead of the rest; whatever the lots cannot cover is stock
+// from before lot tracking and is costed at the product's purchase price.
+
+import { PRICING_TOLERANCE, roundMoney } from "./money";
+
+export type LotSource = "purchase" | "vehicle_load" | "sales_return" | "adjustment";
+
+export type LotConsumer = "invoice" | "vendor_return" | "adjustment";
+
+export interface OpenLot {
+  id: string;
+  unitCost: number;
+  remaining: number;
+}
+
+export interface LotDraw {
+  lotId: string | null; // null for stock older than lot tracking
+  quantity: number;
+  unitCost: number;
+}
+
+// Takes `quantity` from the lots in the order given
+export function planLotDraws(lots: OpenLot[], quantity: number, fallbackUnitCost: number): LotDraw[] {
+  const draws: LotDraw[] = [];
+  let outstanding = quantity;
+
+  for (const lot of lots) {
+    if (outstanding <= PRICING_TOLERANCE) break;
+    const take = Math.min(outstanding, lot.remaining);
+    if (take <= 0) continue;
+    draws.push({ lotId: lot.id, quantity: take, unitCost: lot.unitCost });
+    outstanding -= take;
+  }
+  if (outstanding > PRICING_TOLERANCE) {
+    draws.push({ lotId: null, quantity: outstanding, unitCost: fallbackUnitCost });
+  }
+  return draws;
+}
+
+export function costOfDraws(draws: Pick<LotDraw, "quantity" | "unitCost">[]): number {
+  return roundMoney(draws.reduce((sum, draw) => sum + draw.quantity * draw.unitCost, 0));
+}
@@ -0,0 +1,56 @@
+// Gross margin on goods sold: what the goods fetched less what they cost us.
+// Returned goods come in as negative lines against the original sale.
+
+import { roundMoney } from "./money";
+
+export interface SoldLine {
+  productId: string;
+  customerId: string;
+  vendorId: string | null;
+  vehicleId: string | null;
+  quantity: number;
+  sales: number; // taxable value
+  cost: number;
+}
+
+export interface MarginRow {
+  key: string | null;
+  quantity: number;
+  sales: number;
+  cost: number;
+  grossMargin: number;
+  marginPercent: number; // of sales
+}
+
+// Average cost per unit over everything received, for sales made before lot costing
+export function weightedAverageCost(receipts: { quantity: number; amount: number }[]): number | undefined {
+  const quantity = receipts.reduce((sum, r) => sum + r.quantity, 0);
+  if (quantity <= 0) return undefined;
+  return receipts.reduce((sum, r) => sum + r.amount, 0) / quantity;
+}
+
+// Totals the lines by the given key, best margin first
+export function groupMargins(lines: SoldLine[], keyOf: (line: SoldLine) => string | null): MarginRow[] {
+  const groups = new Map<string | null, { quantity: number; sales: number; cost: number }>();
+  for (const line of lines) {
+    const key = keyOf(line);
+    const group = groups.get(key) ?? { quantity: 0, sales: 0, cost: 0 };
+    group.quantity += line.quantity;
+    group.sales += line.sales;
+    group.cost += line.cost;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups, ([key, group]) => {
+    const sales = roundMoney(group.sales);
+    const grossMargin = roundMoney(group.sales - group.cost);
+    return {
+      key,
+      quantity: group.quantity,
+      sales,
+      cost: roundMoney(group.cost),
+      grossMargin,
+      marginPercent: sales !== 0 ? roundMoney((grossMargin / sales) * 100) : 0,
+    };
+  }).sort((a, b) => b.grossMargin - a.grossMargin);
+}
@@ -0,0 +1,9 @@
+// Rupee amounts: rounding to paise and the tolerance used when comparing figures.
+// Kept free of imports so every shared module can build on it.
+
+// Largest rounding difference tolerated between submitted and computed figures
+export const PRICING_TOLERANCE = 0.01;
+
+export const roundMoney = (amount: number): number => {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
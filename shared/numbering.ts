@@ -0,0 +1,34 @@
+// Document numbering for GST books: numbers run sequentially within a series
+// and restart every financial year (April to March).
+
+export type DocumentSeries = "invoice" | "credit_note" | "debit_note" | "patti";
+
+// Up to three characters, so a number such as INV/2025-26/0001 stays within the
+// 16 characters GST allows for an invoice number
+export const INVOICE_PREFIX_PATTERN = /^[A-Za-z0-9-]{1,3}$/;
+
+export const DEFAULT_DOCUMENT_PREFIXES: Record<DocumentSeries, string> = {
+  invoice: "INV",
+  credit_note: "CN",
+  debit_note: "DN",
+  patti: "PT",
+};
+
+// Financial year label for a YYYY-MM-DD date, e.g. 2025-05-10 -> "2025-26"
+export function getFinancialYear(date: string): string {
+  const [year, month] = date.split("-").map(Number);
+  if (!year || !month) {
+    throw new Error(`Invalid document date: ${date}`);
+  }
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+// First day of the financial year containing a YYYY-MM-DD date, e.g. 2025-05-10 -> "2025-04-01"
+export function getFinancialYearStart(date: string): string {
+  return `${getFinancialYear(date).split("-")[0]}-04-01`;
+}
+
+export function formatDocumentNumber(prefix: string, financialYear: string, sequence: number): string {
+  return `${prefix}/${financialYear}/${String(sequence).padStart(4, "0")}`;
+}
@@ -0,0 +1,38 @@
+// Patti (sale bill) for farmers whose produce we sell on commission. The
+// farmer is paid what their goods fetched, less our commission and the
+// charges we bore on their behalf.
+
+import { roundMoney } from "./money";
+
+export interface PattiDeductions {
+  commissionPercent: number;
+  hamaliAmount: number;
+  unloadingAmount: number;
+  transportAmount: number;
+  advanceAmount: number;
+}
+
+export interface PattiTotals extends PattiDeductions {
+  grossSales: number;
+  commissionAmount: number;
+  totalDeductions: number;
+  netPayable: number;
+}
+
+export function calculatePatti(grossSales: number, deductions: PattiDeductions): PattiTotals {
+  const commissionAmount = roundMoney((grossSales * deductions.commissionPercent) / 100);
+  const totalDeductions = roundMoney(
+    commissionAmount
+      + deductions.hamaliAmount
+      + deductions.unloadingAmount
+      + deductions.transportAmount
+      + deductions.advanceAmount
+  );
+  return {
+    ...deductions,
+    grossSales: roundMoney(grossSales),
+    commissionAmount,
+    totalDeductions,
+    netPayable: roundMoney(grossSales - totalDeductions),
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateHamaliCharge,
+  calculateInvoiceTotals,
+  calculateTotalKgWeight,
+  findPricingMismatches,
+  isWeightBasedUnit,
+  type PricingLine,
+} from "./pricing";
+
+const onions: PricingLine = { productId: "onion", quantity: 100, unitPrice: 25.5, unit: "KG" };
+const crates: PricingLine = { productId: "crate", quantity: 4, unitPrice: 120, unit: "Box", gstRate: 12, hsnCode: "3923" };
+
+describe("weight", () => {
+  it("counts only weight-based units, whatever their case", () => {
+    assert.equal(isWeightBasedUnit("kg"), true);
+    assert.equal(isWeightBasedUnit("Box"), false);
+    assert.equal(calculateTotalKgWeight([onions, crates, { quantity: 2.5, unit: "Kg" }]), 102.5);
+  });
+});
+
+describe("calculateHamaliCharge", () => {
+  it("charges nothing unless Hamali is included", () => {
+    assert.equal(calculateHamaliCharge({ includeHamaliCharge: false, hamaliRatePerKg: 3 }, 100), 0);
+  });
+
+  it("falls back to the default per-KG rate and adds per-bag Hamali", () => {
+    assert.equal(calculateHamaliCharge({ includeHamaliCharge: true }, 100), 200);
+    assert.equal(calculateHamaliCharge({ includeHamaliCharge: true, hamaliRatePerKg: 0, bags: 10, hamaliRatePerBag: 7.5 }, 100), 75);
+  });
+});
+
+describe("calculateInvoiceTotals", () => {
+  it("taxes the goods but not the Hamali", () => {
+    const totals = calculateInvoiceTotals([onions, crates], { includeHamaliCharge: true, hamaliRatePerKg: 1 });
+    assert.equal(totals.subtotal, 3030);
+    assert.equal(totals.cgstAmount, 28.8);
+    assert.equal(totals.sgstAmount, 28.8);
+    assert.equal(totals.igstAmount, 0);
+    assert.equal(totals.hamaliChargeAmount, 100);
+    assert.equal(totals.grandTotal, 3187.6);
+  });
+
+  it("charges IGST for the same total tax on inter-state supplies", () => {
+    const totals = calculateInvoiceTotals([crates], { includeHamaliCharge: false }, true);
+    assert.deepEqual(
+      [totals.cgstAmount, totals.sgstAmount, totals.igstAmount, totals.grandTotal],
+      [0, 0, 57.6, 537.6],
+    );
+  });
+
+  it("leaves Hamali paid by cash off the bill", () => {
+    const totals = calculateInvoiceTotals([onions], { includeHamaliCharge: true, hamaliPaidByCash: true });
+    assert.equal(totals.hamaliChargeAmount, 200);
+    assert.equal(totals.grandTotal, 2550);
+  });
+
+  it("rounds line totals to the paisa", () => {
+    const totals = calculateInvoiceTotals([{ productId: "chilli", quantity: 3.333, unitPrice: 41.27, unit: "KG" }], { includeHamaliCharge: false });
+    assert.equal(totals.items[0].total, 137.55);
+  });
+});
+
+describe("findPricingMismatches", () => {
+  const computed = calculateInvoiceTotals([onions], { includeHamaliCharge: true, hamaliRatePerKg: 1 });
+
+  it("accepts figures within the rounding tolerance", () => {
+    assert.deepEqual(
+      findPricingMismatches({ subtotal: 2550.005, hamaliChargeAmount: 100, grandTotal: 2650, items: [{ total: 2550 }] }, computed),
+      [],
+    );
+  });
+
+  it("lists every figure that differs", () => {
+    const mismatches = findPricingMismatches({ subtotal: 2500, hamaliChargeAmount: 0, grandTotal: 2500, items: [{ total: 2500 }] }, computed);
+    assert.equal(mismatches.length, 4);
+    assert.match(mismatches[0], /^Line 1 total 2500 does not match 2550$/);
+  });
+});
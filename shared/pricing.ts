@@ -0,0 +1,143 @@
+// Invoice pricing shared by the client pages and the server.
+// The server recomputes every figure with these helpers, so the client copies
+// are only for display and must never be trusted on their own.
+
+import { calculateLineTax } from "./gst";
+import { PRICING_TOLERANCE, roundMoney } from "./money";
+
+// Unit classification - only weight-based items count towards per-KG Hamali
+export const WEIGHT_UNITS = ["KG", "Kg", "kg"];
+
+export const isWeightBasedUnit = (unit: string): boolean => {
+  return WEIGHT_UNITS.some(u => u.toLowerCase() === unit.toLowerCase());
+};
+
+// Rate applied when an invoice includes Hamali without naming a per-KG rate
+export const DEFAULT_HAMALI_RATE_PER_KG = 2;
+
+export interface PricingLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  unit: string;
+  hsnCode?: string | null;
+  gstRate?: number | null; // percent; missing means exempt
+}
+
+export interface HamaliTerms {
+  includeHamaliCharge: boolean;
+  hamaliRatePerKg?: number | null;
+  hamaliRatePerBag?: number | null;
+  bags?: number | null;
+  hamaliPaidByCash?: boolean | null;
+}
+
+export interface PricedLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  total: number; // taxable value
+  hsnCode: string | null;
+  gstRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export interface InvoiceTotals {
+  items: PricedLine[];
+  totalKgWeight: number;
+  subtotal: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  hamaliChargeAmount: number;
+  grandTotal: number;
+}
+
+export function calculateLineTotal(quantity: number, unitPrice: number): number {
+  return roundMoney(quantity * unitPrice);
+}
+
+export function calculateTotalKgWeight(lines: Pick<PricingLine, "quantity" | "unit">[]): number {
+  return lines
+    .filter(line => isWeightBasedUnit(line.unit))
+    .reduce((sum, line) => sum + line.quantity, 0);
+}
+
+// Hamali is charged per KG of weight-based goods (weighing station) and/or
+// per bag (vehicle sales); an invoice may use either rate or both.
+export function calculateHamaliCharge(terms: HamaliTerms, totalKgWeight: number): number {
+  if (!terms.includeHamaliCharge) return 0;
+  const perKg = totalKgWeight * (terms.hamaliRatePerKg ?? DEFAULT_HAMALI_RATE_PER_KG);
+  const perBag = (terms.bags || 0) * (terms.hamaliRatePerBag || 0);
+  return roundMoney(perKg + perBag);
+}
+
+// GST is charged on the goods only; Hamali is passed through untaxed. The
+// tax total is the same for local and inter-state supplies, only its split differs.
+export function calculateInvoiceTotals(lines: PricingLine[], terms: HamaliTerms, interState = false): InvoiceTotals {
+  const items = lines.map(line => {
+    const total = calculateLineTotal(line.quantity, line.unitPrice);
+    const gstRate = line.gstRate ?? 0;
+    return {
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      total,
+      hsnCode: line.hsnCode ?? null,
+      gstRate,
+      ...calculateLineTax(total, gstRate, interState),
+    };
+  });
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.total, 0));
+  const cgstAmount = roundMoney(items.reduce((sum, item) => sum + item.cgstAmount, 0));
+  const sgstAmount = roundMoney(items.reduce((sum, item) => sum + item.sgstAmount, 0));
+  const igstAmount = roundMoney(items.reduce((sum, item) => sum + item.igstAmount, 0));
+  const totalKgWeight = calculateTotalKgWeight(lines);
+  const hamaliChargeAmount = calculateHamaliCharge(terms, totalKgWeight);
+
+  // Hamali paid by cash is recorded separately and not added to the bill
+  const billedHamali = terms.hamaliPaidByCash ? 0 : hamaliChargeAmount;
+
+  return {
+    items,
+    totalKgWeight,
+    subtotal,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    hamaliChargeAmount,
+    grandTotal: roundMoney(subtotal + cgstAmount + sgstAmount + igstAmount + billedHamali),
+  };
+}
+
+export interface SubmittedInvoiceFigures {
+  subtotal: number;
+  hamaliChargeAmount?: number;
+  grandTotal: number;
+  items: { total: number }[];
+}
+
+// Lists every submitted figure that differs from the computed one
+export function findPricingMismatches(submitted: SubmittedInvoiceFigures, computed: InvoiceTotals): string[] {
+  const mismatches: string[] = [];
+  const differs = (a: number, b: number) => Math.abs(a - b) > PRICING_TOLERANCE;
+
+  submitted.items.forEach((item, index) => {
+    const expected = computed.items[index]?.total ?? 0;
+    if (differs(item.total, expected)) {
+      mismatches.push(`Line ${index + 1} total ${item.total} does not match ${expected}`);
+    }
+  });
+  if (differs(submitted.subtotal, computed.subtotal)) {
+    mismatches.push(`Subtotal ${submitted.subtotal} does not match ${computed.subtotal}`);
+  }
+  if (submitted.hamaliChargeAmount !== undefined && differs(submitted.hamaliChargeAmount, computed.hamaliChargeAmount)) {
+    mismatches.push(`Hamali charge ${submitted.hamaliChargeAmount} does not match ${computed.hamaliChargeAmount}`);
+  }
+  if (differs(submitted.grandTotal, computed.grandTotal)) {
+    mismatches.push(`Grand total ${submitted.grandTotal} does not match ${computed.grandTotal}`);
+  }
+  return mismatches;
+}
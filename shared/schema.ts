@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,6 +21,9 @@ export const vendors = pgTable("vendors", {
   phone: text("phone").notNull(),
   address: text("address"),
   email: text("email"),
+  paymentTermsDays: integer("payment_terms_days").notNull().default(0), // default credit period for new purchases
+  commissionMode: boolean("commission_mode").notNull().default(false), // farmer whose goods we sell on commission
+  commissionPercent: real("commission_percent").notNull().default(0), // default commission charged on their pattis
 });
 
 export const insertVendorSchema = createInsertSchema(vendors).omit({ id: true });
@@ -34,6 +37,8 @@ export const customers = pgTable("customers", {
   phone: text("phone").notNull(),
   address: text("address"),
   email: text("email"),
+  gstin: text("gstin"), // registered buyers only; unregistered sales are B2C
+  state: text("state"), // GST state code, e.g. '29'
 });
 
 export const insertCustomerSchema = createInsertSchema(customers).omit({ id: true });
@@ -50,6 +55,7 @@ export const vehicles = pgTable("vehicles", {
   driverPhone: text("driver_phone"),
   entryDate: text("entry_date"),
   vendorId: varchar("vendor_id"),
+  commissionMode: boolean("commission_mode").notNull().default(false), // load belongs to the vendor and is settled by patti
 });
 
 export const insertVehicleSchema = createInsertSchema(vehicles).omit({ id: true });
@@ -64,7 +70,10 @@ export const products = pgTable("products", {
   purchasePrice: real("purchase_price").notNull(),
   salePrice: real("sale_price").notNull(),
   currentStock: real("current_stock").notNull().default(0),
+  damagedStock: real("damaged_stock").notNull().default(0), // returned goods not fit for resale
   reorderLevel: real("reorder_level").default(10),
+  hsnCode: text("hsn_code"),
+  gstRate: real("gst_rate").notNull().default(0), // percent; 0 for exempt vegetables
 });
 
 export const insertProductSchema = createInsertSchema(products).omit({ id: true });
@@ -78,10 +87,16 @@ export const purchases = pgTable("purchases", {
   vehicleId: varchar("vehicle_id"),
   date: text("date").notNull(),
   totalAmount: real("total_amount").notNull(),
+  paymentTermsDays: integer("payment_terms_days").notNull().default(0),
+  // Purchase date plus payment terms. Nullable only so the column can be added to
+  // databases that already hold purchases; `npm run db:backfill` fills it in
+  dueDate: text("due_date"),
+  // Legacy and no longer read: status is derived from allocations. Kept until
+  // `npm run db:backfill` has turned old purchase links into allocations
   status: text("status").notNull().default("pending"),
 });
 
-export const insertPurchaseSchema = createInsertSchema(purchases).omit({ id: true });
+export const insertPurchaseSchema = createInsertSchema(purchases).omit({ id: true, status: true });
 export type InsertPurchase = z.infer<typeof insertPurchaseSchema>;
 export type Purchase = typeof purchases.$inferSelect;
 
@@ -102,7 +117,7 @@ export type PurchaseItem = typeof purchaseItems.$inferSelect;
 // Invoices - selling to customers
 export const invoices = pgTable("invoices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  invoiceNumber: text("invoice_number").notNull(),
+  invoiceNumber: text("invoice_number").notNull().unique(), // allocated by the server per financial year
   customerId: varchar("customer_id").notNull(),
   vehicleId: varchar("vehicle_id"),
   vendorId: varchar("vendor_id"),
@@ -115,14 +130,47 @@ export const invoices = pgTable("invoices", {
   totalKgWeight: real("total_kg_weight").default(0),
   bags: integer("bags").default(0),
   hamaliRatePerBag: real("hamali_rate_per_bag").default(0),
+  placeOfSupply: text("place_of_supply"), // customer's GST state code at the time of sale
+  cgstAmount: real("cgst_amount").notNull().default(0),
+  sgstAmount: real("sgst_amount").notNull().default(0),
+  igstAmount: real("igst_amount").notNull().default(0),
   grandTotal: real("grand_total").notNull(),
-  status: text("status").notNull().default("pending"),
+  ewayBillNumber: text("eway_bill_number"), // EWB number returned by the portal for the uploaded JSON
+  ewayBillDate: text("eway_bill_date"),
+  status: text("status").notNull().default("pending"), // 'completed' or 'void'
+  voidReason: text("void_reason"),
+  voidedAt: timestamp("voided_at"),
 });
 
-export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true });
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  ewayBillNumber: true,
+  ewayBillDate: true,
+  voidReason: true,
+  voidedAt: true,
+});
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 
+// Invoice Revisions - one row per amendment with the before/after value of every changed field
+export interface InvoiceRevisionChange {
+  field: string;
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+export const invoiceRevisions = pgTable("invoice_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull(),
+  revision: integer("revision").notNull(), // 1 for the first amendment, counting up per invoice
+  changedBy: text("changed_by").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+  changes: jsonb("changes").$type<InvoiceRevisionChange[]>().notNull(),
+  lockOverride: boolean("lock_override").notNull().default(false), // amended a locked invoice with the owner override
+});
+
+export type InvoiceRevision = typeof invoiceRevisions.$inferSelect;
+
 // Invoice Items
 export const invoiceItems = pgTable("invoice_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -130,10 +178,18 @@ export const invoiceItems = pgTable("invoice_items", {
   productId: varchar("product_id").notNull(),
   quantity: real("quantity").notNull(),
   unitPrice: real("unit_price").notNull(),
-  total: real("total").notNull(),
+  total: real("total").notNull(), // taxable value
+  // Tax details are copied from the product so later product edits leave issued invoices alone
+  hsnCode: text("hsn_code"),
+  gstRate: real("gst_rate").notNull().default(0),
+  cgstAmount: real("cgst_amount").notNull().default(0),
+  sgstAmount: real("sgst_amount").notNull().default(0),
+  igstAmount: real("igst_amount").notNull().default(0),
+  lotId: varchar("lot_id"), // lot picked at the counter; otherwise stock is drawn oldest lot first
+  costAmount: real("cost_amount").notNull().default(0), // cost of the lots the line drew from
 });
 
-export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({ id: true });
+export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({ id: true, costAmount: true });
 export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
 export type InvoiceItem = typeof invoiceItems.$inferSelect;
 
@@ -152,26 +208,100 @@ export const insertStockMovementSchema = createInsertSchema(stockMovements).omit
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 export type StockMovement = typeof stockMovements.$inferSelect;
 
+// Stock Lots - each vehicle load or purchase line arrives as its own lot with its own cost,
+// so a sale can be costed at what those goods actually cost us
+export const stockLots = pgTable("stock_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  vehicleId: varchar("vehicle_id"), // lots on a vehicle are only sold from that vehicle
+  vendorId: varchar("vendor_id"),
+  purchaseId: varchar("purchase_id"),
+  source: text("source").notNull(), // 'purchase', 'vehicle_load', 'sales_return' or 'adjustment'
+  date: text("date").notNull(),
+  unitCost: real("unit_cost").notNull(),
+  quantity: real("quantity").notNull(), // as received
+  remaining: real("remaining").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type StockLot = typeof stockLots.$inferSelect;
+
+// Lot Consumptions - the quantity each sale, vendor return or stock adjustment drew from each lot.
+// Stock older than lot tracking has no lot and is drawn at the product's purchase price.
+export const lotConsumptions = pgTable("lot_consumptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  lotId: varchar("lot_id"),
+  productId: varchar("product_id").notNull(),
+  sourceType: text("source_type").notNull(), // 'invoice', 'vendor_return' or 'adjustment'
+  sourceId: varchar("source_id").notNull(),
+  quantity: real("quantity").notNull(),
+  unitCost: real("unit_cost").notNull(),
+});
+
+export type LotConsumption = typeof lotConsumptions.$inferSelect;
+
 // Vendor Payments - track payments to vendors
 export const vendorPayments = pgTable("vendor_payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   vendorId: varchar("vendor_id").notNull(),
-  purchaseId: varchar("purchase_id"),
-  amount: real("amount").notNull(),
+  purchaseId: varchar("purchase_id"), // legacy single-purchase link; allocations are authoritative
+  amount: real("amount").notNull(), // settled against the vendor's dues, including any advance recovered
   date: text("date").notNull(),
   paymentMethod: text("payment_method").notNull(),
   notes: text("notes"),
+  advanceRecovered: real("advance_recovered").notNull().default(0), // part of the amount set off against advances instead of paid out
+  advanceInterest: real("advance_interest").notNull().default(0), // part of the recovery that was interest
 });
 
-export const insertVendorPaymentSchema = createInsertSchema(vendorPayments).omit({ id: true });
+export const insertVendorPaymentSchema = createInsertSchema(vendorPayments).omit({ id: true, advanceInterest: true });
 export type InsertVendorPayment = z.infer<typeof insertVendorPaymentSchema>;
 export type VendorPayment = typeof vendorPayments.$inferSelect;
 
+// Purchase Allocations - the part of a vendor payment or vendor return credit applied to each purchase.
+// Whatever is not allocated stays on account against the vendor.
+export const purchaseAllocations = pgTable("purchase_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseId: varchar("purchase_id").notNull(),
+  sourceType: text("source_type").notNull(), // 'payment' or 'return'
+  sourceId: varchar("source_id").notNull(), // vendor payment or vendor return id
+  amount: real("amount").notNull(),
+});
+
+export type PurchaseAllocation = typeof purchaseAllocations.$inferSelect;
+
+// Farmer Advances - cash given to a vendor ahead of their produce, recovered from later settlements
+export const farmerAdvances = pgTable("farmer_advances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vendorId: varchar("vendor_id").notNull(),
+  date: text("date").notNull(),
+  amount: real("amount").notNull(),
+  paymentMethod: text("payment_method").notNull(),
+  interestRate: real("interest_rate").notNull().default(0), // simple interest, percent per annum
+  notes: text("notes"),
+});
+
+export const insertFarmerAdvanceSchema = createInsertSchema(farmerAdvances).omit({ id: true });
+export type InsertFarmerAdvance = z.infer<typeof insertFarmerAdvanceSchema>;
+export type FarmerAdvance = typeof farmerAdvances.$inferSelect;
+
+// Advance Recoveries - the part of a vendor payment or patti set off against each advance
+export const advanceRecoveries = pgTable("advance_recoveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  advanceId: varchar("advance_id").notNull(),
+  sourceType: text("source_type").notNull(), // 'payment' or 'patti'
+  sourceId: varchar("source_id").notNull(), // vendor payment or patti id
+  date: text("date").notNull(),
+  principal: real("principal").notNull(),
+  interest: real("interest").notNull().default(0),
+});
+
+export type AdvanceRecovery = typeof advanceRecoveries.$inferSelect;
+
 // Customer Payments - track payments from customers
 export const customerPayments = pgTable("customer_payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   customerId: varchar("customer_id").notNull(),
-  invoiceId: varchar("invoice_id"),
+  invoiceId: varchar("invoice_id"), // legacy single-invoice link; allocations are authoritative
   amount: real("amount").notNull(),
   date: text("date").notNull(),
   paymentMethod: text("payment_method").notNull(),
@@ -182,6 +312,19 @@ export const insertCustomerPaymentSchema = createInsertSchema(customerPayments).
 export type InsertCustomerPayment = z.infer<typeof insertCustomerPaymentSchema>;
 export type CustomerPayment = typeof customerPayments.$inferSelect;
 
+// Customer Payment Allocations - the part of a payment applied to each invoice.
+// Any amount of a payment not allocated stays on account as customer credit.
+export const customerPaymentAllocations = pgTable("customer_payment_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull(),
+  invoiceId: varchar("invoice_id").notNull(),
+  amount: real("amount").notNull(),
+});
+
+export const insertCustomerPaymentAllocationSchema = createInsertSchema(customerPaymentAllocations).omit({ id: true });
+export type InsertCustomerPaymentAllocation = z.infer<typeof insertCustomerPaymentAllocationSchema>;
+export type CustomerPaymentAllocation = typeof customerPaymentAllocations.$inferSelect;
+
 // Vehicle Inventory - track products in each vehicle
 export const vehicleInventory = pgTable("vehicle_inventory", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -199,7 +342,7 @@ export const vehicleInventoryMovements = pgTable("vehicle_inventory_movements",
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   vehicleId: varchar("vehicle_id").notNull(),
   productId: varchar("product_id").notNull(),
-  type: text("type").notNull(), // 'load' or 'sale' or 'adjustment'
+  type: text("type").notNull(), // 'load' or 'sale' or 'adjustment' or 'reversal'
   quantity: real("quantity").notNull(),
   referenceId: varchar("reference_id"), // purchase_id or invoice_id
   referenceType: text("reference_type"), // 'purchase' or 'invoice'
@@ -219,16 +362,37 @@ export const companySettings = pgTable("company_settings", {
   phone: text("phone"),
   email: text("email"),
   gstNumber: text("gst_number"),
+  state: text("state"), // GST state code; taken from the GSTIN when blank
   bankDetails: text("bank_details"),
+  invoicePrefix: text("invoice_prefix").notNull().default("INV"),
+  invoiceLockDate: text("invoice_lock_date"), // invoices dated on or before this are locked
+  ownerOverrideHash: text("owner_override_hash"), // scrypt hash of the owner override code
 });
 
 export const insertCompanySettingsSchema = createInsertSchema(companySettings).omit({ id: true });
 export type InsertCompanySettings = z.infer<typeof insertCompanySettingsSchema>;
 export type CompanySettings = typeof companySettings.$inferSelect;
+// Settings as served to the client: the override hash never leaves the server
+export type PublicCompanySettings = Omit<CompanySettings, "ownerOverrideHash"> & { hasOwnerOverride: boolean };
+
+// Document Sequences - last number issued per document series and financial year
+export const documentSequences = pgTable(
+  "document_sequences",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    series: text("series").notNull(), // 'invoice', 'credit_note', 'debit_note' or 'patti'
+    financialYear: text("financial_year").notNull(), // April-March, e.g. '2025-26'
+    lastNumber: integer("last_number").notNull().default(0),
+  },
+  (table) => [uniqueIndex("UQ_document_sequence").on(table.series, table.financialYear)],
+);
+
+export type DocumentSequence = typeof documentSequences.$inferSelect;
 
 // Vendor Returns - returning defective products to vendors
 export const vendorReturns = pgTable("vendor_returns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  debitNoteNumber: text("debit_note_number").unique(), // allocated by the server per financial year; blank on returns recorded before numbering
   vendorId: varchar("vendor_id").notNull(),
   purchaseId: varchar("purchase_id"),
   vehicleId: varchar("vehicle_id"),
@@ -238,7 +402,7 @@ export const vendorReturns = pgTable("vendor_returns", {
   notes: text("notes"),
 });
 
-export const insertVendorReturnSchema = createInsertSchema(vendorReturns).omit({ id: true });
+export const insertVendorReturnSchema = createInsertSchema(vendorReturns).omit({ id: true, debitNoteNumber: true });
 export type InsertVendorReturn = z.infer<typeof insertVendorReturnSchema>;
 export type VendorReturn = typeof vendorReturns.$inferSelect;
 
@@ -257,6 +421,79 @@ export const insertVendorReturnItemSchema = createInsertSchema(vendorReturnItems
 export type InsertVendorReturnItem = z.infer<typeof insertVendorReturnItemSchema>;
 export type VendorReturnItem = typeof vendorReturnItems.$inferSelect;
 
+// Sales Returns - goods sent back by customers against an invoice, issued as a credit note
+export const salesReturns = pgTable("sales_returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteNumber: text("credit_note_number").notNull().unique(), // allocated by the server per financial year
+  invoiceId: varchar("invoice_id").notNull(),
+  customerId: varchar("customer_id").notNull(),
+  date: text("date").notNull(),
+  subtotal: real("subtotal").notNull(),
+  cgstAmount: real("cgst_amount").notNull().default(0),
+  sgstAmount: real("sgst_amount").notNull().default(0),
+  igstAmount: real("igst_amount").notNull().default(0),
+  totalAmount: real("total_amount").notNull(),
+  notes: text("notes"),
+});
+
+export const insertSalesReturnSchema = createInsertSchema(salesReturns).omit({ id: true, creditNoteNumber: true });
+export type InsertSalesReturn = z.infer<typeof insertSalesReturnSchema>;
+export type SalesReturn = typeof salesReturns.$inferSelect;
+
+// Sales Return Items - quantities returned per invoice line, priced as on the invoice
+export const salesReturnItems = pgTable("sales_return_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  returnId: varchar("return_id").notNull(),
+  invoiceItemId: varchar("invoice_item_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  quantity: real("quantity").notNull(),
+  unitPrice: real("unit_price").notNull(),
+  total: real("total").notNull(), // taxable value
+  hsnCode: text("hsn_code"),
+  gstRate: real("gst_rate").notNull().default(0),
+  cgstAmount: real("cgst_amount").notNull().default(0),
+  sgstAmount: real("sgst_amount").notNull().default(0),
+  igstAmount: real("igst_amount").notNull().default(0),
+  condition: text("condition").notNull().default("restock"), // 'restock' back to saleable stock or 'damaged'
+  reason: text("reason").notNull(),
+});
+
+export const insertSalesReturnItemSchema = createInsertSchema(salesReturnItems).omit({ id: true });
+export type InsertSalesReturnItem = z.infer<typeof insertSalesReturnItemSchema>;
+export type SalesReturnItem = typeof salesReturnItems.$inferSelect;
+
+// Pattis - sale bills settling a commission vehicle with the farmer whose goods it carried
+export const pattis = pgTable("pattis", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pattiNumber: text("patti_number").notNull().unique(), // allocated by the server per financial year
+  vendorId: varchar("vendor_id").notNull(),
+  vehicleId: varchar("vehicle_id").notNull().unique(), // one settlement per load
+  date: text("date").notNull(),
+  grossSales: real("gross_sales").notNull(), // taxable value of the farmer's goods sold from the vehicle
+  commissionPercent: real("commission_percent").notNull(),
+  commissionAmount: real("commission_amount").notNull(),
+  hamaliAmount: real("hamali_amount").notNull().default(0),
+  unloadingAmount: real("unloading_amount").notNull().default(0),
+  transportAmount: real("transport_amount").notNull().default(0),
+  advanceAmount: real("advance_amount").notNull().default(0), // advances recovered, interest included
+  advanceInterest: real("advance_interest").notNull().default(0),
+  netPayable: real("net_payable").notNull(),
+  notes: text("notes"),
+});
+
+export type Patti = typeof pattis.$inferSelect;
+
+// Patti Items - what each product fetched, summed over the vehicle's invoices
+export const pattiItems = pgTable("patti_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pattiId: varchar("patti_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  quantity: real("quantity").notNull(),
+  amount: real("amount").notNull(),
+});
+
+export type PattiItem = typeof pattiItems.$inferSelect;
+
 // Hamali Cash Payments - direct cash given to Hamali (not through invoices)
 export const hamaliCashPayments = pgTable("halal_cash_payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -274,6 +511,98 @@ export const insertHamaliCashPaymentSchema = createInsertSchema(hamaliCashPaymen
 export type InsertHamaliCashPayment = z.infer<typeof insertHamaliCashPaymentSchema>;
 export type HamaliCashPayment = typeof hamaliCashPayments.$inferSelect;
 
+// Expenses - running costs such as rent, labour and fuel, charged against profit
+export const expenses = pgTable("expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull(),
+  category: text("category").notNull(), // see EXPENSE_CATEGORIES
+  description: text("description").notNull(),
+  amount: real("amount").notNull(),
+  paymentMethod: text("payment_method").notNull().default("cash"),
+  paidTo: text("paid_to"),
+});
+
+export const insertExpenseSchema = createInsertSchema(expenses, {
+  amount: (schema) => schema.positive(),
+}).omit({ id: true });
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+export type Expense = typeof expenses.$inferSelect;
+
+// Expense Attachments - bills and receipts, stored base64-encoded alongside the expense
+export const expenseAttachments = pgTable("expense_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  expenseId: varchar("expense_id").notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // bytes after decoding
+  data: text("data").notNull(),
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+});
+
+export type ExpenseAttachment = typeof expenseAttachments.$inferSelect;
+export type ExpenseAttachmentInfo = Omit<ExpenseAttachment, "data">;
+
+// Journal Entries - double-entry postings derived from business documents.
+// Each source document owns one entry, rewritten whenever the document changes.
+export const journalEntries = pgTable(
+  "journal_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    date: text("date").notNull(),
+    voucherType: text("voucher_type").notNull(), // 'sales', 'receipt', 'payment', 'purchase', 'debit_note', 'hamali', 'expense'
+    sourceType: text("source_type").notNull(), // 'invoice', 'invoice_void', 'invoice_revision', 'customer_payment', 'purchase', 'vendor_payment', 'vendor_return', 'hamali_cash', 'expense'
+    sourceId: varchar("source_id").notNull(),
+    reference: text("reference"),
+    narration: text("narration").notNull(),
+    postedAt: timestamp("posted_at").notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_journal_source").on(table.sourceType, table.sourceId),
+    index("IDX_journal_date").on(table.date),
+  ],
+);
+
+export type JournalEntry = typeof journalEntries.$inferSelect;
+
+// Journal Lines - one debit or credit against an account from the chart of accounts
+export const journalLines = pgTable(
+  "journal_lines",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    entryId: varchar("entry_id").notNull(),
+    accountCode: text("account_code").notNull(),
+    partyType: text("party_type"), // 'customer' or 'vendor' for debtor/creditor lines
+    partyId: varchar("party_id"),
+    debit: real("debit").notNull().default(0),
+    credit: real("credit").notNull().default(0),
+  },
+  (table) => [
+    index("IDX_journal_line_entry").on(table.entryId),
+    index("IDX_journal_line_account").on(table.accountCode),
+  ],
+);
+
+export const insertJournalLineSchema = createInsertSchema(journalLines).omit({ id: true, entryId: true });
+export type InsertJournalLine = z.infer<typeof insertJournalLineSchema>;
+export type JournalLine = typeof journalLines.$inferSelect;
+
+// Cash Closings - end-of-day physical cash count against the cash book
+export const cashClosings = pgTable("cash_closings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull().unique(),
+  denominations: jsonb("denominations").$type<Record<string, number>>().notNull(), // note/coin value -> count
+  countedCash: real("counted_cash").notNull(),
+  expectedCash: real("expected_cash").notNull(), // cash account balance at close of day
+  variance: real("variance").notNull(), // counted minus expected; negative is a shortage
+  closedBy: text("closed_by").notNull(),
+  notes: text("notes"),
+  closedAt: timestamp("closed_at").notNull().defaultNow(),
+});
+
+export const insertCashClosingSchema = createInsertSchema(cashClosings).omit({ id: true, closedAt: true });
+export type InsertCashClosing = z.infer<typeof insertCashClosingSchema>;
+export type CashClosing = typeof cashClosings.$inferSelect;
+
 // Users table for Replit Auth
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -0,0 +1,44 @@
+// Settlement of documents (invoices, purchases) by the payments allocated to them.
+// Status is always derived from the allocations, never stored.
+
+import { PRICING_TOLERANCE, roundMoney } from "./money";
+
+export type SettlementStatus = "unpaid" | "partial" | "paid";
+
+export function getSettlementStatus(total: number, settled: number): SettlementStatus {
+  if (settled >= total - PRICING_TOLERANCE) return "paid";
+  if (settled > PRICING_TOLERANCE) return "partial";
+  return "unpaid";
+}
+
+export function getOutstanding(total: number, settled: number): number {
+  return Math.max(0, roundMoney(total - settled));
+}
+
+export interface OpenDocument {
+  id: string;
+  date: string;
+  outstanding: number;
+}
+
+export interface Allocation {
+  id: string;
+  amount: number;
+}
+
+// Spreads an amount over open documents, settling the oldest first
+export function allocateOldestFirst(amount: number, documents: OpenDocument[]): Allocation[] {
+  const allocations: Allocation[] = [];
+  let remaining = roundMoney(amount);
+
+  const oldestFirst = documents
+    .filter(doc => doc.outstanding > PRICING_TOLERANCE)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (const doc of oldestFirst) {
+    if (remaining <= PRICING_TOLERANCE) break;
+    const applied = roundMoney(Math.min(remaining, doc.outstanding));
+    allocations.push({ id: doc.id, amount: applied });
+    remaining = roundMoney(remaining - applied);
+  }
+  return allocations;
+}
@@ -0,0 +1,61 @@
+// Statements of account: dated debit/credit entries rolled into opening,
+// running and closing balances for a date range. A positive (debit) balance is
+// owed to us by the party; a negative (credit) balance is owed by us.
+
+import { roundMoney } from "./money";
+
+export type StatementEntryType = "invoice" | "payment" | "hamali" | "purchase" | "return" | "patti";
+
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  documentId: string;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+export interface StatementLine extends StatementEntry {
+  balance: number;
+}
+
+export interface Statement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+// Entries dated before `from` fold into the opening balance; entries after `to` are ignored.
+// Same-day entries keep the order the caller supplied them in.
+export function buildStatement(entries: StatementEntry[], from: string, to: string): Statement {
+  const ordered = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const lines: StatementLine[] = [];
+  for (const entry of ordered) {
+    if (entry.date > to) break;
+    balance = roundMoney(balance + entry.debit - entry.credit);
+    if (entry.date < from) continue;
+    totalDebit += entry.debit;
+    totalCredit += entry.credit;
+    lines.push({ ...entry, balance });
+  }
+
+  const closingBalance = balance;
+  return {
+    from,
+    to,
+    openingBalance: roundMoney(closingBalance - totalDebit + totalCredit),
+    lines,
+    totalDebit: roundMoney(totalDebit),
+    totalCredit: roundMoney(totalCredit),
+    closingBalance,
+  };
+}